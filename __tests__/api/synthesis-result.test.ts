@@ -1,5 +1,6 @@
 import { GET } from '@/app/api/ai/synthesis-result/[id]/route'
-import { resultStorage } from '@/lib/result-storage'
+import { resultStorage, type MemoryResultStore } from '@/lib/result-storage'
+import { USER_COOKIE } from '@/lib/user-identity'
 import { NextRequest } from 'next/server'
 import type { ConsensusAnalysis } from '@/types/ai'
 
@@ -13,9 +14,11 @@ const mockAnalysis: ConsensusAnalysis = {
   alignment: {
     semantic: 0.8,
     surface: 0.6,
-    gemini: 'high',
-    chatgpt: 'high', 
-    claude: 'moderate',
+    models: { gemini: 'high', openai: 'high', claude: 'moderate' },
+    similarityMatrix: {
+      models: ['gemini', 'openai', 'claude'],
+      scores: [[1, 0.8, 0.7], [0.8, 1, 0.7], [0.7, 0.7, 1]]
+    },
     overallAlignment: 'high',
     description: 'Test alignment',
     methodology: 'semantic-similarity-v2',
@@ -26,9 +29,13 @@ const mockAnalysis: ConsensusAnalysis = {
   originalResponses: []
 }
 
+// A request from the browser holding the given voiltail-user id
+const requestAs = (url: string, userId: string = 'user-1') =>
+  new NextRequest(url, { headers: { cookie: `${USER_COOKIE}=${userId}` } })
+
 describe('/api/ai/synthesis-result/[id]', () => {
   beforeEach(() => {
-    resultStorage['storage'].clear()
+    ;(resultStorage as MemoryResultStore)['storage'].clear()
     mockConsoleLog.mockClear()
     mockConsoleError.mockClear()
   })
@@ -42,10 +49,10 @@ describe('/api/ai/synthesis-result/[id]', () => {
   describe('GET', () => {
     it('should retrieve stored result successfully', async () => {
       // Store a result
-      const resultId = resultStorage.store(mockAnalysis)
+      const resultId = await resultStorage.store(mockAnalysis, { userId: 'user-1' })
       
       // Create request
-      const request = new NextRequest('http://localhost/api/ai/synthesis-result/' + resultId)
+      const request = requestAs('http://localhost/api/ai/synthesis-result/' + resultId)
       const params = Promise.resolve({ id: resultId })
       
       // Call API
@@ -57,6 +64,15 @@ describe('/api/ai/synthesis-result/[id]', () => {
       expect(data.retrieved).toBe(true)
     })
 
+    it('should return 404 for another user\'s result', async () => {
+      const resultId = await resultStorage.store(mockAnalysis, { userId: 'user-1' })
+
+      const request = requestAs('http://localhost/api/ai/synthesis-result/' + resultId, 'user-2')
+      const response = await GET(request, { params: Promise.resolve({ id: resultId }) })
+
+      expect(response.status).toBe(404)
+    })
+
     it('should return 404 for non-existent result', async () => {
       const request = new NextRequest('http://localhost/api/ai/synthesis-result/non-existent')
       const params = Promise.resolve({ id: 'non-existent' })
@@ -80,18 +96,18 @@ describe('/api/ai/synthesis-result/[id]', () => {
     })
 
     it('should return 404 for expired result', async () => {
-      // Store with very short TTL
-      const resultId = resultStorage.store(mockAnalysis, 0.001)
+      const resultId = await resultStorage.store(mockAnalysis, { userId: 'user-1' })
       
-      // Wait for expiry
-      await new Promise(resolve => setTimeout(resolve, 100))
+      // Move past the 30-minute default retention
+      const mockNow = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 31 * 60 * 1000)
       
-      const request = new NextRequest('http://localhost/api/ai/synthesis-result/' + resultId)
+      const request = requestAs('http://localhost/api/ai/synthesis-result/' + resultId)
       const params = Promise.resolve({ id: resultId })
       
       const response = await GET(request, { params })
       const data = await response.json()
       
+      mockNow.mockRestore()
       expect(response.status).toBe(404)
       expect(data.error).toBe('Result not found or expired')
     })
@@ -102,7 +118,7 @@ describe('/api/ai/synthesis-result/[id]', () => {
         throw new Error('Storage error')
       })
       
-      const request = new NextRequest('http://localhost/api/ai/synthesis-result/test-id')
+      const request = requestAs('http://localhost/api/ai/synthesis-result/test-id')
       const params = Promise.resolve({ id: 'test-id' })
       
       const response = await GET(request, { params })
@@ -0,0 +1,112 @@
+import { extractClaims, analyzeClaims, clusterClaims, toAlignedPoints } from '@/lib/ai/claims'
+import type { ModelResponse } from '@/types/ai'
+
+// Embedding = bag of topic words, so claims about the same topic are near-identical
+const TOPICS = ['paris', 'capital', 'eiffel', 'tower', 'population', 'million', 'river', 'seine']
+jest.mock('../../lib/ai/embeddings', () => {
+  const actual = jest.requireActual('../../lib/ai/embeddings')
+  const embed = (text: string) => TOPICS.map(topic => (text.toLowerCase().includes(topic) ? 1 : 0))
+  return {
+    ...actual,
+    computeSimilarityMatrix: jest.fn(async (texts: string[]) => ({
+      scores: texts.map(a => texts.map(b => actual.cosineSimilarity(embed(a), embed(b)))),
+      backend: 'openai'
+    }))
+  }
+})
+
+const mockConsoleError = jest.spyOn(console, 'error').mockImplementation()
+
+const response = (model: string, content: string): ModelResponse => ({
+  model,
+  content,
+  responseTime: 1000
+})
+
+describe('Claims', () => {
+  afterAll(() => {
+    mockConsoleError.mockRestore()
+  })
+
+  describe('extractClaims()', () => {
+    it('should split markdown into atomic sentence claims', () => {
+      const claims = extractClaims(response('gemini', [
+        '## Overview',
+        'Paris is the capital of France. It sits on the river Seine in the north.',
+        '',
+        '- **The Eiffel Tower** was completed in 1889 for the World Fair; it is 330 metres tall today.',
+        '```js',
+        'console.log("not a claim at all here")',
+        '```',
+        'Is it worth visiting the city in winter?',
+        'I hope this helps you plan your trip!'
+      ].join('\n')))
+
+      expect(claims.map(c => c.text)).toEqual([
+        'Paris is the capital of France.',
+        'It sits on the river Seine in the north.',
+        'The Eiffel Tower was completed in 1889 for the World Fair',
+        'it is 330 metres tall today.'
+      ])
+      expect(claims[0]).toEqual(expect.objectContaining({ id: 'gemini#0', model: 'gemini' }))
+    })
+  })
+
+  describe('clusterClaims()', () => {
+    it('should never cluster two claims from the same model', () => {
+      const claims = [
+        { id: 'a#0', model: 'a', text: 'x' },
+        { id: 'a#1', model: 'a', text: 'y' },
+        { id: 'b#0', model: 'b', text: 'z' }
+      ]
+      const similarity = [[1, 0.9, 0.8], [0.9, 1, 0.95], [0.8, 0.95, 1]]
+
+      const clusters = clusterClaims(claims, similarity, 0.7)
+
+      clusters.forEach(cluster => expect(new Set(cluster.models).size).toBe(cluster.models.length))
+      expect(clusters.map(c => c.claims.map(claim => claim.id))).toEqual([['a#0'], ['a#1', 'b#0']])
+    })
+  })
+
+  describe('analyzeClaims() and toAlignedPoints()', () => {
+    const responses = [
+      response('gemini', 'Paris is the capital city of France. The Eiffel Tower is its famous landmark.'),
+      response('openai', 'France has Paris as its capital city. The city has a population over two million.'),
+      response('claude', 'The capital of France is the city of Paris. The river Seine flows through the city.')
+    ]
+
+    it('should turn claims shared across models into aligned points', async () => {
+      const analysis = await analyzeClaims(responses)
+      const points = toAlignedPoints(analysis, responses.length)
+
+      expect(analysis.method).toBe('openai')
+      expect(points).toHaveLength(1)
+      expect(points[0].models).toEqual(['gemini', 'openai', 'claude'])
+      expect(points[0].strength).toBeCloseTo(1)
+      expect(points[0].content).toMatch(/capital/)
+      expect(points[0].sources).toHaveLength(3)
+    })
+
+    it('should weight strength by the share of models supporting a claim', async () => {
+      const analysis = await analyzeClaims(responses.slice(0, 2))
+      const [point] = toAlignedPoints(analysis, 4)
+
+      expect(point.models).toEqual(['gemini', 'openai'])
+      expect(point.strength).toBeCloseTo(0.5)
+    })
+
+    it('should record the embedding backend behind the similarities', async () => {
+      const { computeSimilarityMatrix } = jest.requireMock('../../lib/ai/embeddings')
+      computeSimilarityMatrix.mockImplementationOnce(async (texts: string[]) => ({
+        scores: texts.map((_, i) => texts.map((__, j) => (i === j ? 1 : 0))),
+        backend: 'local'
+      }))
+
+      const analysis = await analyzeClaims(responses)
+
+      expect(analysis.method).toBe('local')
+      expect(analysis.similarity).toHaveLength(analysis.claims.length)
+      expect(toAlignedPoints(analysis, responses.length)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import { detectConflict, findContradictions } from '@/lib/ai/contradictions'
+import type { Claim, ClaimAnalysis } from '@/lib/ai/claims'
+
+const analysisOf = (claims: Claim[], similarity: number[][]): ClaimAnalysis => ({
+  claims,
+  similarity,
+  method: 'openai',
+  clusters: []
+})
+
+describe('Contradictions', () => {
+  describe('detectConflict()', () => {
+    it.each([
+      ['date', 'The Eiffel Tower was completed in 1889.', 'The Eiffel Tower was completed in 1887.'],
+      ['numeric', 'The tower is 330 metres tall.', 'The tower is 300 metres tall.'],
+      ['numeric', 'Adoption grew by 40% last year.', 'Adoption grew by 12 percent last year.'],
+      ['recommendation', 'For this workload I recommend PostgreSQL.', 'I would recommend MongoDB for this workload.'],
+      ['polarity', 'It is safe to eat raw cookie dough.', 'It is not safe to eat raw cookie dough.']
+    ])('should flag a %s conflict', (conflict, a, b) => {
+      expect(detectConflict(a, b)).toBe(conflict)
+    })
+
+    it.each([
+      ['The Eiffel Tower was completed in 1889.', 'Construction of the tower finished in 1889.'],
+      ['The tower is 330 metres tall.', 'The tower stands about 324 metres tall.'],
+      ['Adoption grew by 40% last year.', 'The product reached 2 million users.'],
+      ['I recommend PostgreSQL for this workload.', 'PostgreSQL is the option I would recommend here.'],
+      ['It is safe to eat raw cookie dough.', 'Do not leave the oven unattended.']
+    ])('should not flag compatible claims: %s / %s', (a, b) => {
+      expect(detectConflict(a, b)).toBeNull()
+    })
+  })
+
+  describe('findContradictions()', () => {
+    const claims: Claim[] = [
+      { id: 'gemini#0', model: 'gemini', text: 'The Eiffel Tower was completed in 1889.' },
+      { id: 'gemini#1', model: 'gemini', text: 'Paris is the capital of France.' },
+      { id: 'openai#0', model: 'openai', text: 'The Eiffel Tower was completed in 1887.' },
+      { id: 'openai#1', model: 'openai', text: 'The Eiffel Tower was completed in 1885.' },
+      { id: 'claude#0', model: 'claude', text: 'The Eiffel Tower was finished in 1890.' },
+      { id: 'claude#1', model: 'claude', text: 'The Louvre opened in 1793.' }
+    ]
+    // Claims about the tower are on-topic with each other; the rest are unrelated
+    const onTopic = [0, 2, 3, 4]
+    const similarity = claims.map((_, i) => claims.map((__, j) =>
+      i === j ? 1 : onTopic.includes(i) && onTopic.includes(j) ? 0.9 : 0.1
+    ))
+
+    it('should group conflicting claims into one substantive divergence with verbatim positions', () => {
+      const divergences = findContradictions(analysisOf(claims, similarity))
+
+      expect(divergences).toHaveLength(1)
+      expect(divergences[0]).toEqual(expect.objectContaining({
+        kind: 'substantive',
+        conflict: 'date',
+        models: ['gemini', 'openai', 'claude']
+      }))
+      expect(divergences[0].positions).toEqual([
+        { model: 'gemini', text: 'The Eiffel Tower was completed in 1889.' },
+        { model: 'openai', text: 'The Eiffel Tower was completed in 1887.' },
+        { model: 'claude', text: 'The Eiffel Tower was finished in 1890.' }
+      ])
+      expect(divergences[0].topic).toMatch(/eiffel/)
+    })
+
+    it('should ignore conflicts between unrelated claims and within one model', () => {
+      const unrelated = claims.map((_, i) => claims.map((__, j) => (i === j ? 1 : 0.1)))
+      expect(findContradictions(analysisOf(claims, unrelated))).toEqual([])
+
+      const sameModel = claims.filter(claim => claim.model === 'openai')
+      expect(findContradictions(analysisOf(sameModel, [[1, 0.9], [0.9, 1]]))).toEqual([])
+    })
+
+    it('should return nothing when there are no claims', () => {
+      expect(findContradictions(analysisOf([], []))).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,130 @@
+/** @jest-environment node */
+import { countDocumentTokens, countTextTokens, estimateUnansweredUsage, estimateQueryCost, readImageSize, summarizeAttachment } from '@/lib/ai/cost-estimate'
+import { resolveModelPanel } from '@/lib/ai/providers'
+import { PRICE_TABLE_VERSION } from '@/lib/ai/pricing'
+import type { FileAttachment } from '@/types/ai'
+
+// Just the header bytes the size readers look at
+const png = (width: number, height: number) => {
+  const bytes = Buffer.alloc(24)
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]).copy(bytes)
+  bytes.write('IHDR', 12, 'ascii')
+  bytes.writeUInt32BE(width, 16)
+  bytes.writeUInt32BE(height, 20)
+  return bytes.toString('base64')
+}
+
+const jpeg = (width: number, height: number) => {
+  const app0 = Buffer.concat([Buffer.from([0xff, 0xe0, 0, 16]), Buffer.alloc(14)])
+  const frame = Buffer.from([0xff, 0xc0, 0, 17, 8, height >> 8, height & 0xff, width >> 8, width & 0xff, 3])
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, frame, Buffer.alloc(8)]).toString('base64')
+}
+
+const image = (base64: string): FileAttachment => ({ type: 'image', mimeType: 'image/png', base64, filename: 'chart.png' })
+
+const document = (mimeType: string, content: string): FileAttachment =>
+  ({ type: 'document', mimeType, base64: Buffer.from(content).toString('base64'), filename: 'notes' })
+
+describe('countTextTokens()', () => {
+  it('should count about a token per short word and per punctuation mark', () => {
+    expect(countTextTokens('')).toBe(0)
+    expect(countTextTokens('What is the capital of France?')).toBe(9)
+  })
+})
+
+describe('readImageSize()', () => {
+  it('should read PNG and JPEG dimensions from their headers', () => {
+    expect(readImageSize(png(1920, 1080))).toEqual({ width: 1920, height: 1080 })
+    expect(readImageSize(jpeg(640, 480))).toEqual({ width: 640, height: 480 })
+  })
+
+  it('should return null for anything else', () => {
+    expect(readImageSize(Buffer.from('not an image').toString('base64'))).toBeNull()
+    expect(readImageSize(Buffer.from([0xff, 0xd8, 0xff]).toString('base64'))).toBeNull()
+  })
+})
+
+describe('countDocumentTokens()', () => {
+  it('should count text documents by their content and PDFs by their pages', () => {
+    expect(countDocumentTokens(document('text/plain', 'What is the capital of France?'))).toBe(9)
+    expect(countDocumentTokens(document('application/pdf', '<< /Type /Pages >> << /Type /Page >> << /Type/Page >>'))).toBe(4000)
+  })
+})
+
+describe('summarizeAttachment()', () => {
+  it('should keep only what the estimate reads: size, image dimensions and document tokens', () => {
+    expect(summarizeAttachment(image(png(1920, 1080)))).toEqual({ type: 'image', bytes: 24, size: { width: 1920, height: 1080 } })
+    expect(summarizeAttachment(image(Buffer.from('not an image').toString('base64')))).toEqual({ type: 'image', bytes: 12, size: undefined })
+    expect(summarizeAttachment(document('text/plain', 'What is the capital of France?'))).toEqual({ type: 'document', bytes: 30, tokens: 9 })
+  })
+})
+
+describe('estimateQueryCost()', () => {
+  const prompt = 'Compare the long-term health effects of intermittent fasting and calorie restriction.'
+
+  it('should price each panel model and the synthesis stages on either tier', () => {
+    const basic = estimateQueryCost('basic', prompt, [], resolveModelPanel())
+    const pro = estimateQueryCost('pro', prompt, [], resolveModelPanel())
+
+    expect(basic.lines.map(line => line.key)).toEqual(['gemini', 'openai', 'claude', 'embeddings', 'synthesis'])
+    expect(pro.lines.map(line => line.key)).toEqual(['gemini', 'openai', 'claude', 'embeddings', 'synthesis'])
+    expect(pro.lines.every(line => line.priced)).toBe(true)
+    expect(basic.total).toBeCloseTo(pro.total)
+    expect(pro.promptTokens).toBe(countTextTokens(prompt))
+    expect(pro.priceTableVersion).toBe(PRICE_TABLE_VERSION)
+  })
+
+  it('should charge large images by their size, per provider', () => {
+    const plain = estimateQueryCost('basic', prompt, [], resolveModelPanel())
+    const small = estimateQueryCost('basic', prompt, [summarizeAttachment(image(png(256, 256)))], resolveModelPanel())
+    const large = estimateQueryCost('basic', prompt, [summarizeAttachment(image(png(4000, 3000)))], resolveModelPanel())
+
+    const claude = (estimate: typeof plain) => estimate.lines.find(line => line.key === 'claude')!
+    expect(claude(large).inputTokens - claude(plain).inputTokens).toBe(2459) // 1568x1176 after scaling
+    expect(large.attachmentTokens).toBeGreaterThan(small.attachmentTokens)
+    expect(large.total).toBeGreaterThan(small.total)
+    expect(small.total).toBeGreaterThan(plain.total)
+  })
+
+  it('should charge documents only to models that can read them', () => {
+    const [model] = resolveModelPanel()
+    const reader = { ...model, provider: { ...model.provider, capabilities: { images: true, documents: true } } }
+    const attachments = [summarizeAttachment(document('application/pdf', '<< /Type /Page >>'))]
+
+    expect(estimateQueryCost('basic', prompt, attachments, [model]).attachmentTokens).toBe(0)
+    expect(estimateQueryCost('basic', prompt, attachments, [reader]).attachmentTokens).toBe(2000)
+  })
+
+  it('should estimate attachments sent without a summary from their type and size', () => {
+    const [model] = resolveModelPanel()
+    const reader = { ...model, provider: { ...model.provider, capabilities: { images: true, documents: true } } }
+    const plain = estimateQueryCost('basic', prompt, [{ type: 'document', bytes: 4000 }], [reader])
+    const photo = estimateQueryCost('basic', prompt, [{ type: 'image', bytes: 4000 }], [reader])
+
+    expect(plain.attachmentTokens).toBe(1000)
+    expect(photo.attachmentTokens).toBeGreaterThan(0)
+  })
+
+  it('should fall back to the fixed estimate for a model without a price', () => {
+    const [model] = resolveModelPanel()
+    const estimate = estimateQueryCost('basic', prompt, [], [{ ...model, model: 'gpt-unpriced', estimatedCost: 0.05 }])
+
+    expect(estimate.lines[0]).toMatchObject({ priced: false, cost: 0.05 })
+    expect(estimate.total).toBeCloseTo(0.05 + estimate.lines.slice(1).reduce((total, line) => total + line.cost, 0))
+  })
+})
+
+describe('estimateUnansweredUsage()', () => {
+  it('should take the estimated input and count only the output streamed so far', () => {
+    const panel = resolveModelPanel()
+    const estimate = estimateQueryCost('pro', 'What is the capital of France?', [], panel)
+    const claude = panel.find(model => model.key === 'claude')!
+
+    expect(estimateUnansweredUsage(estimate, claude, 'The capital is')).toEqual({
+      model: claude.model,
+      inputTokens: 9,
+      outputTokens: 4
+    })
+    expect(estimateUnansweredUsage(estimate, claude).outputTokens).toBe(0)
+  })
+})
@@ -0,0 +1,161 @@
+/** @jest-environment node */
+import { appendFileSync, existsSync, unlinkSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { JsonlCostLedger, MemoryCostLedger, SqlCostLedger, createCostLedger, type CostLedger, type QueryCost } from '@/lib/cost-ledger'
+import { openSqliteDatabase } from '@/lib/sql-database'
+
+const ledgerFile = join(tmpdir(), `cost-ledger-test-${process.pid}.jsonl`)
+
+const queryCost = (overrides: Partial<QueryCost> = {}): QueryCost => ({
+  timestamp: Date.now(),
+  tier: 'pro',
+  models: { claude: 0.02 },
+  synthesis: { gpt4: 0.001 },
+  total: 0.021,
+  estimatedTotal: 0.06,
+  tokens: [{ model: 'claude-sonnet-4-20250514', inputTokens: 100, outputTokens: 200 }],
+  priceTableVersion: 'test',
+  processingTime: 4000,
+  ...overrides
+})
+
+describe.each([
+  ['memory', () => new MemoryCostLedger()],
+  ['JSONL', () => new JsonlCostLedger(ledgerFile)],
+  ['SQLite', () => new SqlCostLedger(() => openSqliteDatabase(':memory:'))]
+])('%s cost ledger', (_name, createLedger: () => CostLedger) => {
+  let ledger: CostLedger
+
+  beforeEach(() => {
+    if (existsSync(ledgerFile)) unlinkSync(ledgerFile)
+    ledger = createLedger()
+  })
+
+  afterEach(async () => {
+    await ledger.destroy()
+    if (existsSync(ledgerFile)) unlinkSync(ledgerFile)
+  })
+
+  it('should list appended records oldest first', async () => {
+    await ledger.append(queryCost({ timestamp: 1000, tier: 'basic' }))
+    await ledger.append(queryCost({ timestamp: 2000 }))
+
+    const costs = await ledger.list()
+
+    expect(costs.map(cost => cost.tier)).toEqual(['basic', 'pro'])
+    expect(costs[1]).toEqual(queryCost({ timestamp: 2000 }))
+    expect(await ledger.count()).toBe(2)
+  })
+
+  it('should aggregate per tier over the requested window', async () => {
+    const now = Date.now()
+    await ledger.append(queryCost({ timestamp: now - 10 * 24 * 60 * 60 * 1000, total: 5 })) // Outside the window
+    await ledger.append(queryCost({ timestamp: now, total: 0.02, processingTime: 2000 }))
+    await ledger.append(queryCost({ timestamp: now, total: 0.04, processingTime: 6000, unmeasured: ['gpt4'] }))
+    await ledger.append(queryCost({ timestamp: now, tier: 'basic', total: 0.01, estimatedTotal: 0.03 }))
+
+    const since = now - 7 * 24 * 60 * 60 * 1000
+    const stats = await ledger.getPerformanceStats(since)
+    const totals = await ledger.getTotalCosts(since)
+
+    expect(stats.pro).toEqual({
+      count: 2,
+      measuredCount: 1,
+      avgCost: expect.closeTo(0.03),
+      avgEstimatedCost: expect.closeTo(0.06),
+      avgTime: 4000
+    })
+    expect(stats.basic.count).toBe(1)
+    expect(totals.pro).toBeCloseTo(0.06)
+    expect(totals.basic).toBeCloseTo(0.01)
+    expect(totals.total).toBeCloseTo(0.07)
+    expect(totals.estimated).toBeCloseTo(0.15)
+  })
+
+  it('should sum spend per user or for everyone', async () => {
+    const now = Date.now()
+    await ledger.append(queryCost({ timestamp: now - 2 * 24 * 60 * 60 * 1000, userId: 'alice', total: 5 })) // Before `since`
+    await ledger.append(queryCost({ timestamp: now, userId: 'alice', total: 0.02 }))
+    await ledger.append(queryCost({ timestamp: now, userId: 'bob', total: 0.05 }))
+    await ledger.append(queryCost({ timestamp: now, total: 0.01 }))
+
+    const since = now - 24 * 60 * 60 * 1000
+
+    expect(await ledger.getSpend(since, 'alice')).toBeCloseTo(0.02)
+    expect(await ledger.getSpend(since, 'carol')).toBe(0)
+    expect(await ledger.getSpend(since)).toBeCloseTo(0.08)
+  })
+
+  it('should report zeros when nothing was recorded', async () => {
+    expect(await ledger.getPerformanceStats(0)).toEqual({
+      basic: { count: 0, measuredCount: 0, avgCost: 0, avgEstimatedCost: 0, avgTime: 0 },
+      pro: { count: 0, measuredCount: 0, avgCost: 0, avgEstimatedCost: 0, avgTime: 0 }
+    })
+    expect(await ledger.getTotalCosts(0)).toEqual({ basic: 0, pro: 0, total: 0, estimated: 0 })
+    expect(await ledger.count()).toBe(0)
+  })
+})
+
+describe('JsonlCostLedger', () => {
+  afterEach(() => {
+    if (existsSync(ledgerFile)) unlinkSync(ledgerFile)
+  })
+
+  it('should skip a line cut short mid-append', async () => {
+    const ledger = new JsonlCostLedger(ledgerFile)
+    await ledger.append(queryCost())
+    appendFileSync(ledgerFile, '{"timestamp": 12')
+
+    expect(await ledger.list()).toHaveLength(1)
+  })
+
+  it('should pick up records appended by another writer since the last read', async () => {
+    const ledger = new JsonlCostLedger(ledgerFile)
+    await ledger.append(queryCost({ total: 0.01 }))
+    expect(await ledger.getSpend(0)).toBeCloseTo(0.01)
+
+    appendFileSync(ledgerFile, `${JSON.stringify(queryCost({ total: 0.02 }))}\n`)
+    expect(await ledger.getSpend(0)).toBeCloseTo(0.03)
+
+    unlinkSync(ledgerFile)
+    expect(await ledger.list()).toEqual([])
+  })
+
+  it('should keep every record from concurrent appends', async () => {
+    const ledger = new JsonlCostLedger(ledgerFile)
+
+    await Promise.all(Array.from({ length: 20 }, (_, index) => ledger.append(queryCost({ processingTime: index }))))
+
+    expect(await ledger.count()).toBe(20)
+  })
+})
+
+describe('createCostLedger()', () => {
+  const originalEnv = { ...process.env }
+
+  beforeEach(() => {
+    delete process.env.COST_LEDGER
+    process.env.COST_LEDGER_PATH = ledgerFile
+  })
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+    if (existsSync(ledgerFile)) unlinkSync(ledgerFile)
+  })
+
+  it('should follow the result store database unless COST_LEDGER says otherwise', () => {
+    const mockConsoleLog = jest.spyOn(console, 'log').mockImplementation()
+    process.env.RESULT_STORE = 'sqlite'
+
+    expect(createCostLedger()).toBeInstanceOf(SqlCostLedger)
+    expect(createCostLedger('memory')).toBeInstanceOf(MemoryCostLedger)
+    mockConsoleLog.mockRestore()
+  })
+
+  it('should use the JSONL file when results stay in memory', () => {
+    process.env.RESULT_STORE = 'memory'
+
+    expect(createCostLedger()).toBeInstanceOf(JsonlCostLedger)
+  })
+})
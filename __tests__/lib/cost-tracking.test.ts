@@ -1,18 +1,25 @@
-import { persistentCostTracker } from '@/lib/persistent-cost-tracking'
+/** @jest-environment node */
+import { createQueryUsage, costTracker, unansweredCalls } from '@/lib/cost-tracking'
+import { estimateQueryCost } from '@/lib/ai/cost-estimate'
+import { resolveModelPanel } from '@/lib/ai/providers'
+import type { ModelResult } from '@/types/ai'
+import { PRICE_TABLE_VERSION, priceUsage } from '@/lib/ai/pricing'
+import { JsonlCostLedger } from '@/lib/cost-ledger'
 import { existsSync, unlinkSync } from 'fs'
+import { tmpdir } from 'os'
 import { join } from 'path'
 
 // Mock console methods
 const mockConsoleLog = jest.spyOn(console, 'log').mockImplementation()
 const mockConsoleError = jest.spyOn(console, 'error').mockImplementation()
 
-// Test data file path
-const testDataFile = join(process.cwd(), 'test-cost-tracking-data.json')
+// Test ledger file path
+const testDataFile = join(tmpdir(), `test-cost-ledger-${process.pid}.jsonl`)
 
-describe('Persistent Cost Tracker', () => {
+describe('Cost Tracker', () => {
   beforeEach(() => {
-    // Clear existing data
-    persistentCostTracker['costs'] = []
+    // Record into an empty ledger
+    costTracker['ledger'] = new JsonlCostLedger(testDataFile)
     
     // Clean up test file if it exists
     if (existsSync(testDataFile)) {
@@ -36,9 +43,9 @@ describe('Persistent Cost Tracker', () => {
   })
 
   describe('trackQuery()', () => {
-    it('should track basic tier query', () => {
+    it('should track basic tier query', async () => {
       const processingTime = 5000
-      const cost = persistentCostTracker.trackQuery('basic', processingTime)
+      const cost = await costTracker.trackQuery('basic', processingTime)
       
       expect(cost.tier).toBe('basic')
       expect(cost.processingTime).toBe(processingTime)
@@ -50,9 +57,9 @@ describe('Persistent Cost Tracker', () => {
       expect(cost.timestamp).toBeGreaterThan(0)
     })
 
-    it('should track pro tier query with synthesis costs', () => {
+    it('should track pro tier query with synthesis costs', async () => {
       const processingTime = 10000
-      const cost = persistentCostTracker.trackQuery('pro', processingTime)
+      const cost = await costTracker.trackQuery('pro', processingTime)
       
       expect(cost.tier).toBe('pro')
       expect(cost.processingTime).toBe(processingTime)
@@ -64,8 +71,111 @@ describe('Persistent Cost Tracker', () => {
       expect(cost.total).toBe(0.1001) // 0.01 + 0.03 + 0.02 + 0.0001 + 0.04
     })
 
-    it('should log cost tracking', () => {
-      persistentCostTracker.trackQuery('basic', 5000)
+    it('should charge a cancelled query only for the calls that ran', async () => {
+      const cost = await costTracker.trackQuery(
+        'pro',
+        3000,
+        [{ key: 'claude', estimatedCost: 0.02 }],
+        { embeddings: true, gpt4: false, cancelled: true }
+      )
+
+      expect(cost.cancelled).toBe(true)
+      expect(cost.models).toEqual({ claude: 0.02 })
+      expect(cost.synthesis).toEqual({ embeddings: 0.0001 })
+      expect(cost.total).toBeCloseTo(0.0201)
+    })
+
+    it('should charge calls cut off mid-answer for their estimated usage', async () => {
+      const cost = await costTracker.trackQuery('pro', 3000, [], {
+        embeddings: false,
+        gpt4: false,
+        cancelled: true,
+        unanswered: [
+          { key: 'claude', estimatedCost: 0.02, usage: { model: 'claude-sonnet-4-20250514', inputTokens: 1000, outputTokens: 200 } },
+          { key: 'openai', estimatedCost: 0.03, usage: { model: 'mystery-model', inputTokens: 1000, outputTokens: 0 } }
+        ]
+      })
+
+      expect(cost.models.claude).toBeCloseTo(0.006) // 1000 * $3/M + 200 * $15/M
+      expect(cost.models.openai).toBe(0.03) // No price: charged at the estimate
+      expect(cost.unmeasured).toEqual(['claude', 'openai'])
+      expect(cost.tokens).toEqual([])
+    })
+
+    it('should leave the estimate of a model that failed out of the total', async () => {
+      const panel = resolveModelPanel()
+      const estimate = estimateQueryCost('pro', 'What is the capital of France?', [], panel)
+      const [gemini, openai, claude] = panel
+      const failure = (target: typeof gemini, code: 'timeout' | 'circuit_open' | 'auth'): ModelResult => ({
+        ok: false, model: target.key, provider: target.provider.id, code, message: 'failed', retryable: true, responseTime: 10
+      })
+      const usage = createQueryUsage()
+      usage.models.claude = { model: claude.model, inputTokens: 1000, outputTokens: 2000 }
+
+      const skipped = await costTracker.trackQuery('pro', 1000, [claude], {
+        usage,
+        embeddings: false,
+        gpt4: false,
+        unanswered: unansweredCalls(panel, [failure(gemini, 'circuit_open'), failure(openai, 'auth'), { ok: true, model: 'claude', content: 'Paris', responseTime: 10 }], estimate)
+      })
+      expect(skipped.models).toEqual({ claude: expect.any(Number) })
+      expect(skipped.total).toBeCloseTo(0.033) // Claude's reported usage alone
+
+      const timedOut = await costTracker.trackQuery('pro', 1000, [claude], {
+        usage,
+        embeddings: false,
+        gpt4: false,
+        unanswered: unansweredCalls(panel, [failure(gemini, 'timeout'), failure(openai, 'auth'), { ok: true, model: 'claude', content: 'Paris', responseTime: 10 }], estimate)
+      })
+      expect(Object.keys(timedOut.models)).toEqual(['claude', 'gemini'])
+      expect(timedOut.models.gemini).toBeLessThan(0.001) // Its prompt tokens, not the fixed $0.01
+      expect(timedOut.unmeasured).toEqual(['gemini'])
+    })
+
+    it('should price reported token usage and keep the estimate alongside', async () => {
+      const usage = createQueryUsage()
+      usage.models.claude = { model: 'claude-sonnet-4-20250514', inputTokens: 1000, outputTokens: 2000 }
+      usage.embeddings.push({ model: 'text-embedding-3-small', inputTokens: 5000, outputTokens: 0 })
+      usage.synthesis.push({ model: 'gpt-4o-mini', inputTokens: 4000, outputTokens: 1000 })
+
+      const cost = await costTracker.trackQuery(
+        'pro',
+        8000,
+        [{ key: 'claude', estimatedCost: 0.02 }, { key: 'gemini', estimatedCost: 0.01 }],
+        { usage }
+      )
+
+      expect(cost.models.claude).toBeCloseTo(0.033) // 1000 * $3/M + 2000 * $15/M
+      expect(cost.models.gemini).toBe(0.01) // No usage reported: charged at the estimate
+      expect(cost.synthesis.embeddings).toBeCloseTo(0.0001)
+      expect(cost.synthesis.gpt4).toBeCloseTo(0.0012)
+      expect(cost.total).toBeCloseTo(0.0443)
+      expect(cost.estimatedTotal).toBeCloseTo(0.0701)
+      expect(cost.unmeasured).toEqual(['gemini'])
+      expect(cost.tokens).toHaveLength(3)
+      expect(cost.priceTableVersion).toBe(PRICE_TABLE_VERSION)
+    })
+
+    it('should keep the pre-flight estimate the budget reserved', async () => {
+      const cost = await costTracker.trackQuery('pro', 8000, undefined, { estimate: 0.0123 })
+
+      expect(cost.estimatedTotal).toBe(0.0123)
+      expect(cost.total).toBe(0.1001)
+    })
+
+    it('should charge models without a price at their estimate', async () => {
+      expect(priceUsage({ model: 'mystery-model', inputTokens: 10, outputTokens: 10 })).toBeUndefined()
+
+      const usage = createQueryUsage()
+      usage.models.openai = { model: 'mystery-model', inputTokens: 10, outputTokens: 10 }
+      const cost = await costTracker.trackQuery('basic', 1000, [{ key: 'openai', estimatedCost: 0.03 }], { usage })
+
+      expect(cost.models.openai).toBe(0.03)
+      expect(cost.unmeasured).toEqual(['openai'])
+    })
+
+    it('should log cost tracking', async () => {
+      await costTracker.trackQuery('basic', 5000)
       
       expect(mockConsoleLog).toHaveBeenCalledWith(
         expect.stringContaining('💰 Query cost tracked: basic tier = $0.0600 (5000ms)')
@@ -73,26 +183,36 @@ describe('Persistent Cost Tracker', () => {
     })
   })
 
+  describe('getSpend()', () => {
+    it('should charge queries to the user who ran them', async () => {
+      await costTracker.trackQuery('basic', 5000, undefined, { userId: 'alice' })
+      await costTracker.trackQuery('pro', 5000, undefined, { userId: 'bob' })
+      
+      expect(await costTracker.getSpend(0, 'alice')).toBeCloseTo(0.06)
+      expect(await costTracker.getSpend(0)).toBeCloseTo(0.1601)
+    })
+  })
+
   describe('getAverageCost()', () => {
-    it('should return 0 for no data', () => {
-      const avgCost = persistentCostTracker.getAverageCost('basic')
+    it('should return 0 for no data', async () => {
+      const avgCost = await costTracker.getAverageCost('basic')
       expect(avgCost).toBe(0)
     })
 
-    it('should calculate average cost correctly', () => {
-      persistentCostTracker.trackQuery('basic', 1000)
-      persistentCostTracker.trackQuery('basic', 2000)
+    it('should calculate average cost correctly', async () => {
+      await costTracker.trackQuery('basic', 1000)
+      await costTracker.trackQuery('basic', 2000)
       
-      const avgCost = persistentCostTracker.getAverageCost('basic')
+      const avgCost = await costTracker.getAverageCost('basic')
       expect(avgCost).toBe(0.06)
     })
 
-    it('should filter by tier', () => {
-      persistentCostTracker.trackQuery('basic', 1000)
-      persistentCostTracker.trackQuery('pro', 2000)
+    it('should filter by tier', async () => {
+      await costTracker.trackQuery('basic', 1000)
+      await costTracker.trackQuery('pro', 2000)
       
-      const basicAvg = persistentCostTracker.getAverageCost('basic')
-      const proAvg = persistentCostTracker.getAverageCost('pro')
+      const basicAvg = await costTracker.getAverageCost('basic')
+      const proAvg = await costTracker.getAverageCost('pro')
       
       expect(basicAvg).toBe(0.06)
       expect(proAvg).toBe(0.1001)
@@ -100,35 +220,35 @@ describe('Persistent Cost Tracker', () => {
   })
 
   describe('getAverageProcessingTime()', () => {
-    it('should return 0 for no data', () => {
-      const avgTime = persistentCostTracker.getAverageProcessingTime('basic')
+    it('should return 0 for no data', async () => {
+      const avgTime = await costTracker.getAverageProcessingTime('basic')
       expect(avgTime).toBe(0)
     })
 
-    it('should calculate average processing time correctly', () => {
-      persistentCostTracker.trackQuery('basic', 1000)
-      persistentCostTracker.trackQuery('basic', 3000)
+    it('should calculate average processing time correctly', async () => {
+      await costTracker.trackQuery('basic', 1000)
+      await costTracker.trackQuery('basic', 3000)
       
-      const avgTime = persistentCostTracker.getAverageProcessingTime('basic')
+      const avgTime = await costTracker.getAverageProcessingTime('basic')
       expect(avgTime).toBe(2000)
     })
   })
 
   describe('getTotalCosts()', () => {
-    it('should return zero totals for no data', () => {
-      const totals = persistentCostTracker.getTotalCosts()
+    it('should return zero totals for no data', async () => {
+      const totals = await costTracker.getTotalCosts()
       
       expect(totals.basic).toBe(0)
       expect(totals.pro).toBe(0)
       expect(totals.total).toBe(0)
     })
 
-    it('should calculate totals correctly', () => {
-      persistentCostTracker.trackQuery('basic', 1000)
-      persistentCostTracker.trackQuery('basic', 2000)
-      persistentCostTracker.trackQuery('pro', 3000)
+    it('should calculate totals correctly', async () => {
+      await costTracker.trackQuery('basic', 1000)
+      await costTracker.trackQuery('basic', 2000)
+      await costTracker.trackQuery('pro', 3000)
       
-      const totals = persistentCostTracker.getTotalCosts()
+      const totals = await costTracker.getTotalCosts()
       
       expect(totals.basic).toBe(0.12) // 0.06 * 2
       expect(totals.pro).toBe(0.1001)
@@ -137,11 +257,11 @@ describe('Persistent Cost Tracker', () => {
   })
 
   describe('getPerformanceStats()', () => {
-    it('should return stats for both tiers', () => {
-      persistentCostTracker.trackQuery('basic', 1000)
-      persistentCostTracker.trackQuery('pro', 2000)
+    it('should return stats for both tiers', async () => {
+      await costTracker.trackQuery('basic', 1000)
+      await costTracker.trackQuery('pro', 2000)
       
-      const stats = persistentCostTracker.getPerformanceStats()
+      const stats = await costTracker.getPerformanceStats()
       
       expect(stats.basic.avgCost).toBe(0.06)
       expect(stats.basic.avgTime).toBe(1000)
@@ -154,12 +274,12 @@ describe('Persistent Cost Tracker', () => {
   })
 
   describe('validatePhase1Criteria()', () => {
-    it('should validate Phase 1 success criteria', () => {
+    it('should validate Phase 1 success criteria', async () => {
       // Add pro queries that meet criteria
-      persistentCostTracker.trackQuery('pro', 30000) // 30 seconds
-      persistentCostTracker.trackQuery('pro', 40000) // 40 seconds
+      await costTracker.trackQuery('pro', 30000) // 30 seconds
+      await costTracker.trackQuery('pro', 40000) // 40 seconds
       
-      const validation = persistentCostTracker.validatePhase1Criteria()
+      const validation = await costTracker.validatePhase1Criteria()
       
       expect(validation.sophisticatedSynthesisTime).toBe(true) // <50 seconds
       expect(validation.costPerQuery).toBe(true) // <$0.15
@@ -167,11 +287,11 @@ describe('Persistent Cost Tracker', () => {
       expect(validation.avgCost).toBe(0.1001)
     })
 
-    it('should fail criteria for slow queries', () => {
+    it('should fail criteria for slow queries', async () => {
       // Add slow pro query
-      persistentCostTracker.trackQuery('pro', 60000) // 60 seconds - fails time criteria
+      await costTracker.trackQuery('pro', 60000) // 60 seconds - fails time criteria
       
-      const validation = persistentCostTracker.validatePhase1Criteria()
+      const validation = await costTracker.validatePhase1Criteria()
       
       expect(validation.sophisticatedSynthesisTime).toBe(false)
       expect(validation.avgTime).toBe(60)
@@ -179,11 +299,11 @@ describe('Persistent Cost Tracker', () => {
   })
 
   describe('getSummary()', () => {
-    it('should return comprehensive summary', () => {
-      persistentCostTracker.trackQuery('basic', 1000)
-      persistentCostTracker.trackQuery('pro', 30000)
+    it('should return comprehensive summary', async () => {
+      await costTracker.trackQuery('basic', 1000)
+      await costTracker.trackQuery('pro', 30000)
       
-      const summary = persistentCostTracker.getSummary()
+      const summary = await costTracker.getSummary()
       
       expect(summary.totalQueries).toBe(2)
       expect(summary.totalCost).toBe(0.1601) // 0.06 + 0.1001
@@ -191,21 +311,21 @@ describe('Persistent Cost Tracker', () => {
       expect(summary.phase1Status).toBe('PASS')
     })
 
-    it('should return FAIL status for failing Phase 1 criteria', () => {
+    it('should return FAIL status for failing Phase 1 criteria', async () => {
       // Add expensive/slow query
-      persistentCostTracker.trackQuery('pro', 60000) // Fails time criteria
+      await costTracker.trackQuery('pro', 60000) // Fails time criteria
       
-      const summary = persistentCostTracker.getSummary()
+      const summary = await costTracker.getSummary()
       expect(summary.phase1Status).toBe('FAIL')
     })
   })
 
   describe('exportCostData()', () => {
-    it('should export all cost data', () => {
-      persistentCostTracker.trackQuery('basic', 1000)
-      persistentCostTracker.trackQuery('pro', 2000)
+    it('should export all cost data', async () => {
+      await costTracker.trackQuery('basic', 1000)
+      await costTracker.trackQuery('pro', 2000)
       
-      const exportedData = persistentCostTracker.exportCostData()
+      const exportedData = await costTracker.exportCostData()
       
       expect(exportedData).toHaveLength(2)
       expect(exportedData[0].tier).toBe('basic')
@@ -0,0 +1,87 @@
+import { getEmbeddingBackend, localEmbeddingBackend, embedLocally } from '@/lib/ai/embedding-backends'
+import { computeSimilarityMatrix, cosineSimilarity } from '@/lib/ai/embeddings'
+import { embeddingCache } from '@/lib/ai/embedding-cache'
+
+const mockConsoleError = jest.spyOn(console, 'error').mockImplementation()
+const mockConsoleWarn = jest.spyOn(console, 'warn').mockImplementation()
+
+describe('Embedding backends', () => {
+  const originalKey = process.env.OPENAI_API_KEY
+  const originalBackend = process.env.EMBEDDING_BACKEND
+
+  afterEach(() => {
+    process.env.OPENAI_API_KEY = originalKey
+    if (originalBackend === undefined) {
+      delete process.env.EMBEDDING_BACKEND
+    } else {
+      process.env.EMBEDDING_BACKEND = originalBackend
+    }
+  })
+
+  afterAll(() => {
+    mockConsoleError.mockRestore()
+    mockConsoleWarn.mockRestore()
+  })
+
+  describe('local backend', () => {
+    it('should produce deterministic unit vectors without any network access', async () => {
+      const fetchMock = jest.fn()
+      global.fetch = fetchMock
+
+      const [a, b] = await localEmbeddingBackend.embed(['Paris is the capital of France', 'Paris is the capital of France'])
+
+      expect(a).toEqual(b)
+      expect(Math.hypot(...a)).toBeCloseTo(1)
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('should score paraphrases above unrelated text', () => {
+      const base = embedLocally('Paris is the capital city of France.')
+      const paraphrase = embedLocally('France has Paris as its capital city.')
+      const unrelated = embedLocally('Python is great for data science.')
+
+      expect(cosineSimilarity(base, paraphrase)).toBeGreaterThan(0.7)
+      expect(cosineSimilarity(base, unrelated)).toBeLessThan(0.2)
+    })
+  })
+
+  describe('getEmbeddingBackend()', () => {
+    it.each([
+      ['openai', 'key', 'openai'],
+      ['local', 'key', 'local'],
+      ['auto', 'key', 'openai'],
+      ['auto', '', 'local'],
+      ['bogus', '', 'local']
+    ])('should resolve %s with key "%s" to %s', (setting, key, expected) => {
+      process.env.OPENAI_API_KEY = key
+      expect(getEmbeddingBackend(setting).id).toBe(expected)
+    })
+  })
+
+  describe('computeSimilarityMatrix()', () => {
+    beforeEach(() => {
+      embeddingCache.clear()
+    })
+
+    it('should fall back to local embeddings and say so when OpenAI fails', async () => {
+      process.env.EMBEDDING_BACKEND = 'openai'
+      global.fetch = jest.fn(async () => ({ ok: false, status: 503 })) as unknown as typeof fetch
+
+      const { scores, backend } = await computeSimilarityMatrix(['cats purr softly', 'cats purr loudly', 'stock markets fell'])
+
+      expect(backend).toBe('local')
+      expect(scores[0][1]).toBeGreaterThan(scores[0][2])
+    })
+
+    it('should use the local backend directly when configured', async () => {
+      process.env.EMBEDDING_BACKEND = 'local'
+      const fetchMock = jest.fn()
+      global.fetch = fetchMock
+
+      const { backend } = await computeSimilarityMatrix(['one text', 'another text'])
+
+      expect(backend).toBe('local')
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,150 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { EmbeddingCache, FileEmbeddingCacheBackend, embeddingCache } from '@/lib/ai/embedding-cache'
+import { calculateSemanticSimilarity, computeSimilarityMatrix, cosineSimilarity, getEmbeddings } from '@/lib/ai/embeddings'
+
+const mockConsoleLog = jest.spyOn(console, 'log').mockImplementation()
+const mockConsoleError = jest.spyOn(console, 'error').mockImplementation()
+
+describe('EmbeddingCache', () => {
+  afterAll(() => {
+    mockConsoleLog.mockRestore()
+    mockConsoleError.mockRestore()
+  })
+
+  it('should compute once per model and text and count hits and misses', async () => {
+    const cache = new EmbeddingCache(10)
+    const compute = jest.fn(async () => [1, 2, 3])
+
+    await cache.getOrCompute('small', 'hello', compute)
+    await cache.getOrCompute('small', 'hello', compute)
+    await cache.getOrCompute('large', 'hello', compute)
+
+    expect(compute).toHaveBeenCalledTimes(2)
+    expect(cache.getStats()).toEqual(expect.objectContaining({ hits: 1, misses: 2, size: 2, backend: 'memory' }))
+    expect(cache.getStats().hitRate).toBeCloseTo(1 / 3)
+  })
+
+  it('should share one computation between concurrent requests', async () => {
+    const cache = new EmbeddingCache(10)
+    const compute = jest.fn(async () => [1])
+
+    await Promise.all([1, 2, 3].map(() => cache.getOrCompute('small', 'same text', compute)))
+
+    expect(compute).toHaveBeenCalledTimes(1)
+  })
+
+  it('should recompute for waiters when the request computing a shared text is cancelled', async () => {
+    const cache = new EmbeddingCache(10)
+    const cancelled = new AbortController()
+    const first = cache.getOrComputeMany('m', ['shared'], async () => {
+      cancelled.abort()
+      throw new Error('aborted')
+    }, cancelled.signal)
+    const second = cache.getOrComputeMany('m', ['shared'], async () => [[7]], new AbortController().signal)
+
+    await expect(first).rejects.toThrow('aborted')
+    await expect(second).resolves.toEqual([[7]])
+  })
+
+  it('should evict the least recently used entry', async () => {
+    const cache = new EmbeddingCache(2)
+    const compute = jest.fn(async () => [1])
+
+    await cache.getOrCompute('m', 'a', compute)
+    await cache.getOrCompute('m', 'b', compute)
+    await cache.getOrCompute('m', 'a', compute) // Refresh "a"
+    await cache.getOrCompute('m', 'c', compute) // Evicts "b"
+    await cache.getOrCompute('m', 'a', compute)
+    await cache.getOrCompute('m', 'b', compute)
+
+    expect(compute).toHaveBeenCalledTimes(4)
+  })
+
+  it('should not cache failures', async () => {
+    const cache = new EmbeddingCache(10)
+    const compute = jest.fn()
+      .mockRejectedValueOnce(new Error('rate limited'))
+      .mockResolvedValueOnce([1])
+
+    await expect(cache.getOrCompute('m', 'x', compute)).rejects.toThrow('rate limited')
+    await expect(cache.getOrCompute('m', 'x', compute)).resolves.toEqual([1])
+  })
+
+  it('should persist embeddings through the file backend', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'embedding-cache-'))
+    const file = join(dir, 'cache.jsonl')
+
+    try {
+      await new EmbeddingCache(10, new FileEmbeddingCacheBackend(file)).getOrCompute('m', 'x', async () => [0.5])
+
+      const restarted = new EmbeddingCache(10, new FileEmbeddingCacheBackend(file))
+      const compute = jest.fn(async () => [0])
+
+      await expect(restarted.getOrCompute('m', 'x', compute)).resolves.toEqual([0.5])
+      expect(compute).not.toHaveBeenCalled()
+      expect(restarted.getStats()).toEqual(expect.objectContaining({ hits: 1, diskHits: 1, backend: 'file' }))
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should stop calculateSemanticSimilarity from re-embedding the same response', async () => {
+    embeddingCache.clear()
+    const fetchMock = mockEmbeddingsApi()
+
+    await calculateSemanticSimilarity(['first', 'second'])
+    await calculateSemanticSimilarity(['first', 'third'])
+    await calculateSemanticSimilarity(['second', 'third'])
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(embeddingCache.getStats()).toEqual(expect.objectContaining({ hits: 3, misses: 3 }))
+  })
+})
+
+describe('Batched embeddings', () => {
+  beforeEach(() => {
+    embeddingCache.clear()
+  })
+
+  it('should embed every uncached text in one request, preserving order', async () => {
+    const fetchMock = mockEmbeddingsApi()
+
+    const embeddings = await getEmbeddings(['a', 'bb', 'a', 'ccc'])
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).input).toEqual(['a', 'bb', 'ccc'])
+    expect(embeddings).toEqual([[1, 1], [2, 1], [1, 1], [3, 1]])
+  })
+
+  it('should return the full pairwise cosine matrix from a single round trip', async () => {
+    const fetchMock = mockEmbeddingsApi()
+
+    const { scores: matrix, backend } = await computeSimilarityMatrix(['a', 'bb', 'ccc'])
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(backend).toBe('openai')
+    expect(matrix).toHaveLength(3)
+    matrix.forEach((row, i) => {
+      expect(row[i]).toBe(1)
+      row.forEach((score, j) => expect(score).toBeCloseTo(matrix[j][i]))
+    })
+    expect(matrix[0][1]).toBeCloseTo(cosineSimilarity([1, 1], [2, 1]))
+  })
+})
+
+// Fake embeddings endpoint: [text length, 1] per input, returned out of order like the real API may
+function mockEmbeddingsApi() {
+  const fetchMock = jest.fn(async (_url: string, init: { body: string }) => {
+    const { input } = JSON.parse(init.body) as { input: string[] }
+    return {
+      ok: true,
+      json: async () => ({
+        data: input.map((text, index) => ({ index, embedding: [text.length, 1] })).reverse()
+      })
+    }
+  })
+  global.fetch = fetchMock as unknown as typeof fetch
+  return fetchMock
+}
@@ -0,0 +1,70 @@
+import { flagSuspiciousClaims } from '@/lib/ai/fact-check'
+import { markSpans } from '@/lib/markdown-utils'
+import type { ModelResponse } from '@/types/ai'
+
+const response = (model: string, content: string): ModelResponse => ({
+  model,
+  content,
+  responseTime: 1000
+})
+
+describe('Fact check', () => {
+  describe('flagSuspiciousClaims()', () => {
+    it('should flag numbers, dates and names only one model mentions', () => {
+      const flags = flagSuspiciousClaims([
+        response('gemini', 'The Eiffel Tower was completed on March 31, 1889 and is 330 metres tall. It was designed by Gustave Eiffel.'),
+        response('openai', 'Completed in 1889, the tower stands 330 metres tall. Stephen Sauvestre refined the design.'),
+        response('claude', 'Finished in 1889, it welcomed 2 million visitors in its first year at the Exposition Universelle.')
+      ])
+
+      expect(flags.map(f => [f.model, f.kind, f.text])).toEqual([
+        ['gemini', 'name', 'Gustave Eiffel'],
+        ['openai', 'name', 'Stephen Sauvestre'],
+        ['claude', 'number', '2 million'],
+        ['claude', 'name', 'Exposition Universelle']
+      ])
+    })
+
+    it('should record offsets into the original response content', () => {
+      const content = 'Revenue reached $4.2 billion in 2023.'
+      const [revenue, year] = flagSuspiciousClaims([
+        response('gemini', content),
+        response('openai', 'Revenue grew strongly last year.')
+      ])
+
+      expect(content.slice(revenue.start, revenue.end)).toBe('$4.2 billion')
+      expect(content.slice(year.start, year.end)).toBe('2023')
+      expect(year.kind).toBe('date')
+    })
+
+    it('should ignore code, link targets, list markers and sentence capitalisation', () => {
+      const flags = flagSuspiciousClaims([
+        response('gemini', [
+          '## Setup for 2024',
+          '12. Install the package with `npm install foo@3.14.15`.',
+          'Read [the docs](https://example.com/v2025/guide) before starting.',
+          'Afterwards restart the server.'
+        ].join('\n')),
+        response('openai', 'Install the package and restart.')
+      ])
+
+      expect(flags).toEqual([])
+    })
+
+    it('should not flag anything for a single response', () => {
+      expect(flagSuspiciousClaims([response('gemini', 'Founded in 1998 by Larry Page.')])).toEqual([])
+    })
+  })
+
+  describe('markSpans()', () => {
+    it('should wrap spans in links without disturbing the rest of the markdown', () => {
+      const content = 'Built in **1889** by Gustave Eiffel.'
+      const marked = markSpans(content, [
+        { start: 21, end: 35 },
+        { start: 11, end: 15 }
+      ], '#unverified')
+
+      expect(marked).toBe('Built in **[1889](#unverified)** by [Gustave Eiffel](#unverified).')
+    })
+  })
+})
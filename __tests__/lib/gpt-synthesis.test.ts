@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+import { createGPT4Synthesis } from '@/lib/ai/gpt-synthesis'
+import { QueryCancelledError } from '@/lib/ai/cancellation'
+import type { ModelResponse } from '@/types/ai'
+
+const mockConsoleError = jest.spyOn(console, 'error').mockImplementation()
+
+const responses: ModelResponse[] = [
+  { model: 'gemini', content: 'Paris is the capital of France.', responseTime: 900 },
+  { model: 'claude', content: 'The capital of France is Paris.', responseTime: 600 }
+]
+const alignment = { semantic: 0.9, surface: 0.6, overallAlignment: 'high' }
+
+// An OpenAI-style event stream, cut at arbitrary points to mimic network chunking
+function streamingResponse(deltas: string[], chunkSize: number, usage?: { prompt_tokens: number; completion_tokens: number }) {
+  const events = deltas.map(delta =>
+    `data: ${JSON.stringify({ choices: [{ delta: { content: delta } }] })}\n\n`
+  ).join('') + (usage ? `data: ${JSON.stringify({ choices: [], usage })}\n\n` : '') + 'data: [DONE]\n\n'
+  const chunks: string[] = []
+  for (let i = 0; i < events.length; i += chunkSize) {
+    chunks.push(events.slice(i, i + chunkSize))
+  }
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)))
+      controller.close()
+    }
+  })
+  return new Response(body, { status: 200 })
+}
+
+describe('GPT synthesis', () => {
+  afterAll(() => {
+    mockConsoleError.mockRestore()
+  })
+
+  it('should stream deltas in order and return the full text', async () => {
+    global.fetch = jest.fn(async () => streamingResponse(['Both models', ' agree:\n\n', '**Paris**.'], 7)) as unknown as typeof fetch
+    const onToken = jest.fn()
+
+    const result = await createGPT4Synthesis(responses, alignment, { onToken })
+
+    expect(result).toEqual({ content: 'Both models agree:\n\n**Paris**.' })
+    expect(onToken.mock.calls.map(([delta]) => delta)).toEqual(['Both models', ' agree:\n\n', '**Paris**.'])
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0]
+    expect(JSON.parse(init.body).stream).toBe(true)
+  })
+
+  it('should report token usage from the final stream chunk', async () => {
+    global.fetch = jest.fn(async () => streamingResponse(['Paris.'], 11, { prompt_tokens: 420, completion_tokens: 12 })) as unknown as typeof fetch
+
+    const result = await createGPT4Synthesis(responses, alignment, { onToken: jest.fn() })
+
+    expect(result.usage).toEqual({ model: 'gpt-4o-mini', inputTokens: 420, outputTokens: 12 })
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0]
+    expect(JSON.parse(init.body).stream_options).toEqual({ include_usage: true })
+  })
+
+  it('should retry a server error before anything streamed', async () => {
+    global.fetch = jest.fn()
+      .mockResolvedValueOnce(new Response('overloaded', { status: 503 }))
+      .mockResolvedValueOnce(streamingResponse(['Paris.'], 11)) as unknown as typeof fetch
+    const mockConsoleWarn = jest.spyOn(console, 'warn').mockImplementation()
+
+    const result = await createGPT4Synthesis(responses, alignment, { onToken: jest.fn() })
+    mockConsoleWarn.mockRestore()
+
+    expect(result).toEqual({ content: 'Paris.' })
+    expect(global.fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should fall back to excerpts when the stream is empty', async () => {
+    global.fetch = jest.fn(async () => streamingResponse([], 5)) as unknown as typeof fetch
+
+    const result = await createGPT4Synthesis(responses, alignment, { onToken: jest.fn() })
+
+    expect(result.error).toMatch('no content')
+    expect(result.content).toContain('Perspective')
+  })
+
+  it('should throw on cancellation instead of falling back to excerpts', async () => {
+    const abortController = new AbortController()
+    global.fetch = jest.fn(async () => {
+      abortController.abort()
+      throw new DOMException('This operation was aborted', 'AbortError')
+    }) as unknown as typeof fetch
+
+    await expect(createGPT4Synthesis(responses, alignment, { signal: abortController.signal }))
+      .rejects.toBeInstanceOf(QueryCancelledError)
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0]
+    expect(init.signal.aborted).toBe(true)
+  })
+})
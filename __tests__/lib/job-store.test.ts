@@ -0,0 +1,149 @@
+import { JobStore, type JobEvent, type JobSubscriber } from '@/lib/job-store'
+
+const mockConsoleLog = jest.spyOn(console, 'log').mockImplementation()
+
+const recorder = () => {
+  const events: JobEvent[] = []
+  const finished: string[] = []
+  const subscriber: JobSubscriber = {
+    onEvent: event => events.push(event),
+    onFinish: status => finished.push(status)
+  }
+  return { events, finished, subscriber }
+}
+
+describe('Job Store', () => {
+  let store: JobStore
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    store = new JobStore(60 * 1000, 5000)
+  })
+
+  afterEach(() => {
+    store.destroy()
+    jest.useRealTimers()
+  })
+
+  afterAll(() => {
+    mockConsoleLog.mockRestore()
+  })
+
+  it('should number events and replay only those after the given id', () => {
+    const job = store.create('What is the capital of France?', 'user-1')
+    store.append(job.id, { type: 'started' })
+    store.append(job.id, { type: 'model_delta', delta: 'Paris' })
+    store.append(job.id, { type: 'model_complete' })
+
+    const full = recorder()
+    const late = recorder()
+    store.subscribe(job.id, 0, full.subscriber)
+    store.subscribe(job.id, 2, late.subscriber)
+
+    expect(full.events.map(event => event.id)).toEqual([1, 2, 3])
+    expect(late.events).toEqual([{ id: 3, data: { type: 'model_complete' } }])
+  })
+
+  it('should only return a job to the user who started it', () => {
+    const job = store.create('private prompt', 'user-1')
+
+    expect(job.id).toMatch(/^job_[0-9a-f-]{36}$/)
+    expect(store.get(job.id, 'user-1')?.prompt).toBe('private prompt')
+    expect(store.get(job.id, 'user-2')).toBeNull()
+  })
+
+  it('should follow a running job live and stop at its end', () => {
+    const job = store.create('prompt', 'user-1')
+    const { events, finished, subscriber } = recorder()
+    store.subscribe(job.id, 0, subscriber)
+
+    store.append(job.id, { type: 'started' })
+    store.finish(job.id, 'complete')
+    store.append(job.id, { type: 'ignored' })
+
+    expect(events).toHaveLength(1)
+    expect(finished).toEqual(['complete'])
+    expect(store.get(job.id)?.status).toBe('complete')
+  })
+
+  it('should replay a finished job in full and finish immediately', () => {
+    const job = store.create('prompt', 'user-1')
+    store.append(job.id, { type: 'synthesis_complete' })
+    store.finish(job.id, 'complete')
+
+    const { events, finished, subscriber } = recorder()
+    store.subscribe(job.id, 0, subscriber)
+
+    expect(events).toHaveLength(1)
+    expect(finished).toEqual(['complete'])
+  })
+
+  it('should abort an abandoned job only after the reattach grace period', () => {
+    const job = store.create('prompt', 'user-1')
+    const unsubscribe = store.subscribe(job.id, 0, recorder().subscriber)!
+
+    unsubscribe()
+    jest.advanceTimersByTime(4000)
+    expect(job.signal.aborted).toBe(false)
+
+    // A reload reattaches in time
+    const unsubscribeAgain = store.subscribe(job.id, 0, recorder().subscriber)!
+    jest.advanceTimersByTime(10000)
+    expect(job.signal.aborted).toBe(false)
+
+    unsubscribeAgain()
+    jest.advanceTimersByTime(5000)
+    expect(job.signal.aborted).toBe(true)
+  })
+
+  it('should cancel only running jobs', () => {
+    const job = store.create('prompt', 'user-1')
+
+    expect(store.cancel(job.id)).toBe(true)
+    expect(job.signal.aborted).toBe(true)
+
+    store.finish(job.id, 'cancelled')
+    expect(store.cancel(job.id)).toBe(false)
+    expect(store.cancel('job_unknown')).toBe(false)
+  })
+
+  it('should keep numbering after discarded events and replay what superseded them', () => {
+    const job = store.create('prompt', 'user-1')
+    store.append(job.id, { type: 'model_delta', model: 'claude', delta: 'Par' })
+    store.append(job.id, { type: 'model_delta', model: 'gemini', delta: 'It is' })
+    store.append(job.id, { type: 'model_delta', model: 'claude', delta: 'is' })
+    store.append(job.id, { type: 'model_complete', model: 'claude', content: 'Paris' })
+    store.discard(job.id, event => event.data.type === 'model_delta' && event.data.model === 'claude')
+    store.append(job.id, { type: 'model_delta', model: 'gemini', delta: ' Paris' })
+
+    const { events, subscriber } = recorder()
+    store.subscribe(job.id, 0, subscriber)
+
+    expect(events.map(event => event.id)).toEqual([2, 4, 5])
+    expect(events[1].data).toEqual({ type: 'model_complete', model: 'claude', content: 'Paris' })
+  })
+
+  it('should cancel and close a job still running past the running limit', () => {
+    const stuck = new JobStore(60 * 1000, 5000, 2 * 60 * 1000)
+    const job = stuck.create('prompt', 'user-1')
+    const { finished, subscriber } = recorder()
+    stuck.subscribe(job.id, 0, subscriber)
+
+    jest.advanceTimersByTime(5 * 60 * 1000)
+
+    expect(job.signal.aborted).toBe(true)
+    expect(finished).toEqual(['cancelled'])
+    expect(stuck.get(job.id)?.status).toBe('cancelled')
+    stuck.destroy()
+  })
+
+  it('should expire finished jobs after their TTL', () => {
+    const job = store.create('prompt', 'user-1')
+    store.finish(job.id, 'failed')
+
+    jest.advanceTimersByTime(61 * 1000)
+
+    expect(store.get(job.id)).toBeNull()
+    expect(store.subscribe(job.id, 0, recorder().subscriber)).toBeNull()
+  })
+})
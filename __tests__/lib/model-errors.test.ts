@@ -0,0 +1,56 @@
+import { ModelCallError, toModelCallError, partitionModelResults, describeModelFailure } from '@/lib/ai/model-errors'
+import type { ModelResult } from '@/types/ai'
+
+describe('Model errors', () => {
+  describe('toModelCallError()', () => {
+    it.each([
+      [429, 'rate_limited', true],
+      [401, 'auth', false],
+      [403, 'auth', false],
+      [400, 'bad_request', false],
+      [503, 'server_error', true]
+    ])('should classify HTTP %i as %s', (status, code, retryable) => {
+      const error = toModelCallError(Object.assign(new Error('Request failed'), { status }), 'openai')
+
+      expect(error.code).toBe(code)
+      expect(error.retryable).toBe(retryable)
+      expect(error.httpStatus).toBe(status)
+      expect(error.message).toBe('openai API call failed: Request failed')
+    })
+
+    it('should recognise network failures without a status', () => {
+      expect(toModelCallError(new TypeError('fetch failed'), 'gemini').code).toBe('network')
+      expect(toModelCallError(new Error('Something odd'), 'gemini').code).toBe('unknown')
+    })
+
+    it('should keep the code of an existing ModelCallError', () => {
+      const error = toModelCallError(new ModelCallError('Timed out after 40000ms', 'timeout'), 'claude')
+
+      expect(error.code).toBe('timeout')
+      expect(error.message).toBe('claude timed out after 40000ms')
+    })
+  })
+
+  describe('partitionModelResults()', () => {
+    it('should split answers from failures and drop the ok flag', () => {
+      const results: ModelResult[] = [
+        { ok: true, model: 'claude', content: 'Answer', responseTime: 1200 },
+        { ok: false, model: 'openai', provider: 'openai', code: 'rate_limited', message: 'openai API call failed: 429', retryable: true, httpStatus: 429, responseTime: 300 }
+      ]
+
+      const { responses, failures } = partitionModelResults(results)
+
+      expect(responses).toEqual([{ model: 'claude', label: undefined, content: 'Answer', responseTime: 1200 }])
+      expect(failures).toHaveLength(1)
+      expect(failures[0]).not.toHaveProperty('ok')
+      expect(failures[0].code).toBe('rate_limited')
+    })
+  })
+
+  describe('describeModelFailure()', () => {
+    it('should tell the user what to do about the failure', () => {
+      expect(describeModelFailure({ code: 'auth', message: '' }, 'Claude')).toMatch(/API key/)
+      expect(describeModelFailure({ code: 'unknown', message: 'boom' }, 'Gemini')).toBe('Gemini failed: boom')
+    })
+  })
+})
@@ -0,0 +1,235 @@
+import {
+  providerRegistry,
+  callModel,
+  getModelDisplayName,
+  resolveModelPanel,
+  ModelSelectionError,
+  type ResolvedModel
+} from '@/lib/ai/providers'
+import { QueryCancelledError } from '@/lib/ai/cancellation'
+import { circuitBreakers } from '@/lib/ai/resilience'
+import type { ModelProvider } from '@/types/ai'
+
+const mockProvider: ModelProvider = {
+  id: 'mock-llm',
+  displayName: 'Mock LLM',
+  color: '#000000',
+  estimatedCost: 0.005,
+  capabilities: { images: false, documents: false },
+  models: [{ id: 'mock-1', label: 'Mock 1' }, { id: 'mock-2', label: 'Mock 2', estimatedCost: 0.01 }],
+  defaultModel: 'mock-1',
+  generate: jest.fn(async ({ prompt, model }) => ({
+    content: `${model}: ${prompt}`,
+    usage: { model, inputTokens: prompt.length, outputTokens: 3 }
+  }))
+}
+
+describe('Provider Registry', () => {
+  beforeAll(() => {
+    providerRegistry.register(mockProvider)
+  })
+
+  afterAll(() => {
+    providerRegistry['providers'].delete(mockProvider.id)
+  })
+
+  it('should register the built-in providers', () => {
+    expect(providerRegistry.ids()).toEqual(expect.arrayContaining(['gemini', 'openai', 'claude']))
+  })
+
+  it('should reject duplicate provider ids', () => {
+    expect(() => providerRegistry.register(mockProvider)).toThrow('already registered')
+  })
+
+  it('should resolve display names with a fallback to the raw id', () => {
+    expect(getModelDisplayName('mock-llm')).toBe('Mock LLM')
+    expect(getModelDisplayName('mock-llm:mock-2')).toBe('Mock 2')
+    expect(getModelDisplayName('unknown-model')).toBe('unknown-model')
+  })
+
+  it('should report missing API keys only for providers that need them', () => {
+    const original = process.env.ANTHROPIC_API_KEY
+    delete process.env.ANTHROPIC_API_KEY
+
+    expect(providerRegistry.getMissingApiKeys(['claude', 'mock-llm'])).toEqual(['ANTHROPIC_API_KEY'])
+
+    process.env.ANTHROPIC_API_KEY = original
+  })
+
+  it('should count image tokens by each provider\'s own rule', () => {
+    const imageTokens = (id: string, width: number, height: number) =>
+      providerRegistry.get(id)!.imageTokens!({ width, height })
+
+    expect(imageTokens('openai', 1024, 1024)).toBe(765) // 768x768: 4 tiles
+    expect(imageTokens('claude', 1000, 1000)).toBe(1334)
+    expect(imageTokens('claude', 4000, 4000)).toBe(3279) // Scaled to 1568x1568
+    expect(imageTokens('gemini', 300, 300)).toBe(258)
+    expect(imageTokens('gemini', 1600, 900)).toBe(1548) // 3x2 tiles
+  })
+
+  describe('resolveModelPanel()', () => {
+    it('should default to every provider with its default model', () => {
+      const panel = resolveModelPanel()
+
+      expect(panel.map(m => m.key)).toEqual(providerRegistry.ids())
+      expect(panel.find(m => m.key === 'claude')?.model).toBe('claude-sonnet-4-20250514')
+    })
+
+    it('should key repeated providers by model and apply per-model costs', () => {
+      const panel = resolveModelPanel([
+        { provider: 'mock-llm', model: 'mock-1', temperature: 0.2 },
+        { provider: 'mock-llm', model: 'mock-2', maxTokens: 500 },
+        { provider: 'openai', model: 'gpt-4o' }
+      ])
+
+      expect(panel.map(m => m.key)).toEqual(['mock-llm:mock-1', 'mock-llm:mock-2', 'openai'])
+      expect(panel[0].estimatedCost).toBe(0.005)
+      expect(panel[1].estimatedCost).toBe(0.01)
+      expect(panel[0].temperature).toBe(0.2)
+      expect(panel[1].maxTokens).toBe(500)
+    })
+
+    it.each([
+      ['a non-array value', 'gpt-4o', 'must be an array'],
+      ['fewer than two models', [{ provider: 'openai', model: 'gpt-4o' }], 'At least 2 models'],
+      ['unknown providers', [{ provider: 'nope', model: 'x' }, { provider: 'openai', model: 'gpt-4o' }], 'Unknown model provider'],
+      ['unknown models', [{ provider: 'openai', model: 'gpt-0' }, { provider: 'claude', model: 'claude-sonnet-4-20250514' }], 'Unknown model for openai'],
+      ['duplicates', [{ provider: 'openai', model: 'gpt-4o' }, { provider: 'openai', model: 'gpt-4o' }], 'Duplicate model selection'],
+      ['out of range temperatures', [{ provider: 'openai', model: 'gpt-4o', temperature: 5 }, { provider: 'claude', model: 'claude-sonnet-4-20250514' }], 'Invalid temperature']
+    ])('should reject %s', (_label, selections, message) => {
+      expect(() => resolveModelPanel(selections)).toThrow(ModelSelectionError)
+      expect(() => resolveModelPanel(selections)).toThrow(message)
+    })
+  })
+
+  describe('callModel()', () => {
+    let mockTarget: ResolvedModel
+
+    beforeEach(() => {
+      circuitBreakers.reset()
+    })
+
+    beforeAll(() => {
+      [mockTarget] = resolveModelPanel([
+        { provider: 'mock-llm', model: 'mock-2', temperature: 0.5 },
+        { provider: 'openai', model: 'gpt-4o' }
+      ])
+    })
+
+    it('should call the provider with the selected model and parameters', async () => {
+      const response = await callModel(mockTarget, 'hello')
+
+      expect(response).toMatchObject({
+        ok: true,
+        model: 'mock-llm',
+        label: 'Mock 2',
+        content: 'mock-2: hello',
+        usage: { model: 'mock-2', inputTokens: 5, outputTokens: 3 }
+      })
+      expect(response.responseTime).toBeGreaterThanOrEqual(0)
+      expect(mockProvider.generate).toHaveBeenLastCalledWith(
+        expect.objectContaining({ model: 'mock-2', temperature: 0.5 })
+      )
+    })
+
+    it('should drop attachments the provider cannot handle', async () => {
+      await callModel(mockTarget, 'describe', [
+        { type: 'image', mimeType: 'image/png', base64: 'abc', filename: 'a.png' }
+      ])
+
+      expect(mockProvider.generate).toHaveBeenLastCalledWith(
+        expect.objectContaining({ attachments: [] })
+      )
+    })
+
+    it('should report an aborted call as a cancellation rather than a provider failure', async () => {
+      const abortController = new AbortController()
+      let providerSignal: AbortSignal | undefined
+      ;(mockProvider.generate as jest.Mock).mockImplementationOnce(async ({ signal }) => {
+        providerSignal = signal
+        abortController.abort()
+        throw new Error('Request was aborted.')
+      })
+
+      await expect(callModel(mockTarget, 'hello', undefined, { signal: abortController.signal }))
+        .rejects.toBeInstanceOf(QueryCancelledError)
+      expect(providerSignal?.aborted).toBe(true)
+    })
+
+    it('should return provider errors as structured failures', async () => {
+      ;(mockProvider.generate as jest.Mock).mockRejectedValueOnce(
+        Object.assign(new Error('Invalid API key'), { status: 401 })
+      )
+
+      const result = await callModel(mockTarget, 'hello')
+
+      expect(result).toMatchObject({
+        ok: false,
+        model: 'mock-llm',
+        provider: 'mock-llm',
+        code: 'auth',
+        retryable: false,
+        httpStatus: 401,
+        message: 'mock-llm API call failed: Invalid API key'
+      })
+    })
+
+    it('should skip a provider whose circuit opened after repeated failures', async () => {
+      const generate = mockProvider.generate as jest.Mock
+      generate.mockClear()
+      for (let i = 0; i < 3; i++) {
+        generate.mockRejectedValueOnce(new Error('fetch failed'))
+        expect(await callModel(mockTarget, 'hello')).toMatchObject({ ok: false, code: 'network' })
+      }
+
+      const skipped = await callModel(mockTarget, 'hello')
+
+      expect(skipped).toMatchObject({ ok: false, code: 'circuit_open', retryable: true })
+      expect(generate).toHaveBeenCalledTimes(3)
+    })
+
+    it('should not let failures the caller caused open the circuit', async () => {
+      const generate = mockProvider.generate as jest.Mock
+      for (let i = 0; i < 3; i++) {
+        generate.mockRejectedValueOnce(Object.assign(new Error('Prompt too long'), { status: 400 }))
+        expect(await callModel(mockTarget, 'hello')).toMatchObject({ ok: false, code: 'bad_request' })
+      }
+
+      expect(await callModel(mockTarget, 'hello')).toMatchObject({ ok: true })
+    })
+
+    it('should give the trial to the next call when a half-open trial is cancelled', async () => {
+      const generate = mockProvider.generate as jest.Mock
+      for (let i = 0; i < 3; i++) {
+        generate.mockRejectedValueOnce(new Error('fetch failed'))
+        await callModel(mockTarget, 'hello')
+      }
+      const mockNow = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60 * 1000)
+
+      const abortController = new AbortController()
+      generate.mockImplementationOnce(async () => {
+        abortController.abort()
+        throw new Error('Request was aborted.')
+      })
+      await expect(callModel(mockTarget, 'hello', undefined, { signal: abortController.signal }))
+        .rejects.toBeInstanceOf(QueryCancelledError)
+      const next = await callModel(mockTarget, 'hello')
+      mockNow.mockRestore()
+
+      expect(next).toMatchObject({ ok: true })
+    })
+
+    it('should forward a token callback so providers can stream', async () => {
+      const onToken = jest.fn()
+      ;(mockProvider.generate as jest.Mock).mockImplementationOnce(async ({ onToken: forward }) => {
+        forward('mock-2: ')
+        forward('stream me')
+        return { content: 'mock-2: stream me' }
+      })
+
+      await callModel(mockTarget, 'stream me', undefined, { onToken })
+
+      expect(onToken.mock.calls).toEqual([['mock-2: '], ['stream me']])
+    })
+  })
+})
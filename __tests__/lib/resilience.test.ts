@@ -0,0 +1,192 @@
+import { withResilience, CircuitBreaker, resolveResiliencePolicy, type ResiliencePolicy } from '@/lib/ai/resilience'
+import { ModelCallError } from '@/lib/ai/model-errors'
+import { QueryCancelledError } from '@/lib/ai/cancellation'
+
+const mockConsoleWarn = jest.spyOn(console, 'warn').mockImplementation()
+
+const policy: ResiliencePolicy = { timeoutMs: 1000, totalTimeoutMs: 5000, maxRetries: 2, baseDelayMs: 1 }
+
+const apiError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status })
+
+describe('Resilience', () => {
+  afterAll(() => {
+    mockConsoleWarn.mockRestore()
+  })
+
+  describe('withResilience()', () => {
+    it.each([429, 500, 503])('should retry a %s and return the eventual result', async status => {
+      const operation = jest.fn()
+        .mockRejectedValueOnce(apiError(status))
+        .mockResolvedValueOnce('ok')
+
+      await expect(withResilience(operation, policy)).resolves.toBe('ok')
+      expect(operation).toHaveBeenCalledTimes(2)
+    })
+
+    it('should give up after the retry limit', async () => {
+      const operation = jest.fn().mockRejectedValue(apiError(503))
+
+      await expect(withResilience(operation, policy)).rejects.toThrow('HTTP 503')
+      expect(operation).toHaveBeenCalledTimes(3)
+    })
+
+    it.each([
+      ['client errors', apiError(400)],
+      ['errors without a status', new Error('socket hang up')]
+    ])('should not retry %s', async (_label, error) => {
+      const operation = jest.fn().mockRejectedValue(error)
+
+      await expect(withResilience(operation, policy)).rejects.toBe(error)
+      expect(operation).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not retry when the caller vetoes it', async () => {
+      const operation = jest.fn().mockRejectedValue(apiError(500))
+
+      await expect(withResilience(operation, policy, { retryable: () => false })).rejects.toThrow('HTTP 500')
+      expect(operation).toHaveBeenCalledTimes(1)
+    })
+
+    it('should abort a slow attempt at the deadline and report a timeout', async () => {
+      let attemptSignal: AbortSignal | undefined
+      const operation = (signal: AbortSignal) => new Promise<string>((_, reject) => {
+        attemptSignal = signal
+        signal.addEventListener('abort', () => reject(new Error('aborted')))
+      })
+
+      const error = await withResilience(operation, { ...policy, timeoutMs: 20 }).catch(e => e)
+
+      expect(error).toBeInstanceOf(ModelCallError)
+      expect(error.code).toBe('timeout')
+      expect(attemptSignal?.aborted).toBe(true)
+    })
+
+    it('should only time out a streaming attempt when its output stalls', async () => {
+      jest.useFakeTimers()
+      const chunks: string[] = []
+      const operation = (signal: AbortSignal, progress: () => void) => new Promise<string>((resolve, reject) => {
+        signal.addEventListener('abort', () => reject(new Error('aborted')))
+        // A chunk every 600ms keeps going past the 1000ms deadline, then the stream goes quiet
+        const interval = setInterval(() => {
+          chunks.push('token')
+          progress()
+          if (chunks.length === 3) clearInterval(interval)
+        }, 600)
+      })
+
+      const result = withResilience(operation, policy).catch(e => e)
+      await jest.advanceTimersByTimeAsync(1800 + 999)
+      expect(chunks).toHaveLength(3)
+      await jest.advanceTimersByTimeAsync(1)
+      const error = await result
+      jest.useRealTimers()
+
+      expect(error).toBeInstanceOf(ModelCallError)
+      expect(error.message).toBe('Stream stalled for 1000ms')
+    })
+
+    it('should abort a stream that keeps trickling at the overall limit', async () => {
+      jest.useFakeTimers()
+      let attemptSignal: AbortSignal | undefined
+      const operation = (signal: AbortSignal, progress: () => void) => new Promise<string>((_, reject) => {
+        attemptSignal = signal
+        const interval = setInterval(progress, 500) // Never stalls
+        signal.addEventListener('abort', () => {
+          clearInterval(interval)
+          reject(new Error('aborted'))
+        })
+      })
+
+      const result = withResilience(operation, policy).catch(e => e)
+      await jest.advanceTimersByTimeAsync(4999)
+      expect(attemptSignal?.aborted).toBe(false)
+      await jest.advanceTimersByTimeAsync(1)
+      const error = await result
+      jest.useRealTimers()
+
+      expect(error).toBeInstanceOf(ModelCallError)
+      expect(error.message).toBe('Exceeded the 5000ms limit')
+      expect(attemptSignal?.aborted).toBe(true)
+    })
+
+    it('should report cancellation rather than retrying', async () => {
+      const abortController = new AbortController()
+      const operation = jest.fn(async () => {
+        abortController.abort()
+        throw apiError(503)
+      })
+
+      await expect(withResilience(operation, policy, { signal: abortController.signal }))
+        .rejects.toBeInstanceOf(QueryCancelledError)
+      expect(operation).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('CircuitBreaker', () => {
+    it('should open after consecutive failures and allow one trial after the cooldown', () => {
+      jest.useFakeTimers()
+      const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 })
+
+      breaker.recordFailure()
+      expect(breaker.allowRequest()).toBe(true)
+      breaker.recordFailure()
+      expect(breaker.getState()).toBe('open')
+      expect(breaker.allowRequest()).toBe(false)
+
+      jest.advanceTimersByTime(1000)
+      expect(breaker.allowRequest()).toBe(true)
+      expect(breaker.getState()).toBe('half_open')
+
+      // A failed trial reopens the circuit straight away
+      breaker.recordFailure()
+      expect(breaker.allowRequest()).toBe(false)
+
+      jest.advanceTimersByTime(1000)
+      breaker.allowRequest()
+      breaker.recordSuccess()
+      expect(breaker.getState()).toBe('closed')
+      jest.useRealTimers()
+    })
+
+    it('should hand a released trial to the next request', () => {
+      jest.useFakeTimers()
+      const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 })
+
+      breaker.recordFailure()
+      jest.advanceTimersByTime(1000)
+      expect(breaker.allowRequest()).toBe(true)
+      expect(breaker.allowRequest()).toBe(false)
+
+      breaker.releaseTrial()
+      expect(breaker.allowRequest()).toBe(true)
+      expect(breaker.getState()).toBe('half_open')
+      jest.useRealTimers()
+    })
+
+    it('should reset the failure count on success', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 })
+
+      breaker.recordFailure()
+      breaker.recordSuccess()
+      breaker.recordFailure()
+
+      expect(breaker.getState()).toBe('closed')
+    })
+  })
+
+  describe('resolveResiliencePolicy()', () => {
+    afterEach(() => {
+      delete process.env.MODEL_TIMEOUT_MS
+      delete process.env.CLAUDE_TIMEOUT_MS
+    })
+
+    it('should prefer the provider env override, then the provider default, then the global setting', () => {
+      process.env.MODEL_TIMEOUT_MS = '30000'
+      expect(resolveResiliencePolicy('openai').timeoutMs).toBe(30000)
+      expect(resolveResiliencePolicy('claude', 20000).timeoutMs).toBe(20000)
+
+      process.env.CLAUDE_TIMEOUT_MS = '15000'
+      expect(resolveResiliencePolicy('claude', 20000).timeoutMs).toBe(15000)
+    })
+  })
+})
@@ -0,0 +1,35 @@
+import { splitResultParts, joinResultParts } from '@/lib/result-parts'
+import type { ConsensusAnalysis } from '@/types/ai'
+
+const analysis = {
+  unifiedResponse: 'Paris is the capital of France.\n\n## Consensus Areas\n- "Quoted" text',
+  alignment: { semantic: 0.9, surface: 0.5 },
+  alignedPoints: [],
+  divergentSections: [],
+  originalResponses: [{ model: 'gemini', content: 'Paris.', responseTime: 900 }]
+} as unknown as ConsensusAnalysis
+
+describe('Result parts', () => {
+  it('should split an analysis into ordered parts that reassemble exactly', () => {
+    const parts = splitResultParts(analysis, 20)
+
+    expect(parts.length).toBeGreaterThan(1)
+    parts.forEach((part, i) => {
+      expect(part.index).toBe(i)
+      expect(part.total).toBe(parts.length)
+      expect(part.data.length).toBeLessThanOrEqual(20)
+    })
+    expect(joinResultParts([...parts].reverse())).toEqual(analysis)
+  })
+
+  it('should send small results as a single part', () => {
+    expect(splitResultParts(analysis)).toHaveLength(1)
+  })
+
+  it('should refuse to reassemble a result with missing parts', () => {
+    const parts = splitResultParts(analysis, 20)
+
+    expect(() => joinResultParts(parts.slice(1))).toThrow('Incomplete synthesis result')
+    expect(() => joinResultParts([])).toThrow('Incomplete synthesis result')
+  })
+})
@@ -1,4 +1,4 @@
-import { resultStorage } from '@/lib/result-storage'
+import { MemoryResultStore, createResultStore, resolveRetentionMs } from '@/lib/result-storage'
 import type { ConsensusAnalysis } from '@/types/ai'
 
 // Mock console methods to avoid noise in tests
@@ -11,9 +11,11 @@ const mockAnalysis: ConsensusAnalysis = {
   alignment: {
     semantic: 0.8,
     surface: 0.6,
-    gemini: 'high',
-    chatgpt: 'high',
-    claude: 'moderate',
+    models: { gemini: 'high', openai: 'high', claude: 'moderate' },
+    similarityMatrix: {
+      models: ['gemini', 'openai', 'claude'],
+      scores: [[1, 0.8, 0.7], [0.8, 1, 0.7], [0.7, 0.7, 1]]
+    },
     overallAlignment: 'high',
     description: 'Test alignment description',
     methodology: 'semantic-similarity-v2',
@@ -31,6 +33,10 @@ const mockAnalysis: ConsensusAnalysis = {
 }
 
 describe('Result Storage', () => {
+  const resultStorage = new MemoryResultStore()
+  // 0.06 seconds, so results expire within a test
+  const shortLived = new MemoryResultStore(60)
+
   beforeEach(() => {
     // Clear storage before each test
     resultStorage['storage'].clear()
@@ -41,13 +47,14 @@ describe('Result Storage', () => {
   afterAll(() => {
     // Cleanup
     resultStorage.destroy()
+    shortLived.destroy()
     mockConsoleLog.mockRestore()
     mockConsoleError.mockRestore()
   })
 
   describe('store()', () => {
-    it('should store a result and return an ID', () => {
-      const id = resultStorage.store(mockAnalysis)
+    it('should store a result and return an ID', async () => {
+      const id = await resultStorage.store(mockAnalysis)
       
       expect(id).toBeDefined()
       expect(typeof id).toBe('string')
@@ -57,28 +64,27 @@ describe('Result Storage', () => {
       )
     })
 
-    it('should store with custom TTL', () => {
-      const customTtl = 60 // 60 minutes
-      const id = resultStorage.store(mockAnalysis, customTtl)
+    it('should log the configured retention', async () => {
+      const id = await resultStorage.store(mockAnalysis)
       
       expect(id).toBeDefined()
       expect(mockConsoleLog).toHaveBeenCalledWith(
-        expect.stringContaining(`(TTL: ${customTtl}m)`)
+        expect.stringContaining('(retention: 30m)')
       )
     })
 
-    it('should generate unique IDs for different results', () => {
-      const id1 = resultStorage.store(mockAnalysis)
-      const id2 = resultStorage.store(mockAnalysis)
+    it('should generate unique IDs for different results', async () => {
+      const id1 = await resultStorage.store(mockAnalysis)
+      const id2 = await resultStorage.store(mockAnalysis)
       
       expect(id1).not.toBe(id2)
     })
   })
 
   describe('retrieve()', () => {
-    it('should retrieve a stored result', () => {
-      const id = resultStorage.store(mockAnalysis)
-      const retrieved = resultStorage.retrieve(id)
+    it('should retrieve a stored result', async () => {
+      const id = await resultStorage.store(mockAnalysis)
+      const retrieved = await resultStorage.retrieve(id)
       
       expect(retrieved).toEqual(mockAnalysis)
       expect(mockConsoleLog).toHaveBeenCalledWith(
@@ -86,8 +92,25 @@ describe('Result Storage', () => {
       )
     })
 
-    it('should return null for non-existent ID', () => {
-      const result = resultStorage.retrieve('non-existent-id')
+    it('should return the prompt with the analysis only to its owner', async () => {
+      const id = await resultStorage.store(mockAnalysis, { userId: 'user-1', prompt: 'Which language?' })
+
+      expect(await resultStorage.retrieveWithPrompt(id, 'user-1')).toEqual({ prompt: 'Which language?', analysis: mockAnalysis })
+      expect(await resultStorage.retrieveWithPrompt(id, 'user-2')).toBeNull()
+    })
+
+    it('should only return a result to its owner when asked on their behalf', async () => {
+      const owned = await resultStorage.store(mockAnalysis, { userId: 'user-1' })
+      const unowned = await resultStorage.store(mockAnalysis)
+
+      expect(await resultStorage.retrieve(owned, 'user-1')).toEqual(mockAnalysis)
+      expect(await resultStorage.retrieve(owned, 'user-2')).toBeNull()
+      expect(await resultStorage.retrieve(unowned, 'user-1')).toBeNull()
+      expect(await resultStorage.retrieve(owned)).toEqual(mockAnalysis)
+    })
+
+    it('should return null for non-existent ID', async () => {
+      const result = await resultStorage.retrieve('non-existent-id')
       
       expect(result).toBeNull()
       expect(mockConsoleLog).toHaveBeenCalledWith(
@@ -95,29 +118,24 @@ describe('Result Storage', () => {
       )
     })
 
-    it('should return null for expired result', () => {
-      // Store with very short TTL
-      const id = resultStorage.store(mockAnalysis, 0.001) // 0.001 minutes = 0.06 seconds
+    it('should return null for expired result', async () => {
+      const id = await shortLived.store(mockAnalysis)
       
       // Wait for expiry
-      return new Promise(resolve => {
-        setTimeout(() => {
-          const result = resultStorage.retrieve(id)
-          
-          expect(result).toBeNull()
-          expect(mockConsoleLog).toHaveBeenCalledWith(
-            expect.stringContaining(`⏰ Result ${id} expired`)
-          )
-          resolve(undefined)
-        }, 100) // Wait 100ms
-      })
+      await new Promise(resolve => setTimeout(resolve, 100))
+      const result = await shortLived.retrieve(id)
+      
+      expect(result).toBeNull()
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        expect.stringContaining(`⏰ Result ${id} expired`)
+      )
     })
   })
 
   describe('delete()', () => {
-    it('should delete a stored result', () => {
-      const id = resultStorage.store(mockAnalysis)
-      const deleted = resultStorage.delete(id)
+    it('should delete a stored result', async () => {
+      const id = await resultStorage.store(mockAnalysis)
+      const deleted = await resultStorage.delete(id)
       
       expect(deleted).toBe(true)
       expect(mockConsoleLog).toHaveBeenCalledWith(
@@ -125,23 +143,23 @@ describe('Result Storage', () => {
       )
       
       // Verify it's deleted
-      const retrieved = resultStorage.retrieve(id)
+      const retrieved = await resultStorage.retrieve(id)
       expect(retrieved).toBeNull()
     })
 
-    it('should return false for non-existent ID', () => {
-      const deleted = resultStorage.delete('non-existent-id')
+    it('should return false for non-existent ID', async () => {
+      const deleted = await resultStorage.delete('non-existent-id')
       expect(deleted).toBe(false)
     })
   })
 
   describe('getStats()', () => {
-    it('should return correct stats', () => {
+    it('should return correct stats', async () => {
       // Store multiple results
-      const id1 = resultStorage.store(mockAnalysis)
-      const id2 = resultStorage.store(mockAnalysis)
+      const id1 = await resultStorage.store(mockAnalysis)
+      const id2 = await resultStorage.store(mockAnalysis)
       
-      const stats = resultStorage.getStats()
+      const stats = await resultStorage.getStats()
       
       expect(stats.count).toBe(2)
       expect(stats.oldestAge).toBeGreaterThanOrEqual(0)
@@ -149,8 +167,8 @@ describe('Result Storage', () => {
       expect(stats.oldestAge).toBeGreaterThanOrEqual(stats.newestAge)
     })
 
-    it('should handle empty storage', () => {
-      const stats = resultStorage.getStats()
+    it('should handle empty storage', async () => {
+      const stats = await resultStorage.getStats()
       
       expect(stats.count).toBe(0)
       expect(stats.oldestAge).toBe(0)
@@ -159,20 +177,63 @@ describe('Result Storage', () => {
   })
 
   describe('cleanup()', () => {
-    it('should clean up expired results', () => {
-      // Store result with short TTL
-      const id = resultStorage.store(mockAnalysis, 0.001) // Very short TTL
+    it('should clean up expired results', async () => {
+      await shortLived.store(mockAnalysis)
       
       // Manually trigger cleanup after expiry
-      return new Promise(resolve => {
-        setTimeout(() => {
-          resultStorage['cleanup']()
-          
-          const result = resultStorage.retrieve(id)
-          expect(result).toBeNull()
-          resolve(undefined)
-        }, 100)
-      })
+      await new Promise(resolve => setTimeout(resolve, 100))
+      shortLived['cleanup']()
+      
+      expect((await shortLived.getStats()).count).toBe(0)
+    })
+  })
+
+  describe('listHistory()', () => {
+    it('should search and filter the owner\'s results', async () => {
+      const low = { ...mockAnalysis, alignment: { ...mockAnalysis.alignment, overallAlignment: 'low' as const } }
+      const mine = await resultStorage.store(mockAnalysis, { userId: 'user-1', prompt: 'Which language?' })
+      const contested = await resultStorage.store(low, { userId: 'user-1', prompt: 'Tabs or spaces?' })
+      await resultStorage.store(mockAnalysis, { userId: 'user-2', prompt: 'Which language?' })
+
+      expect((await resultStorage.listHistory('user-1')).map(entry => entry.id).sort()).toEqual([mine, contested].sort())
+      expect((await resultStorage.listHistory('user-1', { search: 'openai response' })).length).toBe(2)
+      expect((await resultStorage.listHistory('user-1', { search: 'language' })).map(entry => entry.id)).toEqual([mine])
+      expect((await resultStorage.listHistory('user-1', { alignment: 'low' })).map(entry => entry.id)).toEqual([contested])
+      expect(await resultStorage.retrieve(mine, 'user-2')).toBeNull()
+    })
+  })
+
+  describe('configuration', () => {
+    const originalRetention = process.env.RESULT_RETENTION_MINUTES
+
+    afterEach(() => {
+      if (originalRetention === undefined) {
+        delete process.env.RESULT_RETENTION_MINUTES
+      } else {
+        process.env.RESULT_RETENTION_MINUTES = originalRetention
+      }
+    })
+
+    it('should default retention per backend and honour RESULT_RETENTION_MINUTES', () => {
+      delete process.env.RESULT_RETENTION_MINUTES
+      expect(resolveRetentionMs('memory')).toBe(30 * 60 * 1000)
+      expect(resolveRetentionMs('postgres')).toBe(30 * 24 * 60 * 60 * 1000)
+
+      process.env.RESULT_RETENTION_MINUTES = '90'
+      expect(resolveRetentionMs('sqlite')).toBe(90 * 60 * 1000)
+    })
+
+    it('should keep results in memory when the backend is unknown or unconfigured', async () => {
+      const mockConsoleWarn = jest.spyOn(console, 'warn').mockImplementation()
+      const originalUrl = process.env.DATABASE_URL
+      delete process.env.DATABASE_URL
+
+      const stores = [createResultStore('bogus'), createResultStore('postgres')]
+
+      expect(stores.every(store => store instanceof MemoryResultStore)).toBe(true)
+      await Promise.all(stores.map(store => store.destroy()))
+      if (originalUrl !== undefined) process.env.DATABASE_URL = originalUrl
+      mockConsoleWarn.mockRestore()
     })
   })
-})
\ No newline at end of file
+})
@@ -0,0 +1,91 @@
+/** @jest-environment node */
+import { MemoryShareStore, SqlShareStore, generateShareSlug, type ShareStore } from '@/lib/share-store'
+import { openSqliteDatabase } from '@/lib/sql-database'
+import type { ConsensusAnalysis } from '@/types/ai'
+
+const mockConsoleLog = jest.spyOn(console, 'log').mockImplementation()
+
+const mockAnalysis: ConsensusAnalysis = {
+  unifiedResponse: 'Shared synthesis',
+  alignment: {
+    semantic: 0.8,
+    surface: 0.6,
+    models: { openai: 'high', claude: 'high' },
+    similarityMatrix: { models: ['openai', 'claude'], scores: [[1, 0.8], [0.8, 1]] },
+    overallAlignment: 'high',
+    description: 'Test alignment',
+    methodology: 'semantic-similarity-v2',
+    alignedPoints: []
+  },
+  alignedPoints: [],
+  divergentSections: [],
+  originalResponses: [{ model: 'openai', content: 'Answer', responseTime: 1000 }]
+}
+
+afterAll(() => {
+  mockConsoleLog.mockRestore()
+})
+
+describe('generateShareSlug()', () => {
+  it('should produce unguessable URL-safe slugs', () => {
+    const slugs = new Set(Array.from({ length: 50 }, generateShareSlug))
+
+    expect(slugs.size).toBe(50)
+    slugs.forEach(slug => expect(slug).toMatch(/^[A-Za-z0-9_-]{22}$/))
+  })
+})
+
+describe.each([
+  ['memory', () => new MemoryShareStore()],
+  ['sqlite', () => new SqlShareStore(() => openSqliteDatabase(':memory:'))]
+])('%s share store', (_backend, createStore: () => ShareStore) => {
+  let store: ShareStore
+
+  beforeEach(() => {
+    store = createStore()
+  })
+
+  afterEach(async () => {
+    await store.destroy()
+  })
+
+  it('should serve a shared analysis by slug', async () => {
+    const share = await store.create({ ownerId: 'owner-1', prompt: 'What is shared?', analysis: mockAnalysis })
+
+    expect(await store.get(share.slug)).toEqual({
+      slug: share.slug,
+      prompt: 'What is shared?',
+      analysis: mockAnalysis,
+      createdAt: share.createdAt,
+      expiresAt: undefined
+    })
+    expect(await store.get('unknown-slug')).toBeNull()
+  })
+
+  it('should only let the owner revoke a link', async () => {
+    const { slug } = await store.create({ ownerId: 'owner-1', prompt: 'Revocable', analysis: mockAnalysis })
+
+    expect(await store.revoke(slug, 'someone-else')).toBe('forbidden')
+    expect(await store.get(slug)).not.toBeNull()
+
+    expect(await store.revoke(slug, 'owner-1')).toBe('revoked')
+    expect(await store.get(slug)).toBeNull()
+    expect(await store.revoke(slug, 'owner-1')).toBe('not_found')
+  })
+
+  it('should stop serving a link once it expires', async () => {
+    const { slug, expiresAt } = await store.create({
+      ownerId: 'owner-1',
+      prompt: 'Expiring',
+      analysis: mockAnalysis,
+      expiresAt: new Date(Date.now() + 60 * 1000)
+    })
+    expect(await store.get(slug)).toMatchObject({ slug, expiresAt })
+
+    const mockNow = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 60 * 1000)
+    const expired = await store.get(slug)
+    mockNow.mockRestore()
+
+    expect(expired).toBeNull()
+  })
+})
@@ -0,0 +1,139 @@
+/** @jest-environment node */
+import { CostTracker } from '@/lib/cost-tracking'
+import { MemoryCostLedger, type QueryCost } from '@/lib/cost-ledger'
+import { SpendBudget, BudgetExceededError, BudgetUnavailableError, readBudgetConfig, type BudgetConfig } from '@/lib/spend-budget'
+
+const queryCost = (userId: string, total: number, timestamp: number = Date.now()): QueryCost => ({
+  timestamp,
+  userId,
+  tier: 'pro',
+  models: {},
+  synthesis: {},
+  total,
+  estimatedTotal: total,
+  tokens: [],
+  priceTableVersion: 'test',
+  processingTime: 1000
+})
+
+const config: BudgetConfig = {
+  limits: [
+    { scope: 'user', period: 'daily', limit: 1 },
+    { scope: 'global', period: 'monthly', limit: 10 }
+  ],
+  warningThresholds: [0.8]
+}
+
+describe('SpendBudget', () => {
+  let ledger: MemoryCostLedger
+  let budget: SpendBudget
+
+  beforeEach(() => {
+    ledger = new MemoryCostLedger()
+    budget = new SpendBudget(new CostTracker(ledger), config)
+    jest.spyOn(console, 'log').mockImplementation()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should report remaining spend per user and for everyone', async () => {
+    await ledger.append(queryCost('alice', 0.25))
+    await ledger.append(queryCost('bob', 2))
+
+    const status = await budget.getStatus('alice')
+
+    expect(status.limits).toEqual([
+      expect.objectContaining({ scope: 'user', period: 'daily', spent: 0.25, remaining: 0.75 }),
+      expect.objectContaining({ scope: 'global', period: 'monthly', spent: 2.25, remaining: 7.75 })
+    ])
+    expect(status.warnings).toEqual([])
+  })
+
+  it('should only count spend since the start of the UTC day', async () => {
+    const now = new Date()
+    const yesterday = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) - 1
+    await ledger.append(queryCost('alice', 0.9, yesterday))
+
+    const status = await budget.getStatus('alice')
+
+    expect(status.limits[0].spent).toBe(0)
+  })
+
+  it('should refuse a query that would pass a limit', async () => {
+    await ledger.append(queryCost('alice', 0.95))
+
+    await expect(budget.reserve('alice', 0.09)).rejects.toThrow(BudgetExceededError)
+    await expect(budget.reserve('alice', 0.09)).rejects.toThrow('Your daily spending limit of $1.00 has been reached')
+    await expect(budget.reserve('bob', 0.09)).resolves.toBeDefined()
+  })
+
+  it('should warn once a threshold is crossed', async () => {
+    await ledger.append(queryCost('alice', 0.75))
+
+    const reservation = await budget.reserve('alice', 0.09)
+
+    expect(reservation.status.warnings).toEqual(["You've used 84% of your daily budget ($0.84 of $1.00)"])
+  })
+
+  it('should hold the estimate of queries still running until released', async () => {
+    const reservations = await Promise.all(Array.from({ length: 11 }, () => budget.reserve('alice', 0.09)))
+
+    await expect(budget.reserve('alice', 0.09)).rejects.toThrow(BudgetExceededError)
+
+    reservations[0].release()
+    await expect(budget.reserve('alice', 0.09)).resolves.toBeDefined()
+  })
+
+  it('should refuse queries when the ledger cannot be read', async () => {
+    jest.spyOn(ledger, 'getSpend').mockRejectedValue(new Error('database down'))
+    const mockConsoleError = jest.spyOn(console, 'error').mockImplementation()
+
+    await expect(budget.reserve('alice', 0.09)).rejects.toThrow(BudgetUnavailableError)
+    expect(mockConsoleError).toHaveBeenCalledWith('Error reading spend for budget:', expect.anything())
+  })
+
+  it('should refuse queries until a cost the ledger failed to record is recorded', async () => {
+    const tracker = new CostTracker(ledger)
+    budget = new SpendBudget(tracker, config)
+    const append = jest.spyOn(ledger, 'append').mockRejectedValue(new Error('read-only filesystem'))
+    jest.spyOn(console, 'error').mockImplementation()
+
+    await tracker.trackQuery('pro', 1000, [{ key: 'claude', estimatedCost: 0.5 }], { gpt4: false, embeddings: false, userId: 'alice' })
+    await expect(budget.reserve('alice', 0.09)).rejects.toThrow(BudgetUnavailableError)
+
+    append.mockRestore()
+    await expect(budget.reserve('alice', 0.6)).rejects.toThrow(BudgetExceededError)
+    expect(await ledger.count()).toBe(1)
+  })
+})
+
+describe('readBudgetConfig()', () => {
+  it('should cap each user and the whole service by default', () => {
+    expect(readBudgetConfig({})).toEqual({
+      limits: [
+        { scope: 'user', period: 'daily', limit: 5 },
+        { scope: 'user', period: 'monthly', limit: 50 },
+        { scope: 'global', period: 'daily', limit: 100 },
+        { scope: 'global', period: 'monthly', limit: 1000 }
+      ],
+      warningThresholds: [0.8]
+    })
+  })
+
+  it('should read limits and thresholds from the environment, 0 turning a limit off', () => {
+    expect(readBudgetConfig({
+      BUDGET_USER_DAILY_USD: '0',
+      BUDGET_GLOBAL_DAILY_USD: '250',
+      BUDGET_GLOBAL_MONTHLY_USD: '0',
+      BUDGET_WARNING_THRESHOLDS: '0.5, 0.9'
+    })).toEqual({
+      limits: [
+        { scope: 'user', period: 'monthly', limit: 50 },
+        { scope: 'global', period: 'daily', limit: 250 }
+      ],
+      warningThresholds: [0.5, 0.9]
+    })
+  })
+})
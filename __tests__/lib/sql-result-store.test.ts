@@ -0,0 +1,143 @@
+/** @jest-environment node */
+import { SqlResultStore } from '@/lib/sql-result-store'
+import { openSqliteDatabase } from '@/lib/sql-database'
+import type { ConsensusAnalysis } from '@/types/ai'
+
+const mockConsoleLog = jest.spyOn(console, 'log').mockImplementation()
+
+const mockAnalysis: ConsensusAnalysis = {
+  unifiedResponse: 'Stored in SQLite',
+  alignment: {
+    semantic: 0.8,
+    surface: 0.6,
+    models: { openai: 'high', claude: 'high' },
+    similarityMatrix: { models: ['openai', 'claude'], scores: [[1, 0.8], [0.8, 1]] },
+    overallAlignment: 'high',
+    description: 'Test alignment',
+    methodology: 'semantic-similarity-v2',
+    alignedPoints: []
+  },
+  alignedPoints: [],
+  divergentSections: [],
+  originalResponses: [{ model: 'openai', content: 'Answer', responseTime: 1000 }]
+}
+
+describe('SqlResultStore (SQLite)', () => {
+  let store: SqlResultStore
+
+  beforeEach(() => {
+    store = new SqlResultStore(() => openSqliteDatabase(':memory:'), 60 * 1000)
+  })
+
+  afterEach(async () => {
+    await store.destroy()
+  })
+
+  afterAll(() => {
+    mockConsoleLog.mockRestore()
+  })
+
+  it('should round-trip an analysis under a UUID', async () => {
+    const id = await store.store(mockAnalysis, { prompt: 'What is stored?', processingTime: 4200, estimatedCost: 0.1 })
+
+    expect(id).toMatch(/^[0-9a-f-]{36}$/)
+    expect(await store.retrieve(id)).toEqual(mockAnalysis)
+  })
+
+  it('should return the prompt with the analysis only to its owner', async () => {
+    const id = await store.store(mockAnalysis, { userId: 'user-1', prompt: 'What is stored?' })
+
+    expect(await store.retrieveWithPrompt(id, 'user-1')).toEqual({ prompt: 'What is stored?', analysis: mockAnalysis })
+    expect(await store.retrieveWithPrompt(id, 'user-2')).toBeNull()
+  })
+
+  it('should return null for unknown and malformed ids', async () => {
+    expect(await store.retrieve('00000000-0000-4000-8000-000000000000')).toBeNull()
+    expect(await store.retrieve('result_123_abc')).toBeNull()
+  })
+
+  it('should delete results', async () => {
+    const id = await store.store(mockAnalysis)
+
+    expect(await store.delete(id)).toBe(true)
+    expect(await store.delete(id)).toBe(false)
+    expect(await store.retrieve(id)).toBeNull()
+  })
+
+  it('should expire and clean up results past retention', async () => {
+    const expiring = await store.store(mockAnalysis)
+    const cleaned = await store.store(mockAnalysis)
+    const mockNow = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 60 * 1000)
+
+    expect(await store.retrieve(expiring)).toBeNull()
+    await store['cleanup']()
+    mockNow.mockRestore()
+
+    expect((await store.getStats()).count).toBe(0)
+    expect(await store.retrieve(cleaned)).toBeNull()
+  })
+
+  it('should report stats', async () => {
+    await store.store(mockAnalysis)
+    await store.store(mockAnalysis)
+
+    const stats = await store.getStats()
+
+    expect(stats.count).toBe(2)
+    expect(stats.oldestAge).toBeGreaterThanOrEqual(stats.newestAge)
+  })
+
+  describe('history', () => {
+    const withAnswer = (content: string, overallAlignment: 'high' | 'low' = 'high'): ConsensusAnalysis => ({
+      ...mockAnalysis,
+      alignment: { ...mockAnalysis.alignment, overallAlignment },
+      originalResponses: [{ model: 'openai', content, responseTime: 1000 }]
+    })
+
+    it('should list only the owner\'s results, newest first', async () => {
+      const first = await store.store(withAnswer('First'), { userId: 'user-1', prompt: 'First prompt' })
+      await store.store(withAnswer('Other'), { userId: 'user-2', prompt: 'Not mine' })
+      const mockNow = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 1000)
+      const second = await store.store(withAnswer('Second'), { userId: 'user-1', prompt: 'Second prompt' })
+      mockNow.mockRestore()
+
+      const entries = await store.listHistory('user-1')
+
+      expect(entries.map(entry => entry.id)).toEqual([second, first])
+      expect(entries[0]).toMatchObject({ prompt: 'Second prompt', alignment: 'high' })
+    })
+
+    it('should search prompts, unified responses and model answers', async () => {
+      const byAnswer = await store.store(withAnswer('Photosynthesis uses chlorophyll'), { userId: 'user-1', prompt: 'How do plants eat?' })
+      await store.store(withAnswer('Rainbows need rain'), { userId: 'user-1', prompt: 'Why rainbows?' })
+
+      expect((await store.listHistory('user-1', { search: 'CHLOROPHYLL plants' })).map(entry => entry.id)).toEqual([byAnswer])
+      expect(await store.listHistory('user-1', { search: '100%' })).toEqual([])
+      expect(await store.listHistory('user-1', { search: 'stored in sqlite' })).toHaveLength(2)
+    })
+
+    it('should filter by alignment and date', async () => {
+      const low = await store.store(withAnswer('Split', 'low'), { userId: 'user-1', prompt: 'Contested' })
+      await store.store(withAnswer('Agreed'), { userId: 'user-1', prompt: 'Settled' })
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+
+      expect((await store.listHistory('user-1', { alignment: 'low' })).map(entry => entry.id)).toEqual([low])
+      expect(await store.listHistory('user-1', { from: tomorrow })).toEqual([])
+      expect(await store.listHistory('user-1', { to: tomorrow })).toHaveLength(2)
+    })
+
+    it('should only reopen a result for its owner', async () => {
+      const id = await store.store(mockAnalysis, { userId: 'user-1', prompt: 'Mine' })
+
+      expect(await store.retrieve(id, 'user-1')).toEqual(mockAnalysis)
+      expect(await store.retrieve(id, 'user-2')).toBeNull()
+    })
+
+    it('should not hand a result stored without an owner to a visitor', async () => {
+      const id = await store.store(mockAnalysis)
+
+      expect(await store.retrieve(id, 'user-1')).toBeNull()
+      expect(await store.retrieve(id)).toEqual(mockAnalysis)
+    })
+  })
+})
@@ -0,0 +1,230 @@
+import { synthesizeWithErrorHandling } from '@/lib/ai/synthesis'
+import type { ModelResponse } from '@/types/ai'
+
+// Deterministic similarity: texts sharing their first word are near-identical
+jest.mock('../../lib/ai/embeddings', () => {
+  const actual = jest.requireActual('../../lib/ai/embeddings')
+  const firstWord = (text: string) => text.split(' ')[0]
+  return {
+    ...actual,
+    computeSimilarityMatrix: jest.fn(async (texts: string[]) => ({
+      scores: texts.map((a, i) => texts.map((b, j) => (i === j ? 1 : firstWord(a) === firstWord(b) ? 0.95 : 0.2))),
+      backend: 'openai'
+    }))
+  }
+})
+
+jest.mock('../../lib/ai/gpt-synthesis', () => ({
+  SYNTHESIS_MODEL: 'gpt-4o-mini',
+  createGPT4Synthesis: jest.fn(async () => ({ content: 'Unified synthesis' }))
+}))
+
+const mockConsoleError = jest.spyOn(console, 'error').mockImplementation()
+
+const response = (model: string, content: string): ModelResponse => ({
+  model,
+  content,
+  responseTime: 1000
+})
+
+describe('Synthesis', () => {
+  afterAll(() => {
+    mockConsoleError.mockRestore()
+  })
+
+  describe('alignment', () => {
+    it('should build an N×N similarity matrix keyed by participating models', async () => {
+      const responses = [
+        response('gemini', 'Paris is the capital of France'),
+        response('openai', 'Paris is the capital city of France'),
+        response('claude', 'Lyon is a large French city'),
+        response('claude:claude-3-5-haiku-20241022', 'Paris remains the French capital')
+      ]
+
+      const analysis = await synthesizeWithErrorHandling(responses)
+      const { similarityMatrix, models } = analysis.alignment
+
+      expect(similarityMatrix.models).toEqual(responses.map(r => r.model))
+      expect(similarityMatrix.scores).toHaveLength(4)
+      similarityMatrix.scores.forEach((row, i) => {
+        expect(row).toHaveLength(4)
+        expect(row[i]).toBe(1)
+        row.forEach((score, j) => expect(score).toBe(similarityMatrix.scores[j][i]))
+      })
+
+      expect(similarityMatrix.scores[0][1]).toBeGreaterThan(similarityMatrix.scores[0][2])
+      expect(Object.keys(models)).toEqual(responses.map(r => r.model))
+      expect(models.claude).toBe('low')
+    })
+
+    it('should embed claims and whole responses in a single batch', async () => {
+      const { computeSimilarityMatrix } = jest.requireMock('../../lib/ai/embeddings')
+      computeSimilarityMatrix.mockClear()
+      const responses = [
+        response('gemini', 'Paris is the capital of France.'),
+        response('openai', 'Paris is the capital city of France.'),
+        response('claude', 'Lyon is large')
+      ]
+
+      const analysis = await synthesizeWithErrorHandling(responses)
+
+      expect(computeSimilarityMatrix).toHaveBeenCalledTimes(1)
+      expect(computeSimilarityMatrix.mock.calls[0][0]).toEqual([
+        'Paris is the capital of France.',
+        'Paris is the capital city of France.',
+        ...responses.map(r => r.content)
+      ])
+      expect(analysis.alignedPoints).toHaveLength(1)
+      expect(analysis.alignment.similarityMatrix.scores).toHaveLength(3)
+    })
+
+    it('should record which embedding backend produced the scores', async () => {
+      const { computeSimilarityMatrix } = jest.requireMock('../../lib/ai/embeddings')
+      computeSimilarityMatrix.mockResolvedValueOnce({ scores: [[1, 0.6], [0.6, 1]], backend: 'local' })
+
+      const analysis = await synthesizeWithErrorHandling([
+        response('gemini', 'alpha beta'),
+        response('openai', 'gamma delta')
+      ])
+
+      expect(analysis.alignment.embeddingBackend).toBe('local')
+      expect(analysis.alignment.semantic).toBe(0.6)
+    })
+
+    it('should work with two models', async () => {
+      const analysis = await synthesizeWithErrorHandling([
+        response('gemini', 'Yes it is safe'),
+        response('openai', 'Yes it is generally safe')
+      ])
+
+      expect(analysis.alignment.similarityMatrix.scores).toHaveLength(2)
+      expect(analysis.alignment.models).toEqual({ gemini: 'high', openai: 'high' })
+    })
+  })
+
+  describe('synthesizeWithErrorHandling()', () => {
+    it('should return a single-model analysis without synthesis', async () => {
+      const analysis = await synthesizeWithErrorHandling([response('claude', 'Only answer')])
+
+      expect(analysis.unifiedResponse).toBe('Only answer')
+      expect(analysis.alignment.models).toEqual({ claude: 'high' })
+      expect(analysis.alignment.similarityMatrix).toEqual({ models: ['claude'], scores: [[1]] })
+    })
+
+    it('should fall back when synthesis throws', async () => {
+      const { createGPT4Synthesis } = jest.requireMock('../../lib/ai/gpt-synthesis')
+      createGPT4Synthesis.mockRejectedValueOnce(new Error('boom'))
+
+      const analysis = await synthesizeWithErrorHandling([
+        response('gemini', 'First answer'),
+        response('openai', 'Second answer')
+      ])
+
+      expect(analysis.alignment.models).toEqual({ gemini: 'low', openai: 'low' })
+      expect(analysis.alignment.similarityMatrix.scores).toEqual([[1, 0], [0, 1]])
+      expect(analysis.divergentSections[0].topic).toBe('Synthesis Error')
+      expect(analysis.diagnostics?.degraded).toBe(true)
+      expect(analysis.diagnostics?.errors).toEqual(['boom'])
+      expect(analysis.diagnostics?.confidence.semantic).toBe('none')
+    })
+  })
+
+  describe('diagnostics', () => {
+    const responses = [
+      response('gemini', 'Paris is the capital of France'),
+      response('openai', 'Paris is the capital city of France')
+    ]
+
+    it('should report every stage as ok with high confidence on the happy path', async () => {
+      const { diagnostics } = await synthesizeWithErrorHandling(responses)
+
+      expect(diagnostics?.degraded).toBe(false)
+      expect(diagnostics?.stages.map(stage => [stage.stage, stage.status])).toEqual([
+        ['claims', 'ok'],
+        ['similarity', 'ok'],
+        ['divergences', 'ok'],
+        ['fact_check', 'ok'],
+        ['synthesis', 'ok']
+      ])
+      expect(diagnostics?.confidence.semantic).toBe('high')
+      expect(diagnostics?.errors).toEqual([])
+    })
+
+    it('should flag a fallen-back synthesis as degraded', async () => {
+      const { createGPT4Synthesis } = jest.requireMock('../../lib/ai/gpt-synthesis')
+      createGPT4Synthesis.mockResolvedValueOnce({ content: 'Excerpts', error: 'GPT-4 synthesis API error: 429' })
+
+      const analysis = await synthesizeWithErrorHandling(responses)
+
+      expect(analysis.unifiedResponse).toBe('Excerpts')
+      expect(analysis.diagnostics?.degraded).toBe(true)
+      expect(analysis.diagnostics?.stages.find(stage => stage.stage === 'synthesis')?.status).toBe('fallback')
+      expect(analysis.diagnostics?.errors).toEqual(['synthesis: GPT-4 synthesis API error: 429'])
+    })
+
+    it('should lower semantic confidence when embeddings fell back to the local backend', async () => {
+      const { computeSimilarityMatrix } = jest.requireMock('../../lib/ai/embeddings')
+      computeSimilarityMatrix.mockImplementationOnce(async (texts: string[]) => ({
+        scores: texts.map((_, i) => texts.map((_, j) => (i === j ? 1 : 0.9))),
+        backend: 'local',
+        fallbackReason: 'OpenAI embedding API error: 503'
+      }))
+
+      const { diagnostics } = await synthesizeWithErrorHandling(responses)
+
+      expect(diagnostics?.degraded).toBe(true)
+      expect(diagnostics?.stages.find(stage => stage.stage === 'similarity')?.status).toBe('fallback')
+      expect(diagnostics?.confidence.semantic).toBe('low')
+    })
+
+    it('should mark every stage skipped for a single response', async () => {
+      const { diagnostics } = await synthesizeWithErrorHandling([response('claude', 'Only answer')])
+
+      expect(diagnostics?.degraded).toBe(false)
+      expect(new Set(diagnostics?.stages.map(stage => stage.status))).toEqual(new Set(['skipped']))
+    })
+  })
+
+  describe('progress', () => {
+    const responses = [
+      response('gemini', 'Paris is the capital of France'),
+      response('openai', 'Paris is the capital city of France')
+    ]
+
+    it('should report real stage boundaries in order with measured durations', async () => {
+      const { createGPT4Synthesis } = jest.requireMock('../../lib/ai/gpt-synthesis')
+      createGPT4Synthesis.mockImplementationOnce(async (_responses: ModelResponse[], _alignment: unknown, { onToken }: { onToken?: (delta: string) => void }) => {
+        onToken?.('Unified ')
+        onToken?.('synthesis')
+        return { content: 'Unified synthesis' }
+      })
+      const onProgress = jest.fn()
+      const onToken = jest.fn()
+
+      await synthesizeWithErrorHandling(responses, { onProgress, onToken })
+
+      expect(onProgress.mock.calls.map(([progress]) => progress.stage)).toEqual([
+        'embeddings_requested',
+        'embeddings_done',
+        'alignment_computed',
+        'divergences_computed',
+        'synthesis_started',
+        'synthesis_done'
+      ])
+      onProgress.mock.calls.forEach(([progress]) => {
+        expect(progress.durationMs).toBeGreaterThanOrEqual(0)
+        expect(progress.elapsedMs).toBeGreaterThanOrEqual(progress.durationMs)
+      })
+      expect(onToken.mock.calls).toEqual([['Unified '], ['synthesis']])
+    })
+
+    it('should skip synthesis_started when the synthesis is not streamed', async () => {
+      const onProgress = jest.fn()
+
+      await synthesizeWithErrorHandling(responses, { onProgress })
+
+      expect(onProgress.mock.calls.map(([progress]) => progress.stage)).not.toContain('synthesis_started')
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ stage: 'synthesis_done' }))
+    })
+  })
+})
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAttachmentList, summarizeAttachment } from '@/lib/ai/cost-estimate';
+
+// What the cost estimate needs from each attachment, read once when it is attached
+export async function POST(request: NextRequest) {
+  try {
+    const { attachments } = await request.json();
+
+    if (!isAttachmentList(attachments)) {
+      return NextResponse.json(
+        { error: 'attachments must be an array of base64 files' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ attachments: attachments.map(summarizeAttachment) });
+  } catch (error) {
+    console.error('Attachment summary error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read attachments' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { estimateQueryCost, isAttachmentSummaryList } from '@/lib/ai/cost-estimate';
+import { resolveModelPanel, ModelSelectionError, type ResolvedModel } from '@/lib/ai/providers';
+
+// What a query would cost before it is submitted, per panel model and synthesis stage. Attachments come
+// as the summaries /api/ai/estimate/attachments returned for them, so re-estimating never resends a file.
+export async function POST(request: NextRequest) {
+  try {
+    const { prompt = '', attachments = [], mode = 'pro', models } = await request.json();
+
+    if (typeof prompt !== 'string') {
+      return NextResponse.json(
+        { error: 'prompt must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (mode !== 'basic' && mode !== 'pro') {
+      return NextResponse.json(
+        { error: 'mode must be "basic" or "pro"' },
+        { status: 400 }
+      );
+    }
+
+    if (!isAttachmentSummaryList(attachments)) {
+      return NextResponse.json(
+        { error: 'attachments must be an array of attachment summaries' },
+        { status: 400 }
+      );
+    }
+
+    let panel: ResolvedModel[];
+    try {
+      panel = resolveModelPanel(models);
+    } catch (error) {
+      if (error instanceof ModelSelectionError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(estimateQueryCost(mode, prompt, attachments, panel));
+  } catch (error) {
+    console.error('Cost estimate error:', error);
+    return NextResponse.json(
+      { error: 'Failed to estimate cost' },
+      { status: 500 }
+    );
+  }
+}
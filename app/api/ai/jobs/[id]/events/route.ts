@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobStore, createJobEventStream, SSE_HEADERS } from '@/lib/job-store';
+import { getUserId } from '@/lib/user-identity';
+
+// Replays one of the caller's jobs' events after `?after=N` (or the Last-Event-ID header), then follows it live
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const after = Number(request.nextUrl.searchParams.get('after') ?? request.headers.get('last-event-id') ?? 0);
+
+  if (!Number.isInteger(after) || after < 0) {
+    return NextResponse.json(
+      { error: 'after must be a non-negative integer' },
+      { status: 400 }
+    );
+  }
+
+  const userId = getUserId(request);
+  const stream = userId && jobStore.get(id, userId) ? createJobEventStream(id, after) : null;
+  if (!stream) {
+    return NextResponse.json(
+      { error: 'Job not found on this server; it may have expired or be running on another instance' },
+      { status: 404 }
+    );
+  }
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
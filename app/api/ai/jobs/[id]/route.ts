@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobStore } from '@/lib/job-store';
+import { getUserId } from '@/lib/user-identity';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const userId = getUserId(request);
+  const job = userId ? jobStore.get(id, userId) : null;
+
+  if (!job) {
+    return NextResponse.json(
+      { error: 'Job not found or expired' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    id: job.id,
+    status: job.status,
+    prompt: job.prompt,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    lastEventId: job.lastEventId
+  });
+}
+
+// Stops one of the caller's running jobs; its in-flight model, embeddings and synthesis calls are aborted
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const userId = getUserId(request);
+  const job = userId ? jobStore.get(id, userId) : null;
+
+  if (!job) {
+    return NextResponse.json(
+      { error: 'Job not found or expired' },
+      { status: 404 }
+    );
+  }
+
+  if (!jobStore.cancel(id)) {
+    return NextResponse.json(
+      { error: `Job already ${job.status}` },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ id, cancelled: true });
+}
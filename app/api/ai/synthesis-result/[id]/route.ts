@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { resultStorage } from '@/lib/result-storage';
+import { getUserId } from '@/lib/user-identity';
 
+// One of the caller's own stored results
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -15,7 +17,8 @@ export async function GET(
       );
     }
 
-    const result = resultStorage.retrieve(id);
+    const userId = getUserId(request);
+    const result = userId ? await resultStorage.retrieve(id, userId) : null;
     
     if (!result) {
       return NextResponse.json(
@@ -24,7 +27,7 @@ export async function GET(
       );
     }
 
-    // Don't delete immediately - let TTL handle cleanup
+    // Don't delete immediately - let retention handle cleanup
     // This prevents race conditions with frontend retries
     // resultStorage.delete(id);
 
@@ -1,287 +1,284 @@
-import { NextRequest } from 'next/server';
-import { synthesizeWithErrorHandling } from '@/lib/ai/synthesis';
-import { persistentCostTracker } from '@/lib/persistent-cost-tracking';
+import { NextRequest, NextResponse } from 'next/server';
+import { synthesizeModelResults } from '@/lib/ai/synthesis';
+import { QueryCancelledError, throwIfCancelled } from '@/lib/ai/cancellation';
+import { estimateQueryCost, isAttachmentList, summarizeAttachment } from '@/lib/ai/cost-estimate';
+import { partitionModelResults } from '@/lib/ai/model-errors';
+import { createQueryUsage, costTracker, unansweredCalls } from '@/lib/cost-tracking';
 import { resultStorage } from '@/lib/result-storage';
-import type { ModelResponse, FileAttachment } from '@/types/ai';
+import { spendBudget, BudgetExceededError, BudgetUnavailableError, type BudgetReservation } from '@/lib/spend-budget';
+import { resolveUserId, setUserCookie } from '@/lib/user-identity';
+import { splitResultParts } from '@/lib/result-parts';
+import { jobStore, createJobEventStream, SSE_HEADERS, type SynthesisJob } from '@/lib/job-store';
+import { providerRegistry, callModel, getModelDisplayName, resolveModelPanel, ModelSelectionError, type ResolvedModel } from '@/lib/ai/providers';
+import type { CostEstimate, FileAttachment, ModelResult, SynthesisProgressStage } from '@/types/ai';
 
 export async function POST(request: NextRequest) {
-  const { prompt, mode = 'pro', attachments } = await request.json();
-  
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response('Request body must be JSON', { status: 400 });
+  }
+  const { prompt, mode = 'pro', attachments, models } = body ?? {};
+
+  if (!prompt || typeof prompt !== 'string') {
+    return new Response('Valid prompt is required', { status: 400 });
+  }
+
   if (mode !== 'pro') {
     return new Response('Streaming only available for Pro mode', { status: 400 });
   }
+
+  if (attachments !== undefined && !isAttachmentList(attachments)) {
+    return new Response('attachments must be an array of base64 files', { status: 400 });
+  }
+
+  let panel: ResolvedModel[];
+  try {
+    panel = resolveModelPanel(models);
+  } catch (error) {
+    if (error instanceof ModelSelectionError) {
+      return new Response(error.message, { status: 400 });
+    }
+    throw error;
+  }
+
+  // A panel model without its key could only fail, so refuse before reserving budget or starting a job
+  const missingKeys = providerRegistry.getMissingApiKeys(panel.map(m => m.provider.id));
+  if (missingKeys.length > 0) {
+    return new Response(`Missing API keys: ${missingKeys.join(', ')}`, { status: 500 });
+  }
   
-  const encoder = new TextEncoder();
-  
-  const stream = new ReadableStream({
-    start(controller) {
-      synthesizeWithStreaming(prompt, attachments, controller, encoder);
+  // Checked before any provider is called, against the same estimate the page shows; the job holds it until its cost is recorded
+  const { userId, isNew } = resolveUserId(request);
+  const estimate = estimateQueryCost('pro', prompt, (attachments ?? []).map(summarizeAttachment), panel);
+  let reservation: BudgetReservation;
+  try {
+    reservation = await spendBudget.reserve(userId, estimate.total);
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      const response = new NextResponse(error.message, { status: 402 });
+      if (isNew) {
+        setUserCookie(response, userId);
+      }
+      return response;
     }
-  });
+    if (error instanceof BudgetUnavailableError) {
+      return new NextResponse(error.message, { status: 503 });
+    }
+    throw error;
+  }
+  
+  // The job runs independently of this connection, so a reloaded page can reattach to it
+  // through /api/ai/jobs/[id]/events; abandoned or stopped jobs abort their in-flight calls
+  const job = jobStore.create(prompt, userId);
+  synthesizeWithStreaming(job, prompt, attachments, panel, userId, estimate, reservation)
+    .catch(error => console.error(`Synthesis job ${job.id} crashed:`, error));
   
-  return new Response(stream, {
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    },
-  });
+  const response = new NextResponse(createJobEventStream(job.id), { headers: SSE_HEADERS });
+  if (isNew) {
+    setUserCookie(response, userId);
+  }
+  return response;
 }
 
-// Helper function to safely encode JSON for SSE
-function safeJsonStringify(obj: Record<string, unknown>): string {
-  return JSON.stringify(obj, (key, value) => {
-    if (typeof value === 'string') {
-      // Replace problematic characters that can break JSON
-      return value
-        .replace(/\\/g, '\\\\')
-        .replace(/"/g, '\\"')
-        .replace(/\r/g, '\\r')
-        .replace(/\n/g, '\\n')
-        .replace(/\t/g, '\\t')
-        .replace(/\f/g, '\\f')
-        .replace(/\b/g, '\\b');
-    }
-    return value;
-  });
-}
+// Model answers account for the first 60%; the pipeline stages share the rest
+const STAGE_PROGRESS: Record<SynthesisProgressStage, number> = {
+  embeddings_requested: 62,
+  embeddings_done: 75,
+  alignment_computed: 78,
+  divergences_computed: 82,
+  synthesis_started: 85,
+  synthesis_done: 98
+};
+
+const STAGE_MESSAGES: Record<SynthesisProgressStage, string> = {
+  embeddings_requested: 'Requesting embeddings for claims and responses...',
+  embeddings_done: 'Embeddings ready',
+  alignment_computed: 'Alignment scored',
+  divergences_computed: 'Divergences and single-source facts found',
+  synthesis_started: 'Writing unified synthesis...',
+  synthesis_done: 'Synthesis complete'
+};
 
 async function synthesizeWithStreaming(
+  job: SynthesisJob,
   prompt: string,
   attachments: FileAttachment[] | undefined,
-  controller: ReadableStreamDefaultController,
-  encoder: TextEncoder
+  panel: ResolvedModel[],
+  userId: string, // Owner of the stored result, for their history
+  estimate: CostEstimate, // Pre-flight estimate the reservation holds
+  reservation: BudgetReservation
 ) {
-  const startTime = Date.now();
+  const startTime = job.createdAt;
+  const { signal } = job;
+  const send = (event: Record<string, unknown>) => {
+    jobStore.append(job.id, event);
+  };
+  // A replay starts from the event that superseded the deltas rather than retyping them
+  const discardDeltas = (type: 'model_delta' | 'synthesis_delta', model?: string) => {
+    jobStore.discard(job.id, event => event.data.type === type && event.data.model === model);
+  };
+  
+  // Spend so far, so a cancelled query is charged only for what actually ran
+  const completedModels: ResolvedModel[] = [];
+  const streamedText: Record<string, string> = {}; // Per panel key, for calls that end without an answer
+  // Results keep panel order; events go out in completion order
+  const results: ModelResult[] = new Array(panel.length);
+  let embeddingsDone = false;
+  let synthesisStarted = false;
+  const usage = createQueryUsage();
   
   try {
     // Send start event
-    controller.enqueue(encoder.encode(`data: ${safeJsonStringify({ 
+    send({
       type: 'started',
+      jobId: job.id,
+      prompt,
+      startedAt: startTime,
       message: 'Starting sophisticated synthesis...',
+      budgetWarnings: reservation.status.warnings,
       progress: 0
-    })}\n\n`));
+    });
     
-    // Call models in parallel with progress tracking
-    const modelPromises = [
-      callModelWithProgress('gemini', prompt, attachments),
-      callModelWithProgress('openai', prompt, attachments),
-      callModelWithProgress('claude', prompt, attachments)
-    ];
+    let completed = 0;
     
-    const responses: ModelResponse[] = [];
-    
-    // Stream results as they complete
-    for (const [index, promise] of modelPromises.entries()) {
-      try {
-        const response = await promise;
-        responses.push(response);
-        
-        const modelName = ['Gemini', 'OpenAI', 'Claude'][index];
-        const safeContent = response.content.substring(0, 200).replace(/[\r\n\t]/g, ' ') + '...';
-        controller.enqueue(encoder.encode(`data: ${safeJsonStringify({
+    // callModel returns failures as results, so only cancellation rejects this
+    await Promise.all(panel.map(async (target, index) => {
+      const modelName = target.label ?? getModelDisplayName(target.key);
+      const result = await callModel(target, prompt, attachments, {
+        onToken: delta => {
+          streamedText[target.key] = (streamedText[target.key] ?? '') + delta;
+          send({ type: 'model_delta', model: target.key, modelName, delta });
+        },
+        signal
+      });
+      results[index] = result;
+      completed++;
+      const progress = Math.round((completed / panel.length) * 60);
+      
+      if (result.ok) {
+        completedModels.push(target);
+        if (result.usage) usage.models[result.model] = result.usage;
+        send({
           type: 'model_complete',
-          model: response.model,
+          model: result.model,
           modelName,
-          content: safeContent,
-          responseTime: response.responseTime,
-          progress: Math.round(((index + 1) / 3) * 60)
-        })}\n\n`));
-      } catch (error) {
-        console.error(`Model ${index} failed:`, error);
-        const modelName = ['gemini', 'openai', 'claude'][index] as 'gemini' | 'openai' | 'claude';
-        
-        // Add error response but continue with other models
-        responses.push({
-          model: modelName,
-          content: `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`,
-          responseTime: 0
+          content: result.content,
+          responseTime: result.responseTime,
+          progress
         });
-        
-        controller.enqueue(encoder.encode(`data: ${safeJsonStringify({
+        discardDeltas('model_delta', result.model);
+      } else {
+        // Continue with the other models
+        console.error(`Model ${target.key} failed (${result.code}):`, result.message);
+        send({
           type: 'model_error',
-          model: modelName,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          progress: Math.round(((index + 1) / 3) * 60)
-        })}\n\n`));
+          model: result.model,
+          modelName,
+          code: result.code,
+          retryable: result.retryable,
+          httpStatus: result.httpStatus,
+          error: result.message,
+          progress
+        });
+        discardDeltas('model_delta', result.model);
       }
-    }
+    }));
+    
+    throwIfCancelled(signal);
     
+    const { responses, failures } = partitionModelResults(results);
     if (responses.length === 0) {
-      throw new Error('All models failed');
+      send({ type: 'error', error: 'All models failed to respond', failedModels: failures });
+      jobStore.finish(job.id, 'failed');
+      return;
     }
     
-    // Filter out error responses for synthesis (but keep at least one)
-    const validResponses = responses.filter(r => !r.content.startsWith('Error:'));
-    const responsesToSynthesize = validResponses.length > 0 ? validResponses : responses;
-    
-    // Embeddings phase
-    controller.enqueue(encoder.encode(`data: ${safeJsonStringify({
-      type: 'embeddings_started',
-      message: 'Calculating semantic similarity with OpenAI embeddings...',
-      progress: 70
-    })}\n\n`));
-
-    // Small delay to show embeddings progress
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    controller.enqueue(encoder.encode(`data: ${safeJsonStringify({
-      type: 'embeddings_progress',
-      message: 'Computing vector similarities...',
-      progress: 80
-    })}\n\n`));
-
-    // Synthesis phase
-    controller.enqueue(encoder.encode(`data: ${safeJsonStringify({
-      type: 'synthesis_started',
-      message: 'Creating unified synthesis with GPT-4...',
-      progress: 85
-    })}\n\n`));
-    
-    // Perform sophisticated synthesis
-    const analysis = await synthesizeWithErrorHandling(responsesToSynthesize);
+    // Forward the pipeline's real stage boundaries with their measured durations
+    const analysis = await synthesizeModelResults(responses, failures, {
+      onToken: delta => send({ type: 'synthesis_delta', delta }),
+      onProgress: ({ stage, durationMs, elapsedMs }) => {
+        if (stage === 'embeddings_done') embeddingsDone = true;
+        if (stage === 'synthesis_started') synthesisStarted = true;
+        send({
+          type: 'stage',
+          stage,
+          message: STAGE_MESSAGES[stage],
+          durationMs,
+          elapsedMs,
+          progress: STAGE_PROGRESS[stage]
+        });
+      },
+      onUsage: (stage, tokens) => usage[stage].push(tokens),
+      signal
+    });
     
     // Track costs and performance
     const finalTime = Date.now() - startTime;
-    const cost = persistentCostTracker.trackQuery('pro', finalTime);
+    // Models that answered at their reported usage; failed calls only for what the provider may have billed
+    const cost = await costTracker.trackQuery('pro', finalTime, completedModels, {
+      usage,
+      userId,
+      estimate: estimate.total,
+      unanswered: unansweredCalls(panel, results, estimate, streamedText)
+    });
     
-    // Store the result and send completion event with better logging
-    const resultId = resultStorage.store(analysis);
+    // The stream carries the whole result; the stored copy is only a reference for later retrieval,
+    // so a storage outage shouldn't fail the query
+    const resultId = await resultStorage
+      .store(analysis, { userId, mode: 'pro', prompt, processingTime: finalTime, estimatedCost: cost.total })
+      .catch(error => {
+        console.error('Failed to store synthesis result:', error);
+        return null;
+      });
     console.log(`🎯 Synthesis complete, stored result ${resultId}`);
     
-    controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+    splitResultParts(analysis).forEach(part => send({ type: 'result_part', ...part }));
+    discardDeltas('synthesis_delta');
+    
+    send({
       type: 'synthesis_complete',
       progress: 100,
       resultId,
       metadata: {
-        totalModels: responses.length,
-        successfulModels: validResponses.length,
-        hasErrors: responses.some(r => r.content.startsWith('Error:')),
+        totalModels: panel.length,
+        successfulModels: responses.length,
+        hasErrors: failures.length > 0,
+        degraded: analysis.diagnostics?.degraded ?? false,
+        timedOutModels: failures.filter(f => f.code === 'timeout').map(f => f.model),
+        skippedModels: failures.filter(f => f.code === 'circuit_open').map(f => f.model),
         estimatedCost: cost.total,
         processingTime: finalTime
       }
-    })}\n\n`));
+    });
+    jobStore.finish(job.id, 'complete');
 
   } catch (error) {
+    if (error instanceof QueryCancelledError) {
+      const cost = await costTracker.trackQuery('pro', Date.now() - startTime, completedModels, {
+        embeddings: embeddingsDone,
+        gpt4: synthesisStarted,
+        cancelled: true,
+        unanswered: unansweredCalls(panel, results, estimate, streamedText),
+        usage,
+        userId,
+        estimate: estimate.total
+      });
+      console.log(`🛑 Query cancelled after $${cost.total.toFixed(4)} of spend`);
+      send({ type: 'cancelled', estimatedCost: cost.total });
+      jobStore.finish(job.id, 'cancelled');
+      return;
+    }
     console.error('Streaming synthesis error:', error);
-    controller.enqueue(encoder.encode(`data: ${safeJsonStringify({
+    send({
       type: 'error',
       error: error instanceof Error ? error.message : 'Unknown error occurred'
-    })}\n\n`));
+    });
+    jobStore.finish(job.id, 'failed');
   } finally {
-    controller.close();
-  }
-}
-
-// Helper function to call individual models with progress tracking
-async function callModelWithProgress(
-  model: 'gemini' | 'openai' | 'claude',
-  prompt: string,
-  attachments?: FileAttachment[]
-): Promise<ModelResponse> {
-  const startTime = Date.now();
-  
-  try {
-    let content: string;
-    
-    if (model === 'openai') {
-      const { default: OpenAI } = await import('openai');
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
-      
-      const userContent: Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }> = [];
-      userContent.push({ type: 'text', text: prompt });
-      
-      if (attachments && attachments.length > 0) {
-        attachments.forEach((attachment) => {
-          if (attachment.type === 'image') {
-            userContent.push({
-              type: 'image_url',
-              image_url: {
-                url: `data:${attachment.mimeType};base64,${attachment.base64}`
-              }
-            });
-          }
-        });
-      }
-      
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [{ role: 'user', content: userContent }],
-        max_tokens: 4000,
-      });
-      
-      content = completion.choices[0]?.message?.content || 'No response';
-      
-    } else if (model === 'gemini') {
-      const { GoogleGenerativeAI } = await import('@google/generative-ai');
-      const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
-      const geminiModel = genAI.getGenerativeModel({ model: 'gemini-1.5-flash-8b' });
-      
-      const parts: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }> = [];
-      parts.push({ text: prompt });
-      
-      if (attachments && attachments.length > 0) {
-        attachments.forEach((attachment) => {
-          if (attachment.type === 'image') {
-            parts.push({
-              inlineData: {
-                mimeType: attachment.mimeType,
-                data: attachment.base64
-              }
-            });
-          }
-        });
-      }
-      
-      const result = await geminiModel.generateContent(parts);
-      const response = await result.response;
-      content = response.text();
-      
-    } else { // claude
-      const { default: Anthropic } = await import('@anthropic-ai/sdk');
-      const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY! });
-      
-      const messageContent: Array<{ type: 'text'; text: string } | { type: 'image'; source: { type: 'base64'; media_type: 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp'; data: string } }> = [];
-      messageContent.push({ type: 'text', text: prompt });
-      
-      if (attachments && attachments.length > 0) {
-        attachments.forEach((attachment) => {
-          if (attachment.type === 'image') {
-            const mediaType = attachment.mimeType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
-            messageContent.push({
-              type: 'image',
-              source: {
-                type: 'base64',
-                media_type: mediaType,
-                data: attachment.base64
-              }
-            });
-          }
-        });
-      }
-      
-      const response = await anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 4000,
-        messages: [{ role: 'user', content: messageContent }]
-      });
-      
-      content = response.content[0]?.type === 'text' 
-        ? response.content[0].text 
-        : 'No response';
-    }
-    
-    const responseTime = Date.now() - startTime;
-    
-    return {
-      model,
-      content,
-      responseTime
-    };
-  } catch (error) {
-    throw new Error(`${model} API call failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    // Whatever failed above, clients following the job must not be left waiting; a no-op once finished
+    jobStore.finish(job.id, signal.aborted ? 'cancelled' : 'failed');
+    reservation.release();
   }
 }
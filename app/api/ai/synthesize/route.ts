@@ -1,11 +1,18 @@
-import { NextResponse } from 'next/server';
-import { synthesizeWithErrorHandling } from '@/lib/ai/synthesis';
-import { persistentCostTracker } from '@/lib/persistent-cost-tracking';
-import type { ModelResponse, FileAttachment } from '@/types/ai';
+import { NextRequest, NextResponse } from 'next/server';
+import { synthesizeModelResults } from '@/lib/ai/synthesis';
+import { QueryCancelledError } from '@/lib/ai/cancellation';
+import { estimateQueryCost, isAttachmentList, summarizeAttachment } from '@/lib/ai/cost-estimate';
+import { createQueryUsage, costTracker, unansweredCalls } from '@/lib/cost-tracking';
+import { resultStorage } from '@/lib/result-storage';
+import { spendBudget, BudgetExceededError, BudgetUnavailableError, type BudgetReservation } from '@/lib/spend-budget';
+import { resolveUserId, setUserCookie } from '@/lib/user-identity';
+import { providerRegistry, callModel, resolveModelPanel, ModelSelectionError, type ResolvedModel } from '@/lib/ai/providers';
+import { partitionModelResults } from '@/lib/ai/model-errors';
+import type { ModelResult } from '@/types/ai';
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
-    const { prompt, attachments, mode = 'pro' } = await request.json();
+    const { prompt, attachments, mode = 'pro', models } = await request.json();
     
     if (!prompt || typeof prompt !== 'string') {
       return NextResponse.json(
@@ -14,9 +21,35 @@ export async function POST(request: Request) {
       );
     }
 
+    if (mode !== 'basic' && mode !== 'pro') {
+      return NextResponse.json(
+        { error: 'mode must be "basic" or "pro"' },
+        { status: 400 }
+      );
+    }
+
+    if (attachments !== undefined && !isAttachmentList(attachments)) {
+      return NextResponse.json(
+        { error: 'attachments must be an array of base64 files' },
+        { status: 400 }
+      );
+    }
+
+    let panel: ResolvedModel[];
+    try {
+      panel = resolveModelPanel(models);
+    } catch (error) {
+      if (error instanceof ModelSelectionError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
     // Validate environment variables
-    const requiredKeys = ['GOOGLE_API_KEY', 'OPENAI_API_KEY', 'ANTHROPIC_API_KEY'];
-    const missingKeys = requiredKeys.filter(key => !process.env[key]);
+    const missingKeys = providerRegistry.getMissingApiKeys(panel.map(m => m.provider.id));
     
     if (missingKeys.length > 0) {
       return NextResponse.json(
@@ -25,181 +58,148 @@ export async function POST(request: Request) {
       );
     }
 
-    console.log('🚀 Starting synthesis for prompt:', prompt.substring(0, 100) + '...');
-    console.log(`🔧 Using ${mode} mode synthesis`);
+    // Checked before any provider is called, against the same estimate the page shows; the query holds it until its cost is recorded
+    const { userId, isNew } = resolveUserId(request);
+    const estimate = estimateQueryCost(mode, prompt, (attachments ?? []).map(summarizeAttachment), panel);
+    let reservation: BudgetReservation;
+    try {
+      reservation = await spendBudget.reserve(userId, estimate.total);
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        const response = NextResponse.json(
+          { error: error.message, budget: error.status },
+          { status: 402 }
+        );
+        if (isNew) {
+          setUserCookie(response, userId);
+        }
+        return response;
+      }
+      if (error instanceof BudgetUnavailableError) {
+        return NextResponse.json({ error: error.message }, { status: 503 });
+      }
+      throw error;
+    }
 
-    // Call all three models in parallel
-    const modelCalls = [
-      callModel('gemini', prompt, attachments),
-      callModel('openai', prompt, attachments),
-      callModel('claude', prompt, attachments)
-    ];
-    
+    // Spend so far, so a cancelled query is charged only for what actually ran
+    const completedModels: ResolvedModel[] = [];
+    const settled: ModelResult[] = new Array(panel.length); // Panel order; unset while a call is in flight
+    const usage = createQueryUsage();
+    let embeddingsDone = false;
     const startTime = Date.now();
-    const results = await Promise.allSettled(modelCalls);
-    const totalTime = Date.now() - startTime;
-    
-    console.log(`⏱️ All model calls completed in ${totalTime}ms`);
 
-    // Process results and handle failures gracefully
-    const responses: ModelResponse[] = [];
-    
-    results.forEach((result, index) => {
-      const modelName = ['gemini', 'openai', 'claude'][index] as 'gemini' | 'openai' | 'claude';
-      
-      if (result.status === 'fulfilled') {
-        responses.push(result.value);
-        console.log(`✅ ${modelName} succeeded in ${result.value.responseTime}ms`);
-      } else {
-        console.error(`❌ ${modelName} failed:`, result.reason);
-        // Add error response so synthesis can still work with partial data
-        responses.push({
-          model: modelName,
-          content: `Error: ${result.reason?.message || 'Unknown error occurred'}`,
-          responseTime: 0
-        });
-      }
-    });
+    try {
+      console.log('🚀 Starting synthesis for prompt:', prompt.substring(0, 100) + '...');
+      console.log(`🔧 Using ${mode} mode synthesis`);
 
-    // Filter out error responses for synthesis (but keep at least one)
-    const validResponses = responses.filter(r => !r.content.startsWith('Error:'));
-    const responsesToSynthesize = validResponses.length > 0 ? validResponses : responses;
+      // Call every model in the panel in parallel; failures come back as results, not rejections.
+      // Stopping the query aborts the request, which cancels the calls still in flight.
+      const results = await Promise.all(panel.map(async (target, index) => {
+        const result = await callModel(target, prompt, attachments, { signal: request.signal });
+        settled[index] = result;
+        if (result.ok) {
+          completedModels.push(target);
+          if (result.usage) usage.models[result.model] = result.usage;
+        }
+        return result;
+      }));
+      const totalTime = Date.now() - startTime;
     
-    console.log(`🧠 Synthesizing ${responsesToSynthesize.length} responses...`);
+      console.log(`⏱️ All model calls completed in ${totalTime}ms`);
 
-    // Synthesize the responses
-    const analysis = await synthesizeWithErrorHandling(responsesToSynthesize);
-    
-    // Track costs and performance
-    const finalTime = Date.now() - startTime;
-    const cost = persistentCostTracker.trackQuery(mode as 'basic' | 'pro', finalTime);
-    
-    console.log(`✨ Synthesis complete with ${analysis.alignment.overallAlignment} alignment: ${analysis.alignment.description}`);
+      results.forEach(result => {
+        if (result.ok) {
+          console.log(`✅ ${result.model} succeeded in ${result.responseTime}ms`);
+        } else {
+          console.error(`❌ ${result.model} failed (${result.code}):`, result.message);
+        }
+      });
+
+      const { responses, failures } = partitionModelResults(results);
 
-    return NextResponse.json({ 
-      analysis,
-      metadata: {
-        totalTime: finalTime,
-        modelCount: responsesToSynthesize.length,
-        hasErrors: responses.some(r => r.content.startsWith('Error:')),
-        estimatedCost: cost.total
+      if (responses.length === 0) {
+        return NextResponse.json(
+          { error: 'All models failed to respond', failedModels: failures },
+          { status: 502 }
+        );
       }
-    });
-  } catch (error) {
-    console.error('Synthesis endpoint error:', error);
-    return NextResponse.json(
-      { error: 'Failed to synthesize responses' },
-      { status: 500 }
-    );
-  }
-}
+    
+      console.log(`🧠 Synthesizing ${responses.length} responses...`);
 
-async function callModel(
-  model: 'gemini' | 'openai' | 'claude',
-  prompt: string,
-  attachments?: FileAttachment[]
-): Promise<ModelResponse> {
-  const startTime = Date.now();
-  
-  try {
-    let content: string;
+      // Synthesize the responses
+      const analysis = await synthesizeModelResults(responses, failures, {
+        onProgress: ({ stage }) => {
+          if (stage === 'embeddings_done') embeddingsDone = true;
+        },
+        onUsage: (stage, tokens) => usage[stage].push(tokens),
+        signal: request.signal
+      });
     
-    if (model === 'openai') {
-      const { default: OpenAI } = await import('openai');
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
-      
-      const userContent: Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }> = [];
-      userContent.push({ type: 'text', text: prompt });
-      
-      if (attachments && attachments.length > 0) {
-        attachments.forEach((attachment) => {
-          if (attachment.type === 'image') {
-            userContent.push({
-              type: 'image_url',
-              image_url: {
-                url: `data:${attachment.mimeType};base64,${attachment.base64}`
-              }
-            });
-          }
-        });
-      }
-      
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [{ role: 'user', content: userContent }],
-        max_tokens: 4000,
+      // Track costs and performance
+      const finalTime = Date.now() - startTime;
+      // Models that answered at their reported usage; failed calls only for what the provider may have billed
+      const cost = await costTracker.trackQuery(mode, finalTime, completedModels, {
+        usage,
+        userId,
+        estimate: estimate.total,
+        unanswered: unansweredCalls(panel, settled, estimate)
       });
-      
-      content = completion.choices[0]?.message?.content || 'No response';
-      
-    } else if (model === 'gemini') {
-      const { GoogleGenerativeAI } = await import('@google/generative-ai');
-      const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
-      const geminiModel = genAI.getGenerativeModel({ model: 'gemini-1.5-flash-8b' });
-      
-      const parts: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }> = [];
-      parts.push({ text: prompt });
-      
-      if (attachments && attachments.length > 0) {
-        attachments.forEach((attachment) => {
-          if (attachment.type === 'image') {
-            parts.push({
-              inlineData: {
-                mimeType: attachment.mimeType,
-                data: attachment.base64
-              }
-            });
-          }
+    
+      console.log(`✨ Synthesis complete with ${analysis.alignment.overallAlignment} alignment: ${analysis.alignment.description}`);
+
+      // Saved for the user's history; the response carries the analysis either way
+      const resultId = await resultStorage
+        .store(analysis, { userId, mode, prompt, processingTime: finalTime, estimatedCost: cost.total })
+        .catch(error => {
+          console.error('Failed to store synthesis result:', error);
+          return null;
         });
+
+      const response = NextResponse.json({ 
+        analysis,
+        resultId,
+        metadata: {
+          totalTime: finalTime,
+          modelCount: responses.length,
+          hasErrors: failures.length > 0,
+          degraded: analysis.diagnostics?.degraded ?? false,
+          timedOutModels: failures.filter(f => f.code === 'timeout').map(f => f.model),
+          skippedModels: failures.filter(f => f.code === 'circuit_open').map(f => f.model),
+          estimatedCost: cost.total,
+          budgetWarnings: reservation.status.warnings
+        }
+      });
+      if (isNew) {
+        setUserCookie(response, userId);
       }
-      
-      const result = await geminiModel.generateContent(parts);
-      const response = await result.response;
-      content = response.text();
-      
-    } else { // claude
-      const { default: Anthropic } = await import('@anthropic-ai/sdk');
-      const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY! });
-      
-      const messageContent: Array<{ type: 'text'; text: string } | { type: 'image'; source: { type: 'base64'; media_type: 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp'; data: string } }> = [];
-      messageContent.push({ type: 'text', text: prompt });
-      
-      if (attachments && attachments.length > 0) {
-        attachments.forEach((attachment) => {
-          if (attachment.type === 'image') {
-            // Ensure media_type is one of the allowed values
-            const mediaType = attachment.mimeType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
-            messageContent.push({
-              type: 'image',
-              source: {
-                type: 'base64',
-                media_type: mediaType,
-                data: attachment.base64
-              }
-            });
-          }
+      return response;
+    } catch (error) {
+      if (error instanceof QueryCancelledError) {
+        const cost = await costTracker.trackQuery(mode, Date.now() - startTime, completedModels, {
+          embeddings: embeddingsDone,
+          gpt4: false, // Synthesis usage is charged as reported; without streaming there is no earlier sign it began
+          cancelled: true,
+          // Without streaming nothing of their answers arrived, but their input was still billed
+          unanswered: unansweredCalls(panel, settled, estimate),
+          usage,
+          userId,
+          estimate: estimate.total
         });
+        console.log(`🛑 Query cancelled after $${cost.total.toFixed(4)} of spend`);
+        return NextResponse.json(
+          { error: 'Query cancelled' },
+          { status: 499 }
+        );
       }
-      
-      const response = await anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 4000,
-        messages: [{ role: 'user', content: messageContent }]
-      });
-      
-      content = response.content[0]?.type === 'text' 
-        ? response.content[0].text 
-        : 'No response';
+      throw error;
+    } finally {
+      reservation.release();
     }
-    
-    const responseTime = Date.now() - startTime;
-    
-    return {
-      model,
-      content,
-      responseTime
-    };
   } catch (error) {
-    throw new Error(`${model} API call failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.error('Synthesis endpoint error:', error);
+    return NextResponse.json(
+      { error: 'Failed to synthesize responses' },
+      { status: 500 }
+    );
   }
 }
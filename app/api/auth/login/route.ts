@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { resolveUserId, setUserCookie } from '@/lib/user-identity';
 
 export async function POST(request: NextRequest) {
   try {
@@ -26,6 +27,12 @@ export async function POST(request: NextRequest) {
       path: '/'
     });
     
+    // Identifies the owner of shared links across logins
+    const { userId, isNew } = resolveUserId(request);
+    if (isNew) {
+      setUserCookie(response, userId);
+    }
+    
     return response;
     
   } catch (error) {
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { spendBudget } from '@/lib/spend-budget';
+import { getUserId } from '@/lib/user-identity';
+
+// The caller's remaining spend against every configured daily and monthly limit
+export async function GET(request: NextRequest) {
+  try {
+    const status = await spendBudget.getStatus(getUserId(request));
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('Budget error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load budget' },
+      { status: 500 }
+    );
+  }
+}
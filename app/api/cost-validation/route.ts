@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { persistentCostTracker } from '@/lib/persistent-cost-tracking';
+import { costTracker } from '@/lib/cost-tracking';
+import { embeddingCache } from '@/lib/ai/embedding-cache';
+import { PRICE_TABLE_VERSION } from '@/lib/ai/pricing';
 
 export async function GET(request: NextRequest) {
   try {
     // Get performance statistics
-    const stats = persistentCostTracker.getPerformanceStats(7); // Last 7 days
-    const validation = persistentCostTracker.validatePhase1Criteria();
-    const totalCosts = persistentCostTracker.getTotalCosts(30); // Last 30 days
+    const [stats, validation, totalCosts] = await Promise.all([
+      costTracker.getPerformanceStats(7), // Last 7 days
+      costTracker.validatePhase1Criteria(),
+      costTracker.getTotalCosts(30) // Last 30 days
+    ]);
+    const cacheStats = embeddingCache.getStats();
     const recommendations = generateRecommendations(validation, stats);
     
     // Check if request is from browser (wants HTML) or API call (wants JSON)
@@ -15,7 +20,7 @@ export async function GET(request: NextRequest) {
     
     if (wantsHtml) {
       // Return clean HTML dashboard
-      const html = generateHtmlDashboard(validation, stats, totalCosts, recommendations);
+      const html = generateHtmlDashboard(validation, stats, totalCosts, cacheStats, recommendations);
       return new Response(html, {
         headers: { 'Content-Type': 'text/html' }
       });
@@ -34,28 +39,36 @@ export async function GET(request: NextRequest) {
           passed: validation.costPerQuery,
           target: '<$0.15',
           actual: `$${validation.avgCost.toFixed(4)}`,
+          estimated: `$${stats.pro.avgEstimatedCost.toFixed(4)}`,
           status: validation.costPerQuery ? 'PASS' : 'FAIL'
         }
       },
       performanceStats: {
         basic: {
           averageCost: stats.basic.avgCost,
+          averageEstimatedCost: stats.basic.avgEstimatedCost,
           averageTime: Math.round(stats.basic.avgTime / 1000), // Convert to seconds
-          queryCount: stats.basic.count
+          queryCount: stats.basic.count,
+          measuredQueryCount: stats.basic.measuredCount
         },
         pro: {
           averageCost: stats.pro.avgCost,
+          averageEstimatedCost: stats.pro.avgEstimatedCost,
           averageTime: Math.round(stats.pro.avgTime / 1000), // Convert to seconds
-          queryCount: stats.pro.count
+          queryCount: stats.pro.count,
+          measuredQueryCount: stats.pro.measuredCount
         }
       },
       costSummary: {
         last30Days: {
           basic: totalCosts.basic,
           pro: totalCosts.pro,
-          total: totalCosts.total
-        }
+          total: totalCosts.total,
+          estimated: totalCosts.estimated
+        },
+        priceTableVersion: PRICE_TABLE_VERSION
       },
+      embeddingCache: cacheStats,
       recommendations
     });
   } catch (error) {
@@ -68,9 +81,10 @@ export async function GET(request: NextRequest) {
 }
 
 function generateHtmlDashboard(
-  validation: ReturnType<typeof persistentCostTracker.validatePhase1Criteria>,
-  stats: ReturnType<typeof persistentCostTracker.getPerformanceStats>,
-  totalCosts: ReturnType<typeof persistentCostTracker.getTotalCosts>,
+  validation: Awaited<ReturnType<typeof costTracker.validatePhase1Criteria>>,
+  stats: Awaited<ReturnType<typeof costTracker.getPerformanceStats>>,
+  totalCosts: Awaited<ReturnType<typeof costTracker.getTotalCosts>>,
+  cacheStats: ReturnType<typeof embeddingCache.getStats>,
   recommendations: string[]
 ): string {
   return `
@@ -228,8 +242,12 @@ function generateHtmlDashboard(
                     <span class="metric-value">${stats.basic.count}</span>
                 </div>
                 <div class="metric">
-                    <span class="metric-label">Avg Cost</span>
-                    <span class="metric-value">$${stats.basic.avgCost.toFixed(4)}</span>
+                    <span class="metric-label">Avg Cost (actual / estimated)</span>
+                    <span class="metric-value">$${stats.basic.avgCost.toFixed(4)} / $${stats.basic.avgEstimatedCost.toFixed(4)}</span>
+                </div>
+                <div class="metric">
+                    <span class="metric-label">Measured From Tokens</span>
+                    <span class="metric-value">${stats.basic.measuredCount} of ${stats.basic.count}</span>
                 </div>
                 <div class="metric">
                     <span class="metric-label">Avg Time</span>
@@ -244,8 +262,12 @@ function generateHtmlDashboard(
                     <span class="metric-value">${stats.pro.count}</span>
                 </div>
                 <div class="metric">
-                    <span class="metric-label">Avg Cost</span>
-                    <span class="metric-value">$${stats.pro.avgCost.toFixed(4)}</span>
+                    <span class="metric-label">Avg Cost (actual / estimated)</span>
+                    <span class="metric-value">$${stats.pro.avgCost.toFixed(4)} / $${stats.pro.avgEstimatedCost.toFixed(4)}</span>
+                </div>
+                <div class="metric">
+                    <span class="metric-label">Measured From Tokens</span>
+                    <span class="metric-value">${stats.pro.measuredCount} of ${stats.pro.count}</span>
                 </div>
                 <div class="metric">
                     <span class="metric-label">Avg Time</span>
@@ -267,6 +289,30 @@ function generateHtmlDashboard(
                     <span class="metric-label">Total</span>
                     <span class="metric-value">$${totalCosts.total.toFixed(4)}</span>
                 </div>
+                <div class="metric">
+                    <span class="metric-label">Estimated Total</span>
+                    <span class="metric-value">$${totalCosts.estimated.toFixed(4)}</span>
+                </div>
+                <div class="metric">
+                    <span class="metric-label">Price Table</span>
+                    <span class="metric-value">${PRICE_TABLE_VERSION}</span>
+                </div>
+            </div>
+
+            <div class="card">
+                <h3>Embedding Cache (since restart)</h3>
+                <div class="metric">
+                    <span class="metric-label">Hit Rate</span>
+                    <span class="metric-value">${(cacheStats.hitRate * 100).toFixed(1)}%</span>
+                </div>
+                <div class="metric">
+                    <span class="metric-label">Hits / Misses</span>
+                    <span class="metric-value">${cacheStats.hits} / ${cacheStats.misses}</span>
+                </div>
+                <div class="metric">
+                    <span class="metric-label">Cached Entries</span>
+                    <span class="metric-value">${cacheStats.size} / ${cacheStats.maxEntries} (${cacheStats.backend})</span>
+                </div>
             </div>
         </div>
 
@@ -288,8 +334,8 @@ function generateHtmlDashboard(
 }
 
 function generateRecommendations(
-  validation: ReturnType<typeof persistentCostTracker.validatePhase1Criteria>,
-  stats: ReturnType<typeof persistentCostTracker.getPerformanceStats>
+  validation: Awaited<ReturnType<typeof costTracker.validatePhase1Criteria>>,
+  stats: Awaited<ReturnType<typeof costTracker.getPerformanceStats>>
 ): string[] {
   const recommendations: string[] = [];
   
@@ -354,7 +400,7 @@ export async function POST(request: Request) {
       );
     }
     
-    const cost = persistentCostTracker.trackQuery(tier, processingTime);
+    const cost = await costTracker.trackQuery(tier, processingTime);
     
     return NextResponse.json({
       message: 'Query tracked successfully',
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resultStorage } from '@/lib/result-storage';
+import { getUserId } from '@/lib/user-identity';
+
+// A past synthesis from the caller's own history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = getUserId(request);
+
+    const analysis = userId ? await resultStorage.retrieve(id, userId) : null;
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Result not found or expired' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ analysis });
+  } catch (error) {
+    console.error('History retrieval error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve result' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resultStorage } from '@/lib/result-storage';
+import { getUserId } from '@/lib/user-identity';
+import type { AlignmentLevel, HistoryQuery } from '@/types/ai';
+
+const ALIGNMENT_LEVELS: AlignmentLevel[] = ['high', 'moderate', 'low'];
+
+// The caller's past syntheses, newest first: ?q=words&alignment=high&from=ISO&to=ISO&limit=50
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserId(request);
+    if (!userId) {
+      return NextResponse.json({ entries: [] });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const query: HistoryQuery = {
+      search: params.get('q') || undefined,
+      from: params.get('from') || undefined,
+      to: params.get('to') || undefined,
+      limit: params.has('limit') ? Number(params.get('limit')) : undefined
+    };
+
+    const alignment = params.get('alignment');
+    if (alignment) {
+      if (!ALIGNMENT_LEVELS.includes(alignment as AlignmentLevel)) {
+        return NextResponse.json(
+          { error: `alignment must be one of ${ALIGNMENT_LEVELS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      query.alignment = alignment as AlignmentLevel;
+    }
+
+    if ([query.from, query.to].some(date => date && Number.isNaN(Date.parse(date))) ||
+        (query.limit !== undefined && !Number.isInteger(query.limit))) {
+      return NextResponse.json(
+        { error: 'from and to must be dates and limit a whole number' },
+        { status: 400 }
+      );
+    }
+
+    const entries = await resultStorage.listHistory(userId, query);
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('History error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load history' },
+      { status: 500 }
+    );
+  }
+}
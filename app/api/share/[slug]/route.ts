@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { shareStore } from '@/lib/share-store';
+import { getUserId } from '@/lib/user-identity';
+
+// Revokes a shared link; only the browser that created it may do so
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const userId = getUserId(request);
+
+    const outcome = userId ? await shareStore.revoke(slug, userId) : 'forbidden';
+
+    if (outcome === 'not_found') {
+      return NextResponse.json(
+        { error: 'Shared result not found' },
+        { status: 404 }
+      );
+    }
+    if (outcome === 'forbidden') {
+      return NextResponse.json(
+        { error: 'Only the owner can revoke this link' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ slug, revoked: true });
+  } catch (error) {
+    console.error('Share revocation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke shared result' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resultStorage } from '@/lib/result-storage';
+import { shareStore } from '@/lib/share-store';
+import { getUserId } from '@/lib/user-identity';
+
+const MAX_EXPIRY_DAYS = 365;
+
+// Snapshots one of the caller's stored results under an unguessable slug, readable without logging in at /r/[slug]
+export async function POST(request: NextRequest) {
+  try {
+    const { resultId, expiresInDays } = await request.json();
+
+    if (!resultId || typeof resultId !== 'string') {
+      return NextResponse.json(
+        { error: 'resultId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (expiresInDays !== undefined && expiresInDays !== null &&
+        (typeof expiresInDays !== 'number' || expiresInDays <= 0 || expiresInDays > MAX_EXPIRY_DAYS)) {
+      return NextResponse.json(
+        { error: `expiresInDays must be a positive number of days, at most ${MAX_EXPIRY_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    // Only results the server produced for this caller can be published
+    const userId = getUserId(request);
+    const stored = userId ? await resultStorage.retrieveWithPrompt(resultId, userId) : null;
+    if (!userId || !stored) {
+      return NextResponse.json(
+        { error: 'Result not found or expired' },
+        { status: 404 }
+      );
+    }
+
+    const share = await shareStore.create({
+      ownerId: userId,
+      prompt: stored.prompt,
+      analysis: stored.analysis,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : undefined
+    });
+
+    return NextResponse.json({
+      slug: share.slug,
+      url: new URL(`/r/${share.slug}`, request.url).toString(),
+      expiresAt: share.expiresAt ?? null
+    });
+  } catch (error) {
+    console.error('Share creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to share result' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,243 +1,562 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Send, Paperclip, AlertTriangle, Zap, Clock } from 'lucide-react';
+import { Loader2, Send, Square, Paperclip, AlertTriangle, Zap, Clock, Share2, History, X } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeHighlight from 'rehype-highlight';
-import { preprocessMarkdown } from '@/lib/markdown-utils';
-import type { ConsensusAnalysis, FileAttachment } from '@/types/ai';
+import { preprocessMarkdown, markSpans } from '@/lib/markdown-utils';
+import { joinResultParts, type ResultPart } from '@/lib/result-parts';
+import { SimilarityHeatmap } from '@/components/similarity-heatmap';
+import { HistorySidebar } from '@/components/history-sidebar';
+import { describeModelFailure } from '@/lib/ai/model-errors';
+import { providerRegistry, getModelProvider, getModelDisplayName, getDefaultModelSelections, MIN_PANEL_SIZE, MAX_PANEL_SIZE } from '@/lib/ai/providers';
+import { fileToBase64, type AttachmentSummary, type BudgetStatus, type ConsensusAnalysis, type CostEstimate, type FileAttachment, type HistoryEntry, type ModelErrorCode, type ModelFailure, type ModelSelection } from '@/types/ai';
 
 interface QueryItem {
   prompt: string;
   analysis: ConsensusAnalysis;
   showDetails: boolean;
+  resultId?: string; // Stored result, so history can find it again
+  share?: { slug: string; url: string; expiresAt: string | null }; // Set once the owner shares it
 }
 
+// Share link lifetimes offered next to the Share button; '' never expires
+const SHARE_EXPIRY_OPTIONS = [
+  { label: 'Never expires', days: '' },
+  { label: 'Expires in 1 day', days: '1' },
+  { label: 'Expires in 7 days', days: '7' },
+  { label: 'Expires in 30 days', days: '30' }
+];
+
+// localStorage key for the running synthesis job, so a reload can reattach to it
+const ACTIVE_JOB_KEY = 'voiltail-active-job';
+
+// A model answer as it types out over the stream
+interface StreamingAnswer {
+  modelName: string;
+  content: string;
+  done: boolean;
+}
+
+const FAILURE_ICONS: Partial<Record<ModelErrorCode, string>> = {
+  timeout: '⏱️',
+  circuit_open: '⏭️'
+};
+
+const describeFailure = (failure: ModelFailure) =>
+  describeModelFailure(failure, failure.label ?? getModelDisplayName(failure.model));
+
+// When no model answered, say why each one failed
+const allFailedMessage = (error: string, failures?: ModelFailure[]) =>
+  failures?.length ? `${error}. ${failures.map(describeFailure).join(' ')}` : error;
+
 export default function ConsensusPage() {
   const [prompt, setPrompt] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const activeJobRef = useRef<string | null>(null);
   const [conversations, setConversations] = useState<QueryItem[]>([]);
   const [error, setError] = useState<string | null>(null);
-  const [attachments] = useState<FileAttachment[]>([]);
+  const [attachments, setAttachments] = useState<FileAttachment[]>([]);
+  // Read once per attachment, so the live estimate never resends the files themselves
+  const attachmentSummariesRef = useRef(new WeakMap<FileAttachment, AttachmentSummary>());
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [synthesisMode, setSynthesisMode] = useState<'basic' | 'pro'>('pro'); // Default to Pro for testing
+  const [selectedModels, setSelectedModels] = useState<ModelSelection[]>(getDefaultModelSelections);
   const [processingTime, setProcessingTime] = useState<number | null>(null);
   const [estimatedCost, setEstimatedCost] = useState<number | null>(null);
+  const [shareExpiryDays, setShareExpiryDays] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const [costEstimate, setCostEstimate] = useState<CostEstimate | null>(null);
   const [streamingResults, setStreamingResults] = useState<{
     prompt: string;
     progress: number;
     models: Record<string, string>;
+    answers: Record<string, StreamingAnswer>;
+    synthesis: string;
     currentPhase: string;
     showDetails: boolean;
   } | null>(null);
 
+  const isModelSelected = (provider: string, model: string) =>
+    selectedModels.some(m => m.provider === provider && m.model === model);
+
+  const toggleModel = (provider: string, model: string) => {
+    setSelectedModels(prev => isModelSelected(provider, model)
+      ? prev.filter(m => !(m.provider === provider && m.model === model))
+      : prev.length < MAX_PANEL_SIZE ? [...prev, { provider, model }] : prev
+    );
+  };
+
+  const hasEnoughModels = selectedModels.length >= MIN_PANEL_SIZE;
+
+  // Providers never receive attachments they can't read, so only offer documents when a selected model reads them
+  const canReadDocuments = selectedModels.some(m => providerRegistry.get(m.provider)?.capabilities.documents);
+  const ignoredDocuments = canReadDocuments ? [] : attachments.filter(attachment => attachment.type === 'document');
+
+  const handleAttach = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ''; // So picking the same file again still fires a change
+    try {
+      const added = await Promise.all(files.map(async (file): Promise<FileAttachment> => ({
+        type: file.type.startsWith('image/') ? 'image' : 'document',
+        mimeType: file.type || 'text/plain',
+        base64: await fileToBase64(file),
+        filename: file.name
+      })));
+      await summarizeAttachments(added);
+      setAttachments(prev => [...prev, ...added]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read attachment');
+    }
+  };
+
+  // Without a summary the estimate still counts the attachment, from its type and size alone
+  const summarizeAttachments = async (added: FileAttachment[]) => {
+    try {
+      const response = await fetch('/api/ai/estimate/attachments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ attachments: added })
+      });
+      if (response.ok) {
+        const { attachments: summaries } = await response.json() as { attachments: AttachmentSummary[] };
+        added.forEach((attachment, index) => attachmentSummariesRef.current.set(attachment, summaries[index]));
+      }
+    } catch (err) {
+      console.error('Failed to summarize attachments:', err);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!prompt.trim() || isLoading) return;
+    if (!prompt.trim() || isLoading || !hasEnoughModels) return;
 
     const currentPrompt = prompt;
+    const currentAttachments = attachments;
     setPrompt(''); // Clear input immediately
+    setAttachments([]);
     setIsLoading(true);
     setError(null);
     
     const startTime = Date.now();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     try {
       if (synthesisMode === 'pro') {
         // Use streaming for Pro mode
-        await handleStreamingSynthesis(currentPrompt, startTime);
+        await handleStreamingSynthesis(currentPrompt, startTime, abortController.signal);
       } else {
         // Use regular synthesis for Basic mode
-        await handleBasicSynthesis(currentPrompt, startTime);
+        await handleBasicSynthesis(currentPrompt, startTime, abortController.signal);
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
-      setPrompt(currentPrompt); // Restore prompt on error
+      // Stopping is not an error; the server sees the disconnect and cancels its model calls
+      if (!abortController.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      }
+      setStreamingResults(null);
+      setPrompt(currentPrompt); // Restore prompt and attachments on error or stop
+      setAttachments(currentAttachments);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      loadBudget();
+    }
+  };
+
+  // Remaining spend against the daily and monthly limits, refreshed after every query
+  const loadBudget = async () => {
+    try {
+      const response = await fetch('/api/budget');
+      if (response.ok) {
+        setBudget(await response.json());
+      }
+    } catch (err) {
+      console.error('Failed to load budget:', err);
+    }
+  };
+
+  // Warnings a query started with, shown until the budget is next refreshed
+  const showBudgetWarnings = (warnings?: string[]) => {
+    if (warnings?.length) {
+      setBudget(prev => prev && { ...prev, warnings });
+    }
+  };
+
+  const handleStop = () => {
+    // Cancel the server-side job explicitly; a dropped connection alone leaves it time to be reattached
+    const jobId = activeJobRef.current;
+    if (jobId) {
+      fetch(`/api/ai/jobs/${jobId}`, { method: 'DELETE' }).catch(err => console.error('Failed to cancel job:', err));
+      forgetActiveJob();
     }
+    abortControllerRef.current?.abort();
   };
 
-  const handleBasicSynthesis = async (currentPrompt: string, startTime: number) => {
+  const handleBasicSynthesis = async (currentPrompt: string, startTime: number, signal: AbortSignal) => {
     const response = await fetch('/api/ai/synthesize', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ 
         prompt: currentPrompt, 
         attachments,
-        mode: 'basic'
-      })
+        mode: 'basic',
+        models: selectedModels
+      }),
+      signal
     });
 
     const data = await response.json();
 
     if (!response.ok) {
-      throw new Error(data.error || 'Failed to synthesize responses');
+      throw new Error(allFailedMessage(data.error || 'Failed to synthesize responses', data.failedModels));
     }
 
     // Track performance metrics
     const endTime = Date.now();
     const totalTime = endTime - startTime;
     setProcessingTime(totalTime);
-    setEstimatedCost(0.03);
+    setEstimatedCost(data.metadata.estimatedCost ?? null);
+    showBudgetWarnings(data.metadata?.budgetWarnings);
 
     // Add new conversation to the list
     setConversations(prev => [...prev, {
       prompt: currentPrompt,
       analysis: data.analysis,
-      showDetails: false
+      showDetails: false,
+      resultId: data.resultId ?? undefined
     }]);
   };
 
-  const handleStreamingSynthesis = async (currentPrompt: string, startTime: number) => {
+  const handleStreamingSynthesis = async (currentPrompt: string, startTime: number, signal: AbortSignal) => {
     const response = await fetch('/api/ai/synthesize-stream', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ 
         prompt: currentPrompt, 
         attachments,
-        mode: 'pro'
-      })
+        mode: 'pro',
+        models: selectedModels
+      }),
+      signal
     });
 
     if (!response.ok) {
-      throw new Error('Failed to start streaming synthesis');
+      const message = await response.text();
+      throw new Error(message || 'Failed to start streaming synthesis');
     }
 
+    await consumeSynthesisStream(response, currentPrompt, startTime);
+  };
+
+  // Reads a synthesis job's SSE events, whether from a new query or a job reattached after a reload
+  const consumeSynthesisStream = async (response: Response, currentPrompt: string, startTime: number) => {
     const reader = response.body?.getReader();
     const decoder = new TextDecoder();
 
     const streamingResult = {
       prompt: currentPrompt,
       progress: 0,
-      models: {} as Record<string, string>,
+      models: {} as Record<string, string>, // Status line per panel key
+      answers: {} as Record<string, StreamingAnswer>,
+      synthesis: '',
       currentPhase: 'Starting...',
       showDetails: false
     };
 
     setStreamingResults({ ...streamingResult });
 
+    let buffer = '';
+    const resultParts: ResultPart[] = [];
+
     if (reader) {
       try {
         while (true) {
           const { done, value } = await reader.read();
           if (done) break;
 
-          const chunk = decoder.decode(value);
-          const lines = chunk.split('\n');
+          // Events can be split across reads; keep the trailing partial line for the next one
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
 
           for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const data = JSON.parse(line.slice(6));
+            if (!line.startsWith('data: ')) continue;
+
+            let data;
+            try {
+              data = JSON.parse(line.slice(6));
+            } catch (parseError) {
+              console.error('Error parsing streaming data:', parseError);
+              continue;
+            }
                 
-                switch (data.type) {
-                  case 'started':
-                    streamingResult.currentPhase = data.message;
-                    streamingResult.progress = data.progress;
-                    break;
-                    
-                  case 'model_complete':
-                    streamingResult.models[data.modelName] = `✅ ${data.modelName} (${(data.responseTime / 1000).toFixed(1)}s)`;
-                    streamingResult.progress = data.progress;
-                    streamingResult.currentPhase = `${data.modelName} completed`;
-                    break;
-                    
-                  case 'model_error':
-                    streamingResult.models[data.model] = `❌ ${data.model} failed`;
-                    streamingResult.progress = data.progress;
-                    break;
-                    
-                  case 'embeddings_started':
-                    streamingResult.currentPhase = data.message;
-                    streamingResult.progress = data.progress;
-                    break;
-                    
-                  case 'embeddings_progress':
-                    streamingResult.currentPhase = data.message;
-                    streamingResult.progress = data.progress;
-                    break;
-                    
-                  case 'synthesis_started':
-                    streamingResult.currentPhase = data.message;
-                    streamingResult.progress = data.progress;
-                    break;
-                    
-                  case 'synthesis_complete':
-                    // Handle hybrid approach - fetch result from storage
-                    const endTime = Date.now();
-                    const totalTime = endTime - startTime;
-                    setProcessingTime(totalTime);
-                    setEstimatedCost(data.metadata.estimatedCost || 0.09);
-
-                    // Fetch the actual result with retry logic
-                    let retries = 3;
-                    let fetchSuccess = false;
-                    
-                    while (retries > 0 && !fetchSuccess) {
-                      try {
-                        console.log(`Fetching result ${data.resultId}, attempts remaining: ${retries}`);
-                        const resultResponse = await fetch(`/api/ai/synthesis-result/${data.resultId}`);
-                        
-                        if (!resultResponse.ok) {
-                          const errorData = await resultResponse.text();
-                          console.error(`Result fetch failed: ${resultResponse.status} - ${errorData}`);
-                          throw new Error(`Failed to fetch synthesis result: ${resultResponse.status}`);
-                        }
-                        
-                        const resultData = await resultResponse.json();
-                        console.log('Successfully fetched synthesis result');
-                        
-                        // Add new conversation to the list
-                        setConversations(prev => [...prev, {
-                          prompt: currentPrompt,
-                          analysis: resultData.analysis,
-                          showDetails: false
-                        }]);
-                        
-                        fetchSuccess = true;
-                      } catch (fetchError) {
-                        console.error(`Error fetching result (attempt ${4-retries}):`, fetchError);
-                        retries--;
-                        
-                        if (retries > 0) {
-                          // Wait 1 second before retry
-                          await new Promise(resolve => setTimeout(resolve, 1000));
-                        } else {
-                          setError(`Failed to retrieve synthesis result after 3 attempts: ${fetchError instanceof Error ? fetchError.message : 'Unknown error'}`);
-                        }
-                      }
-                    }
-                    
-                    setStreamingResults(null);
-                    return;
-                    
-                  case 'error':
-                    throw new Error(data.error);
-                }
+            switch (data.type) {
+              case 'started':
+                // Remember the job so a reload can reattach to it
+                activeJobRef.current = data.jobId;
+                localStorage.setItem(ACTIVE_JOB_KEY, JSON.stringify({ jobId: data.jobId, prompt: data.prompt }));
+                startTime = data.startedAt ?? startTime;
+                showBudgetWarnings(data.budgetWarnings);
+                streamingResult.currentPhase = data.message;
+                streamingResult.progress = data.progress;
+                break;
                 
-                setStreamingResults({ ...streamingResult });
-              } catch (parseError) {
-                console.error('Error parsing streaming data:', parseError);
+              case 'model_delta': {
+                const answer = streamingResult.answers[data.model] ?? { modelName: data.modelName, content: '', done: false };
+                streamingResult.answers[data.model] = { ...answer, content: answer.content + data.delta };
+                break;
               }
+
+              case 'model_complete':
+                streamingResult.answers[data.model] = { modelName: data.modelName, content: data.content, done: true };
+                streamingResult.models[data.model] = `✅ ${data.modelName} (${(data.responseTime / 1000).toFixed(1)}s)`;
+                streamingResult.progress = data.progress;
+                streamingResult.currentPhase = `${data.modelName} completed`;
+                break;
+                
+              case 'model_error':
+                delete streamingResult.answers[data.model];
+                streamingResult.models[data.model] = `${FAILURE_ICONS[data.code as ModelErrorCode] ?? '❌'} ${describeModelFailure(data, data.modelName)}`;
+                streamingResult.progress = data.progress;
+                break;
+                
+              case 'stage':
+                // Durations cover the work since the previous stage boundary
+                streamingResult.currentPhase = data.durationMs >= 100
+                  ? `${data.message} (${(data.durationMs / 1000).toFixed(1)}s)`
+                  : data.message;
+                streamingResult.progress = data.progress;
+                break;
+
+              case 'synthesis_delta':
+                streamingResult.synthesis += data.delta;
+                break;
+                
+              case 'result_part':
+                resultParts.push(data);
+                continue;
+
+              case 'synthesis_complete':
+                const endTime = Date.now();
+                const totalTime = endTime - startTime;
+                setProcessingTime(totalTime);
+                setEstimatedCost(data.metadata.estimatedCost ?? null);
+                forgetActiveJob();
+
+                // The analysis arrived inline as result_part events; no follow-up fetch needed
+                try {
+                  const analysis = joinResultParts(resultParts);
+                  setConversations(prev => [...prev, {
+                    prompt: currentPrompt,
+                    analysis,
+                    showDetails: false,
+                    resultId: data.resultId ?? undefined
+                  }]);
+                } catch (resultError) {
+                  setError(resultError instanceof Error ? resultError.message : 'Failed to read synthesis result');
+                }
+                
+                setStreamingResults(null);
+                return;
+
+              case 'cancelled':
+                forgetActiveJob();
+                setStreamingResults(null);
+                return;
+                
+              case 'error':
+                forgetActiveJob();
+                setStreamingResults(null);
+                throw new Error(allFailedMessage(data.error, data.failedModels));
             }
+            
+            setStreamingResults({ ...streamingResult });
           }
         }
       } finally {
         reader.releaseLock();
       }
     }
+
+    // Every finished job ends with synthesis_complete, cancelled or error; a stream that closes without
+    // one lost its job (e.g. the server restarted), so it must not sit on the page as if still running
+    forgetActiveJob();
+    setStreamingResults(null);
+    throw new Error('The synthesis stream ended before its result arrived. Please try again.');
+  };
+
+  const forgetActiveJob = () => {
+    activeJobRef.current = null;
+    localStorage.removeItem(ACTIVE_JOB_KEY);
   };
 
+  useEffect(() => {
+    loadBudget();
+  }, []);
+
+  // Live pre-flight estimate for the query as typed, with the selected mode and models
+  useEffect(() => {
+    if (!hasEnoughModels) {
+      setCostEstimate(null);
+      return;
+    }
+
+    // Debounced so typing doesn't fire a request per keystroke
+    const controller = new AbortController();
+    const summaries = attachments.map(attachment => attachmentSummariesRef.current.get(attachment) ?? {
+      type: attachment.type,
+      bytes: Math.floor((attachment.base64.length * 3) / 4)
+    });
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/ai/estimate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ prompt, attachments: summaries, mode: synthesisMode, models: selectedModels }),
+          signal: controller.signal
+        });
+        if (response.ok) {
+          setCostEstimate(await response.json());
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) console.error('Failed to estimate cost:', err);
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [prompt, attachments, synthesisMode, selectedModels, hasEnoughModels]);
+
+  // Reattach to a job that was still running when the page was last closed or reloaded
+  useEffect(() => {
+    const saved = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (!saved) return;
+
+    const { jobId, prompt: jobPrompt } = JSON.parse(saved) as { jobId: string; prompt: string };
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    activeJobRef.current = jobId;
+    setIsLoading(true);
+
+    (async () => {
+      try {
+        // Replay from the start: this page has none of the job's earlier events
+        const response = await fetch(`/api/ai/jobs/${jobId}/events?after=0`, { signal: abortController.signal });
+        if (!response.ok) {
+          // Jobs live in one server's memory; hand the prompt back so it can be run again
+          forgetActiveJob();
+          if (response.status === 404) {
+            setError('The synthesis that was running could not be found on this server, so its progress was lost. Your prompt has been restored.');
+            setPrompt(jobPrompt);
+          }
+          return;
+        }
+        await consumeSynthesisStream(response, jobPrompt, Date.now());
+      } catch (err) {
+        if (!abortController.signal.aborted) {
+          setError(err instanceof Error ? err.message : 'Failed to reattach to synthesis');
+        }
+        setStreamingResults(null);
+      } finally {
+        // A StrictMode remount may already have started a newer reattach
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null;
+          setIsLoading(false);
+        }
+      }
+    })();
+
+    return () => abortController.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   const toggleDetails = (index: number) => {
     setConversations(prev => prev.map((conv, i) => 
       i === index ? { ...conv, showDetails: !conv.showDetails } : conv
     ));
   };
 
+  // Reopens a past synthesis with its details expanded, or expands it if it is already on the page
+  const handleOpenHistoryEntry = async (entry: HistoryEntry) => {
+    setShowHistory(false);
+    if (conversations.some(conv => conv.resultId === entry.id)) {
+      setConversations(prev => prev.map(conv => 
+        conv.resultId === entry.id ? { ...conv, showDetails: true } : conv
+      ));
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/history/${entry.id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to open past synthesis');
+      }
+      setConversations(prev => [...prev, {
+        prompt: entry.prompt,
+        analysis: data.analysis,
+        showDetails: true,
+        resultId: entry.id
+      }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open past synthesis');
+    }
+  };
+
+  const setShare = (index: number, share: QueryItem['share']) => {
+    setConversations(prev => prev.map((conv, i) => 
+      i === index ? { ...conv, share } : conv
+    ));
+  };
+
+  const handleShare = async (index: number) => {
+    const conversation = conversations[index];
+    try {
+      const response = await fetch('/api/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          resultId: conversation.resultId,
+          expiresInDays: shareExpiryDays ? Number(shareExpiryDays) : undefined
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to share result');
+      }
+      setShare(index, data);
+      await navigator.clipboard?.writeText(data.url).catch(() => {});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to share result');
+    }
+  };
+
+  const handleRevokeShare = async (index: number) => {
+    const share = conversations[index].share;
+    if (!share) return;
+    try {
+      const response = await fetch(`/api/share/${share.slug}`, { method: 'DELETE' });
+      // Already gone counts as revoked
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to revoke link');
+      }
+      setShare(index, undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke link');
+    }
+  };
+
 
 
   return (
@@ -252,10 +571,23 @@ export default function ConsensusPage() {
             </div>
             <span className="text-sm text-gray-400 text-center">Convergence and Divergence Synthesizer</span>
           </div>
-          <div></div>
+          <button
+            onClick={() => setShowHistory(prev => !prev)}
+            className="flex items-center gap-1 text-sm text-gray-400 hover:text-white cursor-pointer"
+          >
+            <History className="w-4 h-4" />
+            History
+          </button>
         </div>
       </header>
 
+      <HistorySidebar
+        open={showHistory}
+        onClose={() => setShowHistory(false)}
+        onSelect={handleOpenHistoryEntry}
+        refreshKey={conversations.length}
+      />
+
       {/* Main Content - Scrollable */}
       <div className="flex-1 overflow-y-auto">
         <div className="max-w-4xl mx-auto p-6 pb-32">
@@ -286,6 +618,25 @@ export default function ConsensusPage() {
 
               {/* Consensus Result - Matching updated_design.html */}
               <div className="max-w-4xl mx-auto text-center">
+                {/* Degraded Result Banner */}
+                {conversation.analysis.diagnostics?.degraded && (
+                  <div className="flex items-start gap-3 p-4 mb-8 bg-amber-500/10 border border-amber-500/40 rounded-lg text-left">
+                    <AlertTriangle className="w-5 h-5 text-amber-400 shrink-0 mt-0.5" />
+                    <div className="text-sm">
+                      <div className="font-medium text-amber-300">Degraded result</div>
+                      <ul className="mt-1 space-y-0.5 text-gray-300">
+                        {conversation.analysis.diagnostics.stages
+                          .filter(stage => stage.status === 'fallback' || stage.status === 'failed')
+                          .map(stage => (
+                            <li key={stage.stage} title={stage.error}>
+                              <span className="text-gray-400">{stage.stage.replace('_', ' ')}:</span> {stage.detail ?? stage.status}
+                            </li>
+                          ))}
+                      </ul>
+                    </div>
+                  </div>
+                )}
+
                 {/* Agreement Indicator */}
                 <div className="inline-flex items-center gap-2 px-4 py-2 bg-gray-800/30 rounded-full border border-gray-600 mb-8">
                   <span className="text-sm text-gray-300">Agreement Level</span>
@@ -298,6 +649,11 @@ export default function ConsensusPage() {
                   <span className="text-sm font-medium text-white">
                     {Math.round(conversation.analysis.alignment.semantic * 100)}%
                   </span>
+                  {conversation.analysis.alignment.embeddingBackend === 'local' && (
+                    <span className="text-xs text-gray-500" title="Scored with local word-overlap embeddings because OpenAI embeddings were unavailable">
+                      (offline estimate)
+                    </span>
+                  )}
                 </div>
 
                 {/* Primary Consensus - Large and Prominent */}
@@ -317,10 +673,61 @@ export default function ConsensusPage() {
                   {conversation.analysis.alignedPoints && conversation.analysis.alignedPoints.length > 0 && (
                     conversation.analysis.alignedPoints.map((point, index) => (
                       <div key={index} className="p-4 bg-gray-800/20 rounded-lg border border-gray-700/50 text-left hover:bg-gray-800/30 transition-colors">
-                        <strong className="text-green-400">High Agreement:</strong> <span className="text-gray-300">{point.content}</span>
+                        <strong className="text-green-400">{point.strength >= 0.7 ? 'High Agreement:' : 'Agreement:'}</strong> <span className="text-gray-300">{point.content}</span>
+                        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-500">
+                          {point.models.map(model => (
+                            <span key={model} className="flex items-center gap-1" title={point.sources?.find(source => source.model === model)?.text}>
+                              <span
+                                className="w-2 h-2 rounded-full"
+                                style={{ backgroundColor: getModelProvider(model)?.color ?? '#9CA3AF' }}
+                              />
+                              {getModelDisplayName(model)}
+                            </span>
+                          ))}
+                          <span>• {Math.round(point.strength * 100)}% strength</span>
+                        </div>
                       </div>
                     ))
                   )}
+
+                  {/* Models That Failed To Answer */}
+                  {conversation.analysis.failedModels?.map(failure => (
+                    <div key={`failed-${failure.model}`} className="p-4 bg-gray-800/20 rounded-lg border border-red-500/40 text-left">
+                      <strong className="text-red-400">{failure.retryable ? 'Unavailable:' : 'Failed:'}</strong> <span className="text-gray-300">{describeFailure(failure)}</span>
+                      <div className="mt-2 text-xs text-gray-500" title={failure.message}>
+                        Left out of this synthesis • {failure.code.replace(/_/g, ' ')}{failure.httpStatus ? ` (HTTP ${failure.httpStatus})` : ''}
+                      </div>
+                    </div>
+                  ))}
+
+                  {/* Where Models Contradicted Each Other */}
+                  {conversation.analysis.divergentSections?.filter(section => section.kind === 'substantive').map((section, index) => (
+                    <div key={`substantive-${index}`} className="p-4 bg-gray-800/20 rounded-lg border border-amber-500/40 text-left">
+                      <strong className="text-amber-400">Disagreement:</strong> <span className="text-gray-300">{section.description}</span>
+                      <div className="mt-3 space-y-2">
+                        {section.positions.map(position => (
+                          <div key={position.model} className="flex items-start gap-2 text-sm">
+                            <span
+                              className="w-2 h-2 mt-1.5 rounded-full shrink-0"
+                              style={{ backgroundColor: getModelProvider(position.model)?.color ?? '#9CA3AF' }}
+                            />
+                            <span className="text-gray-400 shrink-0">{getModelDisplayName(position.model)}:</span>
+                            <span className="text-gray-300 italic">&ldquo;{position.text}&rdquo;</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+
+                  {/* Stylistic differences are secondary */}
+                  {conversation.analysis.divergentSections?.some(section => section.kind !== 'substantive') && (
+                    <div className="text-xs text-gray-500 text-left">
+                      Style differences: {conversation.analysis.divergentSections
+                        .filter(section => section.kind !== 'substantive')
+                        .map(section => section.topic)
+                        .join(' • ')}
+                    </div>
+                  )}
                 </div>
 
                 {/* Full Synthesis Content */}
@@ -347,6 +754,59 @@ export default function ConsensusPage() {
                   </ReactMarkdown>
                 </div>
 
+                {/* Share Link */}
+                <div className="flex flex-wrap items-center justify-center gap-2 mb-6 text-sm">
+                  {conversation.share ? (
+                    <>
+                      <input
+                        readOnly
+                        value={conversation.share.url}
+                        onFocus={e => e.target.select()}
+                        className="w-80 bg-gray-800/50 border border-gray-700 rounded px-2 py-1 text-gray-300 text-xs"
+                        aria-label="Share link"
+                      />
+                      <button
+                        className="text-cyan-400 hover:text-cyan-300 cursor-pointer"
+                        onClick={() => navigator.clipboard?.writeText(conversation.share!.url)}
+                      >
+                        Copy
+                      </button>
+                      <button
+                        className="text-red-400 hover:text-red-300 cursor-pointer"
+                        onClick={() => handleRevokeShare(conversationIndex)}
+                      >
+                        Revoke
+                      </button>
+                      {conversation.share.expiresAt && (
+                        <span className="text-xs text-gray-500">
+                          expires {new Date(conversation.share.expiresAt).toLocaleDateString()}
+                        </span>
+                      )}
+                    </>
+                  ) : conversation.resultId && (
+                    // Only results the server stored can be shared
+                    <>
+                      <select
+                        value={shareExpiryDays}
+                        onChange={e => setShareExpiryDays(e.target.value)}
+                        className="bg-gray-800/50 border border-gray-700 rounded px-2 py-1 text-gray-300 text-xs"
+                        aria-label="Share link expiry"
+                      >
+                        {SHARE_EXPIRY_OPTIONS.map(option => (
+                          <option key={option.days} value={option.days}>{option.label}</option>
+                        ))}
+                      </select>
+                      <button
+                        className="flex items-center gap-1 text-cyan-400 hover:text-cyan-300 cursor-pointer"
+                        onClick={() => handleShare(conversationIndex)}
+                      >
+                        <Share2 className="w-4 h-4" />
+                        Share
+                      </button>
+                    </>
+                  )}
+                </div>
+
                 {/* View Individual Reasoning Toggle */}
                 <div className="text-center mb-6">
                   <button 
@@ -360,13 +820,46 @@ export default function ConsensusPage() {
                 {/* Model Details */}
                 {conversation.showDetails && (
                   <div className="space-y-4 text-left">
+                    {/* Score Confidence */}
+                    {conversation.analysis.diagnostics && (
+                      <div className="flex flex-wrap gap-2 text-xs">
+                        {Object.entries(conversation.analysis.diagnostics.confidence).map(([score, level]) => (
+                          <span key={score} className="px-2 py-1 rounded bg-gray-800/50 border border-gray-700 text-gray-400">
+                            {score.replace(/([A-Z])/g, ' $1').toLowerCase()}: <span className={level === 'high' ? 'text-green-400' : level === 'medium' ? 'text-cyan-300' : 'text-amber-400'}>{level}</span>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Pairwise Similarity Heatmap */}
+                    {conversation.analysis.alignment.similarityMatrix?.models.length > 1 && (
+                      <div className="bg-gray-800/30 border border-gray-700 rounded-lg p-4">
+                        <div className="text-sm font-medium text-white mb-3">
+                          Pairwise Similarity
+                          {conversation.analysis.alignment.embeddingBackend && (
+                            <span className="ml-2 text-xs font-normal text-gray-500">
+                              {conversation.analysis.alignment.embeddingBackend === 'local' ? 'local embeddings' : 'OpenAI embeddings'}
+                            </span>
+                          )}
+                        </div>
+                        <SimilarityHeatmap
+                          matrix={conversation.analysis.alignment.similarityMatrix}
+                          labels={Object.fromEntries(
+                            conversation.analysis.originalResponses
+                              .filter(r => r.label)
+                              .map(r => [r.model, r.label as string])
+                          )}
+                        />
+                      </div>
+                    )}
+
                     {conversation.analysis.originalResponses.map((response, index: number) => {
-                      const modelConfig = {
-                        gemini: { color: '#4285F4', name: 'Gemini' },
-                        openai: { color: '#10A37F', name: 'ChatGPT' },
-                        claude: { color: '#F97316', name: 'Claude' }
+                      const provider = getModelProvider(response.model);
+                      const config = {
+                        color: provider?.color ?? '#9CA3AF',
+                        name: response.label ?? provider?.displayName ?? response.model
                       };
-                      const config = modelConfig[response.model as keyof typeof modelConfig];
+                      const unverified = conversation.analysis.unverifiedClaims?.filter(claim => claim.model === response.model) ?? [];
                       
                       return (
                         <div key={index} className="bg-gray-800/30 border border-gray-700 rounded-lg p-4">
@@ -376,6 +869,16 @@ export default function ConsensusPage() {
                               style={{ backgroundColor: config.color }}
                             />
                             <span className="font-medium text-white">{config.name}</span>
+                            {conversation.analysis.alignment.models?.[response.model] && (
+                              <span className="text-xs text-gray-400">
+                                {conversation.analysis.alignment.models[response.model]} alignment
+                              </span>
+                            )}
+                            {unverified.length > 0 && (
+                              <span className="text-xs text-amber-400" title="Figures, dates or names no other model mentioned">
+                                • {unverified.length} to double-check
+                              </span>
+                            )}
                           </div>
                           <div className="text-sm text-gray-300 leading-relaxed prose prose-invert prose-sm max-w-none">
                             <ReactMarkdown
@@ -392,10 +895,13 @@ export default function ConsensusPage() {
                                 strong: ({children}) => <strong className="text-white font-semibold">{children}</strong>,
                                 em: ({children}) => <em className="text-cyan-300">{children}</em>,
                                 code: ({children}) => <code className="bg-gray-800 text-cyan-300 px-1 py-0.5 rounded text-xs">{children}</code>,
-                                pre: ({children}) => <pre className="bg-gray-800 p-2 rounded text-xs overflow-x-auto mb-2">{children}</pre>
+                                pre: ({children}) => <pre className="bg-gray-800 p-2 rounded text-xs overflow-x-auto mb-2">{children}</pre>,
+                                a: ({href, children}) => href === '#unverified'
+                                  ? <mark className="bg-amber-500/20 text-amber-200 rounded px-0.5" title="Only this model states this — verify it independently">{children}</mark>
+                                  : <a href={href} className="text-cyan-400 underline" target="_blank" rel="noreferrer">{children}</a>
                               }}
                             >
-                              {response.content}
+                              {markSpans(response.content, unverified, '#unverified')}
                             </ReactMarkdown>
                           </div>
                         </div>
@@ -448,6 +954,38 @@ export default function ConsensusPage() {
                     </div>
                   )}
                   
+                  {/* Live Answers */}
+                  {Object.keys(streamingResults.answers).length > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      {Object.entries(streamingResults.answers).map(([model, answer]) => (
+                        <div key={model} className="bg-gray-800/30 border border-gray-700 rounded-lg p-3 max-h-64 overflow-y-auto">
+                          <div className="flex items-center gap-2 mb-2">
+                            <div
+                              className="w-2 h-2 rounded-full"
+                              style={{ backgroundColor: getModelProvider(model)?.color ?? '#9CA3AF' }}
+                            />
+                            <span className="text-xs font-medium text-white">{answer.modelName}</span>
+                            {!answer.done && <Loader2 className="w-3 h-3 animate-spin text-gray-500" />}
+                          </div>
+                          <div className="text-xs text-gray-300 leading-relaxed prose prose-invert prose-sm max-w-none">
+                            <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                              {answer.content}
+                            </ReactMarkdown>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Live Unified Response */}
+                  {streamingResults.synthesis && (
+                    <div className="text-left prose prose-invert max-w-none text-gray-300 leading-relaxed">
+                      <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                        {preprocessMarkdown(streamingResults.synthesis)}
+                      </ReactMarkdown>
+                    </div>
+                  )}
+
                   {/* Phase Indicators */}
                   <div className="flex items-center gap-4 text-xs text-gray-500">
                     <div className={`flex items-center gap-1 ${streamingResults.progress > 0 ? 'text-cyan-400' : ''}`}>
@@ -458,8 +996,8 @@ export default function ConsensusPage() {
                       <div className={`w-2 h-2 rounded-full ${streamingResults.progress > 60 ? 'bg-cyan-400' : 'bg-gray-600'}`} />
                       <span>Embeddings</span>
                     </div>
-                    <div className={`flex items-center gap-1 ${streamingResults.progress > 80 ? 'text-cyan-400' : ''}`}>
-                      <div className={`w-2 h-2 rounded-full ${streamingResults.progress > 80 ? 'bg-cyan-400' : 'bg-gray-600'}`} />
+                    <div className={`flex items-center gap-1 ${streamingResults.progress >= 85 ? 'text-cyan-400' : ''}`}>
+                      <div className={`w-2 h-2 rounded-full ${streamingResults.progress >= 85 ? 'bg-cyan-400' : 'bg-gray-600'}`} />
                       <span>GPT-4 Synthesis</span>
                     </div>
                   </div>
@@ -474,7 +1012,7 @@ export default function ConsensusPage() {
               <Card className="bg-gray-900/50 border-gray-700 p-6">
                 <div className="flex items-center gap-3 text-gray-400">
                   <Loader2 className="w-5 h-5 animate-spin" />
-                  <span>Synthesizing responses from 3 AI models...</span>
+                  <span>Synthesizing responses from {selectedModels.length} AI models...</span>
                 </div>
               </Card>
             </div>
@@ -530,12 +1068,14 @@ export default function ConsensusPage() {
                       <span>~${estimatedCost.toFixed(3)}</span>
                     </div>
                   )}
-                  <div className="text-xs">
-                    {synthesisMode === 'basic' 
-                      ? 'Fast synthesis • ~$0.03/query' 
-                      : 'Advanced synthesis • ~$0.09/query'
-                    }
-                  </div>
+                  {budget && budget.limits.some(limit => limit.scope === 'user') && (
+                    <div className="text-xs">
+                      {budget.limits
+                        .filter(limit => limit.scope === 'user')
+                        .map(limit => `$${limit.remaining.toFixed(2)} left ${limit.period === 'daily' ? 'today' : 'this month'}`)
+                        .join(' • ')}
+                    </div>
+                  )}
                 </div>
               </div>
             </Card>
@@ -562,55 +1102,135 @@ export default function ConsensusPage() {
                     rows={3}
                     disabled={isLoading}
                   />
-                  <div className="flex justify-start mt-2">
+                  {attachments.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {attachments.map((attachment, index) => (
+                        <span
+                          key={`${attachment.filename}-${index}`}
+                          className="flex items-center gap-1 bg-gray-700 rounded px-2 py-0.5 text-xs text-gray-300"
+                        >
+                          {attachment.filename}
+                          <button
+                            type="button"
+                            className="text-gray-400 hover:text-white cursor-pointer"
+                            onClick={() => setAttachments(prev => prev.filter((_, i) => i !== index))}
+                            aria-label={`Remove ${attachment.filename}`}
+                            disabled={isLoading}
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {ignoredDocuments.length > 0 && (
+                    <div className="flex items-center gap-1 mt-2 text-xs text-yellow-500">
+                      <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                      No selected model can read documents; {ignoredDocuments.map(attachment => attachment.filename).join(', ')} will be ignored
+                    </div>
+                  )}
+                  <div className="flex justify-between items-center mt-2">
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      multiple
+                      accept={canReadDocuments ? 'image/*,application/pdf,text/*' : 'image/*'}
+                      onChange={handleAttach}
+                      className="hidden"
+                    />
                     <Button
                       type="button"
                       variant="ghost"
                       size="sm"
                       className="text-gray-400 hover:text-white p-1"
+                      onClick={() => fileInputRef.current?.click()}
                       disabled={isLoading}
+                      aria-label="Attach files"
                     >
                       <Paperclip className="w-4 h-4" />
                     </Button>
+                    {costEstimate && (
+                      <span
+                        className="text-xs text-gray-400"
+                        title={costEstimate.lines.map(line => `${line.label}: ~$${line.cost.toFixed(4)}`).join('\n')}
+                      >
+                        Estimated ~${costEstimate.total.toFixed(3)}
+                        {costEstimate.attachmentTokens > 0 && ` (attachments +${costEstimate.attachmentTokens.toLocaleString()} tokens)`}
+                      </span>
+                    )}
                   </div>
                 </div>
                 
-                <Button
-                  type="submit"
-                  disabled={!prompt.trim() || isLoading}
-                  className="bg-cyan-600 hover:bg-cyan-700 text-black font-medium px-4 py-2"
-                >
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Synthesizing...
-                    </>
-                  ) : (
-                    <>
-                      <Send className="w-4 h-4 mr-2" />
-                      Synthesize
-                    </>
-                  )}
-                </Button>
+                {isLoading ? (
+                  <Button
+                    type="button"
+                    onClick={handleStop}
+                    className="bg-gray-600 hover:bg-gray-500 text-white font-medium px-4 py-2"
+                  >
+                    <Square className="w-4 h-4 mr-2" />
+                    Stop
+                  </Button>
+                ) : (
+                  <Button
+                    type="submit"
+                    disabled={!prompt.trim() || !hasEnoughModels}
+                    className="bg-cyan-600 hover:bg-cyan-700 text-black font-medium px-4 py-2"
+                  >
+                    <Send className="w-4 h-4 mr-2" />
+                    Synthesize
+                  </Button>
+                )}
               </div>
             </div>
             
-            <div className="flex justify-left gap-3">
-              <Badge variant="outline" className="text-blue-400 border-blue-400/30 text-xs">
-                <div className="w-2 h-2 bg-blue-400 rounded-full mr-1" />
-                Gemini 1.5 Flash
-              </Badge>
-              <Badge variant="outline" className="text-green-400 border-green-400/30 text-xs">
-                <div className="w-2 h-2 bg-green-400 rounded-full mr-1" />
-                ChatGPT 4o
-              </Badge>
-              <Badge variant="outline" className="text-orange-400 border-orange-400/30 text-xs">
-                <div className="w-2 h-2 bg-orange-400 rounded-full mr-1" />
-                Claude Sonnet 4
-              </Badge>
+            {/* Model Picker */}
+            <div className="space-y-2">
+              <div className="flex flex-wrap justify-left gap-2">
+                {providerRegistry.list().flatMap(provider => provider.models.map(option => {
+                  const selected = isModelSelected(provider.id, option.id);
+                  return (
+                    <button
+                      key={`${provider.id}:${option.id}`}
+                      type="button"
+                      onClick={() => toggleModel(provider.id, option.id)}
+                      disabled={isLoading}
+                      aria-pressed={selected}
+                      className="focus:outline-none"
+                    >
+                      <Badge
+                        variant="outline"
+                        className={`text-xs cursor-pointer transition-opacity ${selected ? '' : 'opacity-40 hover:opacity-70'}`}
+                        style={selected
+                          ? { color: provider.color, borderColor: `${provider.color}4D` }
+                          : { color: '#9CA3AF', borderColor: '#4B5563' }
+                        }
+                      >
+                        <div
+                          className="w-2 h-2 rounded-full mr-1"
+                          style={{ backgroundColor: selected ? provider.color : '#4B5563' }}
+                        />
+                        {option.label}
+                      </Badge>
+                    </button>
+                  );
+                }))}
+              </div>
+              {!hasEnoughModels && (
+                <p className="text-xs text-amber-400">
+                  Select at least {MIN_PANEL_SIZE} models to compare.
+                </p>
+              )}
             </div>
           </form>
 
+          {budget && budget.warnings.length > 0 && (
+            <div className="mt-4 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+              {budget.warnings.map(warning => (
+                <p key={warning} className="text-amber-400 text-sm">{warning}</p>
+              ))}
+            </div>
+          )}
+
           {error && (
             <div className="mt-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
               <p className="text-red-400 text-sm">{error}</p>
@@ -0,0 +1,131 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import { preprocessMarkdown } from '@/lib/markdown-utils';
+import { shareStore } from '@/lib/share-store';
+import { describeModelFailure } from '@/lib/ai/model-errors';
+import { getModelProvider, getModelDisplayName } from '@/lib/ai/providers';
+import { SimilarityHeatmap } from '@/components/similarity-heatmap';
+
+// Public, read-only view of a shared synthesis; middleware lets /r/* through without a login
+
+interface SharedResultPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export async function generateMetadata({ params }: SharedResultPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const share = await shareStore.get(slug);
+  return {
+    title: share ? `${share.prompt.substring(0, 60)} | Voiltail` : 'Voiltail',
+    robots: { index: false, follow: false }
+  };
+}
+
+export default async function SharedResultPage({ params }: SharedResultPageProps) {
+  const { slug } = await params;
+  const share = await shareStore.get(slug);
+
+  if (!share) {
+    notFound();
+  }
+
+  const { analysis } = share;
+  const modelName = (model: string) =>
+    analysis.originalResponses.find(response => response.model === model)?.label ?? getModelDisplayName(model);
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="max-w-4xl mx-auto px-6 py-10">
+        <div className="flex items-center justify-between mb-10 text-sm text-gray-500">
+          <Link href="/" className="font-medium text-gray-300 hover:text-white">Voiltail</Link>
+          <span>
+            Shared {new Date(share.createdAt).toLocaleDateString()}
+            {share.expiresAt && ` • expires ${new Date(share.expiresAt).toLocaleDateString()}`}
+          </span>
+        </div>
+
+        <div className="text-sm text-gray-400 mb-2">Prompt</div>
+        <div className="text-lg text-gray-200 mb-8 whitespace-pre-wrap">{share.prompt}</div>
+
+        <div className="inline-flex items-center gap-2 px-4 py-2 bg-gray-800/30 rounded-full border border-gray-600 mb-8">
+          <span className="text-sm text-gray-300">Agreement Level</span>
+          <span className="text-sm font-medium text-white">{Math.round(analysis.alignment.semantic * 100)}%</span>
+          <span className="text-xs text-gray-500">{analysis.alignment.description}</span>
+        </div>
+
+        <div className="flex flex-col gap-4 mb-8">
+          {analysis.alignedPoints.map((point, index) => (
+            <div key={index} className="p-4 bg-gray-800/20 rounded-lg border border-gray-700/50">
+              <strong className="text-green-400">{point.strength >= 0.7 ? 'High Agreement:' : 'Agreement:'}</strong>{' '}
+              <span className="text-gray-300">{point.content}</span>
+              <div className="mt-2 text-xs text-gray-500">{point.models.map(modelName).join(' • ')}</div>
+            </div>
+          ))}
+
+          {analysis.failedModels?.map(failure => (
+            <div key={`failed-${failure.model}`} className="p-4 bg-gray-800/20 rounded-lg border border-red-500/40">
+              <strong className="text-red-400">Not included:</strong>{' '}
+              <span className="text-gray-300">{describeModelFailure(failure, failure.label ?? getModelDisplayName(failure.model))}</span>
+            </div>
+          ))}
+
+          {analysis.divergentSections.filter(section => section.kind === 'substantive').map((section, index) => (
+            <div key={`substantive-${index}`} className="p-4 bg-gray-800/20 rounded-lg border border-amber-500/40">
+              <strong className="text-amber-400">Disagreement:</strong> <span className="text-gray-300">{section.description}</span>
+              <div className="mt-3 space-y-2">
+                {section.positions.map(position => (
+                  <div key={position.model} className="text-sm">
+                    <span className="text-gray-400">{modelName(position.model)}:</span>{' '}
+                    <span className="text-gray-300 italic">&ldquo;{position.text}&rdquo;</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="prose prose-invert max-w-none text-gray-300 leading-relaxed mb-10">
+          <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeHighlight]}>
+            {preprocessMarkdown(analysis.unifiedResponse)}
+          </ReactMarkdown>
+        </div>
+
+        {analysis.alignment.similarityMatrix?.models.length > 1 && (
+          <div className="bg-gray-800/30 border border-gray-700 rounded-lg p-4 mb-6">
+            <div className="text-sm font-medium text-white mb-3">Pairwise Similarity</div>
+            <SimilarityHeatmap
+              matrix={analysis.alignment.similarityMatrix}
+              labels={Object.fromEntries(analysis.originalResponses.map(response => [response.model, modelName(response.model)]))}
+            />
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {analysis.originalResponses.map(response => (
+            <details key={response.model} className="bg-gray-800/30 border border-gray-700 rounded-lg p-4">
+              <summary className="flex items-center gap-2 cursor-pointer">
+                <span
+                  className="w-3 h-3 rounded-full"
+                  style={{ backgroundColor: getModelProvider(response.model)?.color ?? '#9CA3AF' }}
+                />
+                <span className="font-medium text-white">{modelName(response.model)}</span>
+                {analysis.alignment.models?.[response.model] && (
+                  <span className="text-xs text-gray-400">{analysis.alignment.models[response.model]} alignment</span>
+                )}
+              </summary>
+              <div className="mt-3 text-sm prose prose-invert prose-sm max-w-none">
+                <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeHighlight]}>
+                  {response.content}
+                </ReactMarkdown>
+              </div>
+            </details>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
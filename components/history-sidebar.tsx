@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, Search, X } from "lucide-react";
+import type { AlignmentLevel, HistoryEntry } from "@/types/ai";
+
+interface HistorySidebarProps {
+  open: boolean;
+  onClose: () => void;
+  onSelect: (entry: HistoryEntry) => void;
+  refreshKey: number; // Changes whenever a new synthesis may have been saved
+}
+
+const ALIGNMENT_COLORS: Record<AlignmentLevel, string> = {
+  high: "text-green-400",
+  moderate: "text-cyan-300",
+  low: "text-amber-400",
+};
+
+// Date inputs give local calendar days; the API wants inclusive ISO bounds
+const dayStart = (day: string) => new Date(`${day}T00:00:00`).toISOString();
+const dayEnd = (day: string) => new Date(`${day}T23:59:59.999`).toISOString();
+
+export function HistorySidebar({ open, onClose, onSelect, refreshKey }: HistorySidebarProps) {
+  const [search, setSearch] = useState("");
+  const [alignment, setAlignment] = useState<AlignmentLevel | "">("");
+  const [fromDay, setFromDay] = useState("");
+  const [toDay, setToDay] = useState("");
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const params = new URLSearchParams();
+    if (search.trim()) params.set("q", search.trim());
+    if (alignment) params.set("alignment", alignment);
+    if (fromDay) params.set("from", dayStart(fromDay));
+    if (toDay) params.set("to", dayEnd(toDay));
+
+    // Debounced so typing a search doesn't fire a request per keystroke
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/history?${params}`, { signal: controller.signal });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load history");
+        }
+        setEntries(data.entries);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Failed to load history");
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [open, search, alignment, fromDay, toDay, refreshKey]);
+
+  if (!open) {
+    return null;
+  }
+
+  return (
+    <aside className="fixed inset-y-0 left-0 z-40 w-80 bg-gray-950 border-r border-gray-800 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-800">
+        <span className="font-medium">History</span>
+        <button onClick={onClose} className="text-gray-400 hover:text-white cursor-pointer" aria-label="Close history">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-2 border-b border-gray-800 text-xs">
+        <div className="flex items-center gap-2 bg-gray-800/50 border border-gray-700 rounded px-2">
+          <Search className="w-3 h-3 text-gray-500" />
+          <input
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Search prompts and answers"
+            className="flex-1 bg-transparent py-1.5 text-sm text-gray-200 outline-none"
+          />
+        </div>
+        <select
+          value={alignment}
+          onChange={e => setAlignment(e.target.value as AlignmentLevel | "")}
+          className="w-full bg-gray-800/50 border border-gray-700 rounded px-2 py-1 text-gray-300"
+          aria-label="Alignment"
+        >
+          <option value="">Any alignment</option>
+          <option value="high">High alignment</option>
+          <option value="moderate">Moderate alignment</option>
+          <option value="low">Low alignment</option>
+        </select>
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={fromDay}
+            onChange={e => setFromDay(e.target.value)}
+            className="flex-1 bg-gray-800/50 border border-gray-700 rounded px-2 py-1 text-gray-300"
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            value={toDay}
+            onChange={e => setToDay(e.target.value)}
+            className="flex-1 bg-gray-800/50 border border-gray-700 rounded px-2 py-1 text-gray-300"
+            aria-label="To date"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {loading && entries.length === 0 && (
+          <div className="flex justify-center p-6">
+            <Loader2 className="w-4 h-4 animate-spin text-gray-500" />
+          </div>
+        )}
+        {error && <div className="p-4 text-sm text-red-400">{error}</div>}
+        {!loading && !error && entries.length === 0 && (
+          <div className="p-4 text-sm text-gray-500">No past syntheses match.</div>
+        )}
+        {entries.map(entry => (
+          <button
+            key={entry.id}
+            onClick={() => onSelect(entry)}
+            className="w-full text-left px-4 py-3 border-b border-gray-800/60 hover:bg-gray-800/40 cursor-pointer"
+          >
+            <div className="text-sm text-gray-200 line-clamp-2">{entry.prompt}</div>
+            <div className="mt-1 flex gap-2 text-xs text-gray-500">
+              <span>{new Date(entry.createdAt).toLocaleString()}</span>
+              <span className={ALIGNMENT_COLORS[entry.alignment]}>{entry.alignment}</span>
+            </div>
+          </button>
+        ))}
+      </div>
+    </aside>
+  );
+}
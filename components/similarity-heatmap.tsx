@@ -0,0 +1,60 @@
+"use client";
+
+import { getModelDisplayName } from "@/lib/ai/providers";
+import type { SimilarityMatrix } from "@/types/ai";
+
+interface SimilarityHeatmapProps {
+  matrix: SimilarityMatrix;
+  labels?: Record<string, string>;
+}
+
+// Cyan intensity scales with similarity; the diagonal is dimmed since it is always 100%
+const cellStyle = (score: number, isDiagonal: boolean) => ({
+  backgroundColor: isDiagonal
+    ? "rgba(75, 85, 99, 0.3)"
+    : `rgba(34, 211, 238, ${(0.1 + score * 0.7).toFixed(2)})`,
+});
+
+export function SimilarityHeatmap({ matrix, labels = {} }: SimilarityHeatmapProps) {
+  if (matrix.models.length < 2) {
+    return null;
+  }
+
+  const labelFor = (model: string) => labels[model] ?? getModelDisplayName(model);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs border-separate border-spacing-1">
+        <thead>
+          <tr>
+            <th />
+            {matrix.models.map((model) => (
+              <th key={model} className="px-2 py-1 font-medium text-gray-400 whitespace-nowrap">
+                {labelFor(model)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.models.map((rowModel, i) => (
+            <tr key={rowModel}>
+              <th className="px-2 py-1 text-right font-medium text-gray-400 whitespace-nowrap">
+                {labelFor(rowModel)}
+              </th>
+              {matrix.scores[i].map((score, j) => (
+                <td
+                  key={matrix.models[j]}
+                  className="w-16 h-10 rounded text-center text-white"
+                  style={cellStyle(score, i === j)}
+                  title={`${labelFor(rowModel)} ↔ ${labelFor(matrix.models[j])}: ${Math.round(score * 100)}%`}
+                >
+                  {i === j ? "—" : `${Math.round(score * 100)}%`}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
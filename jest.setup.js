@@ -48,4 +48,5 @@ jest.mock('next/navigation', () => ({
 process.env.NODE_ENV = 'test'
 process.env.OPENAI_API_KEY = 'test-openai-key'
 process.env.GOOGLE_API_KEY = 'test-google-key'
-process.env.ANTHROPIC_API_KEY = 'test-anthropic-key'
\ No newline at end of file
+process.env.ANTHROPIC_API_KEY = 'test-anthropic-key'
+process.env.COST_LEDGER = 'memory' // Keep test runs from writing a ledger file
@@ -88,9 +88,8 @@ async function calculateAlignment(responses: ModelResponse[]): Promise<Alignment
   return {
     semantic,
     surface,
-    gemini: geminiAlignment,
-    chatgpt: chatgptAlignment,
-    claude: claudeAlignment,
+    models: { gemini: geminiAlignment, openai: chatgptAlignment, claude: claudeAlignment },
+    similarityMatrix: { models: responses.map(r => r.model), scores: [] },
     overallAlignment: overallLevel,
     description: getDescription(semantic, surface),
     methodology: 'semantic-similarity-v2',
@@ -109,6 +108,7 @@ function findDivergences(responses: ModelResponse[]): DivergentSection[] {
   
   if (maxLength > avgLength * 1.3 || minLength < avgLength * 0.7) {
     divergences.push({
+      kind: 'style',
       topic: "Response Detail Level",
       content: "Models provided different levels of detail in their responses",
       models: responses.map(r => r.model),
@@ -122,6 +122,7 @@ function findDivergences(responses: ModelResponse[]): DivergentSection[] {
   
   if (formalityRange > 0.2) {
     divergences.push({
+      kind: 'style',
       topic: "Communication Style",
       content: "Models adopted different communication approaches",
       models: responses.map(r => r.model),
@@ -139,6 +140,7 @@ function findDivergences(responses: ModelResponse[]): DivergentSection[] {
   const diversityRatio = sharedKeywords.length / uniqueKeywords.size;
   if (diversityRatio < 0.3) {
     divergences.push({
+      kind: 'style',
       topic: "Conceptual Focus",
       content: "Models emphasized different aspects and concepts",
       models: responses.map(r => r.model),
@@ -248,9 +250,8 @@ export async function synthesizeWithErrorHandling(
         alignment: {
           semantic: 1.0,
           surface: 1.0,
-          gemini: 'high',
-          chatgpt: 'high', 
-          claude: 'high',
+          models: Object.fromEntries(responses.map(r => [r.model, 'high' as const])),
+          similarityMatrix: { models: responses.map(r => r.model), scores: [] },
           overallAlignment: 'high',
           description: 'Single model response',
           methodology: 'semantic-similarity-v2',
@@ -282,9 +283,8 @@ export async function synthesizeWithErrorHandling(
       alignment: {
         semantic: 0.0,
         surface: 0.0,
-        gemini: 'low',
-        chatgpt: 'low',
-        claude: 'low',
+        models: Object.fromEntries(responses.map(r => [r.model, 'low' as const])),
+        similarityMatrix: { models: responses.map(r => r.model), scores: [] },
         overallAlignment: 'low',
         description: 'Synthesis error occurred',
         methodology: 'semantic-similarity-v2',
@@ -292,6 +292,7 @@ export async function synthesizeWithErrorHandling(
       },
       alignedPoints: [],
       divergentSections: [{
+        kind: 'style',
         topic: "Synthesis Error",
         content: "Unable to synthesize responses due to technical error",
         models: responses.map(r => r.model),
@@ -0,0 +1,15 @@
+// Query cancellation: a single error type for work stopped by an AbortSignal, whatever SDK was running
+
+export class QueryCancelledError extends Error {
+  constructor(message: string = 'Query cancelled') {
+    super(message);
+    this.name = 'QueryCancelledError';
+  }
+}
+
+// SDKs report aborts differently (AbortError, APIUserAbortError, wrapped fetch errors); the signal is authoritative
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new QueryCancelledError();
+  }
+}
@@ -0,0 +1,170 @@
+// Claim-level consensus: split responses into atomic claims and cluster equivalent claims across models
+
+import type { AlignedPoint, EmbeddingBackendId, ModelId, ModelResponse, TokenUsage } from '@/types/ai';
+import { computeSimilarityMatrix, type SemanticSimilarityMatrix } from './embeddings';
+import { getEmbeddingBackend } from './embedding-backends';
+
+export interface Claim {
+  id: string; // `${model}#${index}`
+  model: ModelId;
+  text: string;
+}
+
+export interface ClaimCluster {
+  claims: Claim[]; // At most one claim per model
+  models: ModelId[];
+  similarity: number; // Mean pairwise similarity between member claims
+}
+
+export interface ClaimAnalysis {
+  claims: Claim[];
+  similarity: number[][]; // Claim × claim similarity, same order as `claims`
+  method: EmbeddingBackendId; // Embedding backend behind `similarity`
+  fallbackReason?: string; // Set when the configured embedding backend failed
+  clusters: ClaimCluster[];
+}
+
+const MAX_CLAIMS_PER_RESPONSE = 25;
+const MIN_CLAIM_WORDS = 5;
+const MAX_CLAIM_WORDS = 60;
+const MAX_ALIGNED_POINTS = 8;
+
+// Minimum average similarity for two claims to count as "the same claim"; backends score on different scales
+const CLUSTER_THRESHOLD: Record<EmbeddingBackendId, number> = {
+  openai: 0.78,
+  local: 0.6
+};
+
+const FILLER_PATTERNS = [
+  /^(i hope|hope this|let me know|feel free|in summary|in conclusion|to summarize|overall,? )/i,
+  /^(here('s| is| are)|sure|certainly|great question)/i
+];
+
+// Strip markdown so only prose remains
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ') // Code blocks are not claims
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/^\s*#{1,6}\s+.*$/gm, '') // Headings label sections rather than assert anything
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/gm, '') // List markers
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Links
+    .replace(/(\*\*|__|\*|_)(.+?)\1/g, '$2') // Emphasis
+    .replace(/^\s*>\s?/gm, '') // Blockquotes
+    .replace(/\|/g, ' ');
+}
+
+export function extractClaims(response: ModelResponse): Claim[] {
+  const sentences = toPlainText(response.content)
+    .split(/\n+/)
+    .flatMap(line => line.split(/(?<=[.!?])\s+(?=["'(\[]?[A-Z0-9])/))
+    .flatMap(sentence => sentence.split(/;\s+/)) // Treat clauses joined by semicolons as separate claims
+    .map(sentence => sentence.replace(/\s+/g, ' ').trim().replace(/:$/, '.'));
+
+  const claims: Claim[] = [];
+  for (const text of sentences) {
+    const wordCount = text.split(' ').length;
+    if (wordCount < MIN_CLAIM_WORDS || wordCount > MAX_CLAIM_WORDS) continue;
+    if (text.endsWith('?')) continue; // Questions do not assert anything
+    if (FILLER_PATTERNS.some(pattern => pattern.test(text))) continue;
+
+    claims.push({ id: `${response.model}#${claims.length}`, model: response.model, text });
+    if (claims.length >= MAX_CLAIMS_PER_RESPONSE) break;
+  }
+
+  return claims;
+}
+
+// Greedy average-linkage clustering that never puts two claims from the same model together
+export function clusterClaims(
+  claims: Claim[],
+  similarity: number[][],
+  threshold: number
+): ClaimCluster[] {
+  const clusters: number[][] = [];
+
+  claims.forEach((claim, index) => {
+    let bestCluster = -1;
+    let bestScore = threshold;
+
+    clusters.forEach((members, clusterIndex) => {
+      if (members.some(member => claims[member].model === claim.model)) return;
+      const score = members.reduce((sum, member) => sum + similarity[index][member], 0) / members.length;
+      if (score >= bestScore) {
+        bestScore = score;
+        bestCluster = clusterIndex;
+      }
+    });
+
+    if (bestCluster === -1) {
+      clusters.push([index]);
+    } else {
+      clusters[bestCluster].push(index);
+    }
+  });
+
+  return clusters.map(members => {
+    let total = 0;
+    let pairs = 0;
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        total += similarity[members[i]][members[j]];
+        pairs++;
+      }
+    }
+
+    return {
+      claims: members.map(member => claims[member]),
+      models: members.map(member => claims[member].model),
+      similarity: pairs > 0 ? total / pairs : 1
+    };
+  });
+}
+
+export async function analyzeClaims(
+  responses: ModelResponse[],
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<ClaimAnalysis> {
+  const claims = responses.flatMap(extractClaims);
+  if (claims.length === 0) {
+    return { claims, similarity: [], method: getEmbeddingBackend().id, clusters: [] };
+  }
+
+  return clusterBySimilarity(claims, await computeSimilarityMatrix(claims.map(claim => claim.text), signal, onUsage));
+}
+
+// Clusters claims whose similarity was already computed, e.g. in a batch shared with whole responses
+export function clusterBySimilarity(claims: Claim[], { scores, backend, fallbackReason }: SemanticSimilarityMatrix): ClaimAnalysis {
+  if (claims.length === 0) {
+    return { claims, similarity: [], method: backend, clusters: [] };
+  }
+  const clusters = clusterClaims(claims, scores, CLUSTER_THRESHOLD[backend]);
+  return { claims, similarity: scores, method: backend, fallbackReason, clusters };
+}
+
+// Claims shared by two or more models, strongest first
+export function toAlignedPoints(analysis: ClaimAnalysis, modelCount: number): AlignedPoint[] {
+  const indexById = new Map(analysis.claims.map((claim, index) => [claim.id, index]));
+
+  return analysis.clusters
+    .filter(cluster => cluster.models.length >= 2)
+    .map(cluster => {
+      // The claim most similar to the rest of its cluster reads as the canonical wording
+      const representative = cluster.claims.reduce((best, claim) => {
+        const score = (candidate: typeof claim) => cluster.claims.reduce(
+          (sum, other) => sum + analysis.similarity[indexById.get(candidate.id)!][indexById.get(other.id)!],
+          0
+        );
+        return score(claim) > score(best) ? claim : best;
+      });
+
+      return {
+        content: representative.text,
+        models: cluster.models,
+        strength: cluster.similarity * (cluster.models.length / Math.max(modelCount, 1)),
+        sources: cluster.claims.map(claim => ({ model: claim.model, text: claim.text }))
+      };
+    })
+    .sort((a, b) => b.strength - a.strength)
+    .slice(0, MAX_ALIGNED_POINTS);
+}
@@ -0,0 +1,210 @@
+// Substantive divergence detection: find claims on the same topic where models assert incompatible things
+
+import type { ClaimSource, EmbeddingBackendId, ModelId, SubstantiveDivergence } from '@/types/ai';
+import type { Claim, ClaimAnalysis } from './claims';
+
+type Conflict = SubstantiveDivergence['conflict'];
+
+// Minimum similarity for two claims to be "about the same thing"
+const TOPIC_THRESHOLD: Record<EmbeddingBackendId, number> = {
+  openai: 0.6,
+  local: 0.35
+};
+
+// Word overlap needed before a negation flip counts as a yes/no disagreement
+const POLARITY_OVERLAP = 0.4;
+
+const NEGATIONS = new Set([
+  'no', 'not', 'never', 'none', 'cannot', 'cant', 'dont', 'doesnt', 'didnt', 'isnt', 'arent',
+  'wasnt', 'werent', 'wont', 'wouldnt', 'shouldnt', 'couldnt', 'avoid', 'neither', 'nor', 'without'
+]);
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'with', 'that', 'this', 'from', 'has', 'have', 'had',
+  'its', 'it', 'is', 'be', 'been', 'by', 'of', 'on', 'in', 'to', 'a', 'an', 'as', 'at', 'or', 'can',
+  'will', 'would', 'should', 'could', 'may', 'might', 'also', 'which', 'their', 'they', 'there',
+  'about', 'into', 'than', 'then', 'these', 'those', 'such', 'more', 'most', 'very', 'some', 'any'
+]);
+
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  thousand: 1e3,
+  k: 1e3,
+  million: 1e6,
+  m: 1e6,
+  billion: 1e9,
+  bn: 1e9,
+  trillion: 1e12
+};
+
+const CONFLICT_DESCRIPTIONS: Record<Conflict, string> = {
+  numeric: 'Models report different figures for the same quantity',
+  date: 'Models give different dates for the same event',
+  polarity: 'Models give opposite answers to the same question',
+  recommendation: 'Models recommend different options'
+};
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^\w\s%$.-]/g, ' ')
+    .split(/\s+/)
+    .map(word => word.replace(/^[.-]+|[.-]+$/g, ''))
+    .filter(Boolean);
+}
+
+function contentWords(text: string): Set<string> {
+  return new Set(
+    tokenize(text).filter(word =>
+      word.length > 2 && !STOP_WORDS.has(word) && !NEGATIONS.has(word) && !/\d/.test(word)
+    )
+  );
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  const union = new Set([...a, ...b]);
+  if (union.size === 0) return 0;
+  return [...a].filter(word => b.has(word)).length / union.size;
+}
+
+function extractYears(text: string): Set<number> {
+  return new Set((text.match(/\b(1[0-9]{3}|20[0-9]{2}|2100)\b/g) ?? []).map(Number));
+}
+
+// Quantities grouped by unit, e.g. { '%': [40], '$': [2000000], '': [3] }; years are excluded
+function extractQuantities(text: string): Map<string, number[]> {
+  const quantities = new Map<string, number[]>();
+  const pattern = /([$€£])?\s?(\d[\d,]*(?:\.\d+)?)\s?(%|percent\b|thousand\b|million\b|billion\b|trillion\b|bn\b|k\b|m\b)?\s?([a-z]+)?/gi;
+
+  for (const match of text.matchAll(pattern)) {
+    const [, currency, rawNumber, rawScale, nextWord] = match;
+    let value = parseFloat(rawNumber.replace(/,/g, ''));
+    if (Number.isNaN(value)) continue;
+
+    const scale = rawScale?.toLowerCase();
+    if (!currency && !scale && extractYears(rawNumber).size > 0) continue;
+
+    let unit = currency ?? '';
+    if (scale === '%' || scale === 'percent') {
+      unit = '%';
+    } else if (scale) {
+      value *= UNIT_MULTIPLIERS[scale] ?? 1;
+    }
+    // A trailing noun ("3 days", "12 GB") disambiguates unitless figures
+    if (!unit && nextWord && !STOP_WORDS.has(nextWord.toLowerCase())) {
+      unit = nextWord.toLowerCase().replace(/s$/, '');
+    }
+
+    quantities.set(unit, [...(quantities.get(unit) ?? []), value]);
+  }
+
+  return quantities;
+}
+
+function valuesAgree(a: number[], b: number[]): boolean {
+  return a.some(x => b.some(y => Math.abs(x - y) <= Math.max(Math.abs(x), Math.abs(y)) * 0.05));
+}
+
+function extractRecommendation(text: string): string | null {
+  const match = text.match(
+    /\b(?:recommend(?:s|ed)?|suggest(?:s|ed)?|prefer(?:s|red)?|opt for|go with|choose|pick|should use|best (?:option|choice) is)\s+(?:using\s+|the\s+|a\s+|an\s+)?([\w.+#-]+)/i
+  );
+  return match ? match[1].toLowerCase() : null;
+}
+
+function isNegated(text: string): boolean {
+  return tokenize(text).some(word => NEGATIONS.has(word));
+}
+
+// Classify why two same-topic claims cannot both be true, or null if they are compatible
+export function detectConflict(a: string, b: string): Conflict | null {
+  const yearsA = extractYears(a);
+  const yearsB = extractYears(b);
+  if (yearsA.size > 0 && yearsB.size > 0 && ![...yearsA].some(year => yearsB.has(year))) {
+    return 'date';
+  }
+
+  const quantitiesA = extractQuantities(a);
+  const quantitiesB = extractQuantities(b);
+  for (const [unit, values] of quantitiesA) {
+    const otherValues = quantitiesB.get(unit);
+    if (otherValues && !valuesAgree(values, otherValues)) {
+      return 'numeric';
+    }
+  }
+
+  const recommendationA = extractRecommendation(a);
+  const recommendationB = extractRecommendation(b);
+  // Only a conflict if neither claim mentions the other's pick
+  if (
+    recommendationA && recommendationB && recommendationA !== recommendationB &&
+    !tokenize(b).includes(recommendationA) && !tokenize(a).includes(recommendationB)
+  ) {
+    return 'recommendation';
+  }
+
+  if (isNegated(a) !== isNegated(b) && overlap(contentWords(a), contentWords(b)) >= POLARITY_OVERLAP) {
+    return 'polarity';
+  }
+
+  return null;
+}
+
+function describeTopic(claims: Claim[]): string {
+  const wordSets = claims.map(claim => contentWords(claim.text));
+  const shared = [...wordSets[0]].filter(word => wordSets.every(set => set.has(word)));
+  const words = (shared.length > 0 ? shared : [...wordSets[0]]).slice(0, 3);
+  return words.length > 0
+    ? `Disagreement on ${words.join(', ')}`
+    : 'Conflicting claims';
+}
+
+export function findContradictions(analysis: ClaimAnalysis): SubstantiveDivergence[] {
+  const { claims, similarity, method } = analysis;
+  const threshold = TOPIC_THRESHOLD[method];
+
+  const pairs: { i: number; j: number; conflict: Conflict }[] = [];
+  for (let i = 0; i < claims.length; i++) {
+    for (let j = i + 1; j < claims.length; j++) {
+      if (claims[i].model === claims[j].model || similarity[i][j] < threshold) continue;
+
+      const conflict = detectConflict(claims[i].text, claims[j].text);
+      if (conflict) pairs.push({ i, j, conflict });
+    }
+  }
+
+  // Merge overlapping pairs so a three-way disagreement becomes one section
+  const parent = claims.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  pairs.forEach(({ i, j }) => {
+    parent[find(j)] = find(i);
+  });
+
+  const groups = new Map<number, { members: Set<number>; conflict: Conflict }>();
+  pairs.forEach(({ i, j, conflict }) => {
+    const root = find(i);
+    const group = groups.get(root) ?? { members: new Set<number>(), conflict };
+    group.members.add(i).add(j);
+    groups.set(root, group);
+  });
+
+  return Array.from(groups.values()).map(({ members, conflict }) => {
+    // One position per model: its first conflicting claim
+    const positions: ClaimSource[] = [];
+    const seen = new Set<ModelId>();
+    [...members].sort((a, b) => a - b).forEach(index => {
+      if (seen.has(claims[index].model)) return;
+      seen.add(claims[index].model);
+      positions.push({ model: claims[index].model, text: claims[index].text });
+    });
+
+    return {
+      kind: 'substantive' as const,
+      conflict,
+      topic: describeTopic([...members].map(index => claims[index])),
+      content: positions.map(position => position.text).join(' vs. '),
+      models: positions.map(position => position.model),
+      description: CONFLICT_DESCRIPTIONS[conflict],
+      positions
+    };
+  });
+}
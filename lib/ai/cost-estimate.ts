@@ -0,0 +1,171 @@
+// Pre-flight cost estimates: the tokens a query's prompt and attachments will take, projected for each
+// panel model and synthesis stage and priced with the price table. No tokenizer ships with the app, so
+// counts are approximate; the cost tracker still charges whatever usage providers actually report.
+
+import type { AttachmentSummary, CostEstimate, CostEstimateLine, FileAttachment, ImageSize, TokenUsage } from '@/types/ai';
+import type { ResolvedModel } from './providers';
+import { PRICE_TABLE_VERSION, priceUsage } from './pricing';
+import { getEmbeddingBackend } from './embedding-backends';
+import { SYNTHESIS_MODEL } from './gpt-synthesis';
+
+// Typical lengths; real answers vary with the question
+const EXPECTED_ANSWER_TOKENS = 700;
+const EXPECTED_SYNTHESIS_TOKENS = 1500;
+const SYNTHESIS_INSTRUCTION_TOKENS = 1200; // The synthesis prompt around the model answers
+const DEFAULT_MAX_TOKENS = 4000; // What providers request when a panel entry sets no maxTokens
+
+// Assumed when an image's dimensions can't be read from its header
+const FALLBACK_IMAGE_SIZE: ImageSize = { width: 1024, height: 1024 };
+
+// Enough of the file to reach a JPEG's frame header past large EXIF blocks
+const IMAGE_HEADER_BYTES = 128 * 1024;
+
+// A PDF page's text plus the page image that document-reading models are also given
+const PDF_PAGE_TOKENS = 2000;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// Roughly one token per four characters of a word, and one per punctuation mark or non-Latin character
+export function countTextTokens(text: string): number {
+  return sum((text.match(/\w+|[^\s\w]/g) ?? []).map(piece => Math.ceil(piece.length / 4)));
+}
+
+// Pixel dimensions from a PNG, GIF, WebP or JPEG header, or null for anything else
+export function readImageSize(base64: string): ImageSize | null {
+  const bytes = Buffer.from(base64.slice(0, Math.ceil(IMAGE_HEADER_BYTES / 3) * 4), 'base64');
+  const ascii = (start: number, end: number) => bytes.toString('ascii', start, end);
+
+  try {
+    if (bytes.length >= 24 && bytes.readUInt32BE(0) === 0x89504e47) {
+      return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+    }
+    if (ascii(0, 4) === 'GIF8') {
+      return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+    }
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+      switch (ascii(12, 16)) {
+        case 'VP8 ':
+          return { width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff };
+        case 'VP8L': {
+          const bits = bytes.readUInt32LE(21);
+          return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+        case 'VP8X':
+          return { width: bytes.readUIntLE(24, 3) + 1, height: bytes.readUIntLE(27, 3) + 1 };
+      }
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      // Walk the segments to the start-of-frame marker; C4, C8 and CC share its range but aren't frames
+      let offset = 2;
+      while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+          return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) };
+        }
+        offset += 2 + bytes.readUInt16BE(offset + 2);
+      }
+    }
+  } catch {
+    // Truncated header
+  }
+  return null;
+}
+
+// PDFs by page count, anything else by its text
+export function countDocumentTokens(attachment: FileAttachment): number {
+  const bytes = Buffer.from(attachment.base64, 'base64');
+  if (attachment.mimeType === 'application/pdf') {
+    const pages = bytes.toString('latin1').match(/\/Type\s*\/Page(?!s)/g)?.length ?? 0;
+    return Math.max(1, pages) * PDF_PAGE_TOKENS;
+  }
+  return countTextTokens(bytes.toString('utf8'));
+}
+
+// For providers without their own rule: one token per 750 pixels
+const defaultImageTokens = ({ width, height }: ImageSize) => Math.ceil((width * height) / 750);
+
+// Request bodies carry attachments as-is; the estimate needs each one's base64 content
+export function isAttachmentList(value: unknown): value is FileAttachment[] {
+  return Array.isArray(value) && value.every(attachment => typeof attachment?.base64 === 'string');
+}
+
+export function isAttachmentSummaryList(value: unknown): value is AttachmentSummary[] {
+  return Array.isArray(value) && value.every(summary =>
+    (summary?.type === 'image' || summary?.type === 'document') && typeof summary.bytes === 'number'
+  );
+}
+
+// Read once per attachment, when it is attached; every estimate after that works from the summary
+export function summarizeAttachment(attachment: FileAttachment): AttachmentSummary {
+  const bytes = Math.floor((attachment.base64.length * 3) / 4);
+  if (attachment.type === 'image') {
+    const size = readImageSize(attachment.base64);
+    return { type: 'image', bytes, size: size && size.width > 0 && size.height > 0 ? size : undefined };
+  }
+  return { type: 'document', bytes, tokens: countDocumentTokens(attachment) };
+}
+
+export function estimateQueryCost(
+  mode: 'basic' | 'pro',
+  prompt: string,
+  attachments: AttachmentSummary[],
+  panel: ResolvedModel[]
+): CostEstimate {
+  const promptTokens = countTextTokens(prompt);
+  const images = attachments
+    .filter(attachment => attachment.type === 'image')
+    .map(attachment => attachment.size ?? FALLBACK_IMAGE_SIZE);
+  const documentTokens = sum(attachments
+    .filter(attachment => attachment.type === 'document')
+    .map(attachment => attachment.tokens ?? Math.ceil(attachment.bytes / 4))); // Unread documents as plain text
+
+  // Priced from the table, or at the fixed estimate for a model the table doesn't list
+  const line = (key: string, label: string, model: string, inputTokens: number, outputTokens: number, fallbackCost: number = 0): CostEstimateLine => {
+    const cost = priceUsage({ model, inputTokens, outputTokens });
+    return { key, label, model, inputTokens, outputTokens, cost: cost ?? fallbackCost, priced: cost !== undefined };
+  };
+
+  let attachmentTokens = 0;
+  const lines = panel.map(target => {
+    // Providers never receive attachments they can't read (see callModel)
+    const { capabilities } = target.provider;
+    const modelAttachmentTokens =
+      (capabilities.images ? sum(images.map(size => target.provider.imageTokens?.(size) ?? defaultImageTokens(size))) : 0) +
+      (capabilities.documents ? documentTokens : 0);
+    attachmentTokens = Math.max(attachmentTokens, modelAttachmentTokens);
+    const outputTokens = Math.min(EXPECTED_ANSWER_TOKENS, target.maxTokens ?? DEFAULT_MAX_TOKENS);
+    return line(target.key, target.label, target.model, promptTokens + modelAttachmentTokens, outputTokens, target.estimatedCost);
+  });
+
+  // Both tiers run the same synthesis pipeline over the answers, so both pay for its stages
+  const answerTokens = sum(lines.map(model => model.outputTokens));
+  const embeddings = getEmbeddingBackend();
+  // Every answer is embedded whole and again claim by claim, in one batch; local embeddings cost nothing
+  if (embeddings.id !== 'local') {
+    lines.push(line('embeddings', 'Embeddings', embeddings.model, answerTokens * 2, 0));
+  }
+  lines.push(line('synthesis', 'Synthesis', SYNTHESIS_MODEL, SYNTHESIS_INSTRUCTION_TOKENS + promptTokens + answerTokens, EXPECTED_SYNTHESIS_TOKENS));
+
+  return {
+    mode,
+    promptTokens,
+    attachmentTokens,
+    lines,
+    total: sum(lines.map(estimate => estimate.cost)),
+    priceTableVersion: PRICE_TABLE_VERSION
+  };
+}
+
+// What a call that ended without an answer was billed for: its estimated input and whatever output it streamed
+export function estimateUnansweredUsage(
+  estimate: CostEstimate,
+  target: Pick<ResolvedModel, 'key' | 'model'>,
+  streamedText: string = ''
+): TokenUsage {
+  const line = estimate.lines.find(entry => entry.key === target.key);
+  return {
+    model: target.model,
+    inputTokens: line?.inputTokens ?? estimate.promptTokens,
+    outputTokens: countTextTokens(streamedText)
+  };
+}
@@ -0,0 +1,50 @@
+// Diagnostics for ConsensusAnalysis: which synthesis stages ran, which fell back, and how far to trust each score
+
+import type {
+  AnalysisDiagnostics,
+  EmbeddingBackendId,
+  ScoreConfidence,
+  StageDiagnostic,
+  SynthesisStage
+} from '@/types/ai';
+
+export const SYNTHESIS_STAGES: SynthesisStage[] = ['claims', 'similarity', 'divergences', 'fact_check', 'synthesis'];
+
+const CONFIDENCE_ORDER: ScoreConfidence[] = ['none', 'low', 'medium', 'high'];
+
+// OpenAI embeddings are the reference; local embeddings are a rougher proxy, and worse still when unplanned
+export function embeddingConfidence(backend: EmbeddingBackendId, fallbackReason?: string): ScoreConfidence {
+  if (fallbackReason) return 'low';
+  return backend === 'openai' ? 'high' : 'medium';
+}
+
+export function lowestConfidence(...levels: ScoreConfidence[]): ScoreConfidence {
+  return levels.reduce((lowest, level) =>
+    CONFIDENCE_ORDER.indexOf(level) < CONFIDENCE_ORDER.indexOf(lowest) ? level : lowest
+  );
+}
+
+export function createDiagnostics(
+  stages: StageDiagnostic[],
+  confidence: AnalysisDiagnostics['confidence']
+): AnalysisDiagnostics {
+  return {
+    degraded: stages.some(stage => stage.status === 'fallback' || stage.status === 'failed'),
+    stages,
+    errors: stages.flatMap(stage => (stage.error ? [`${stage.stage}: ${stage.error}`] : [])),
+    confidence
+  };
+}
+
+// Every stage marked the same way, for paths that bypass the pipeline
+export function uniformDiagnostics(
+  status: 'skipped' | 'failed',
+  detail: string,
+  error?: string
+): AnalysisDiagnostics {
+  const diagnostics = createDiagnostics(
+    SYNTHESIS_STAGES.map(stage => ({ stage, status, detail })),
+    { semantic: 'none', surface: 'none', alignment: 'none', alignedPoints: 'none', divergences: 'none' }
+  );
+  return error ? { ...diagnostics, errors: [error] } : diagnostics;
+}
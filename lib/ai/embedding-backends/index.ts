@@ -0,0 +1,24 @@
+// Embedding backend selection: EMBEDDING_BACKEND=openai|local|auto (default auto)
+
+import type { EmbeddingBackend, EmbeddingBackendId } from '@/types/ai';
+import { openaiEmbeddingBackend } from './openai';
+import { localEmbeddingBackend } from './local';
+
+export { openaiEmbeddingBackend } from './openai';
+export { localEmbeddingBackend, embedLocally } from './local';
+
+export const EMBEDDING_BACKENDS: Record<EmbeddingBackendId, EmbeddingBackend> = {
+  openai: openaiEmbeddingBackend,
+  local: localEmbeddingBackend
+};
+
+// "auto" uses OpenAI when its key is configured and the local backend otherwise
+export function getEmbeddingBackend(setting: string = process.env.EMBEDDING_BACKEND || 'auto'): EmbeddingBackend {
+  if (setting === 'openai' || setting === 'local') {
+    return EMBEDDING_BACKENDS[setting];
+  }
+  if (setting !== 'auto') {
+    console.warn(`⚠️ Unknown EMBEDDING_BACKEND "${setting}", using auto`);
+  }
+  return openaiEmbeddingBackend.isAvailable() ? openaiEmbeddingBackend : localEmbeddingBackend;
+}
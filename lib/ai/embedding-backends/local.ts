@@ -0,0 +1,70 @@
+// Local embeddings backend: hashed word and character n-gram vectors, no network or API key needed
+
+import type { EmbeddingBackend } from '@/types/ai';
+
+const DIMENSIONS = 1024;
+
+// Feature weights: whole words carry meaning, bigrams capture phrasing, trigrams tolerate inflection
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.3;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by', 'from',
+  'as', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'it', 'its', 'this', 'that', 'these',
+  'those', 'which', 'who', 'what', 'has', 'have', 'had', 'do', 'does', 'did', 'can', 'will', 'would',
+  'should', 'could', 'may', 'might', 'also', 'very', 'so', 'than', 'then', 'there', 'their', 'they'
+]);
+
+// FNV-1a, 32-bit
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Crude stemming so "capital" and "capitals" share a feature
+function stem(word: string): string {
+  return word.length > 4 ? word.replace(/(ing|ed|es|s)$/, '') : word;
+}
+
+export function embedLocally(text: string): number[] {
+  const words = text.toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(stem);
+
+  const counts = new Map<number, number>();
+  const add = (feature: string, weight: number) => {
+    const index = hash(feature) % DIMENSIONS;
+    counts.set(index, (counts.get(index) ?? 0) + weight);
+  };
+
+  words.forEach((word, i) => {
+    add(`w:${word}`, WORD_WEIGHT);
+    if (i > 0) add(`b:${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+    const padded = `#${word}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`t:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+    }
+  });
+
+  // Sublinear term frequency, then L2 normalisation
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  counts.forEach((weight, index) => {
+    vector[index] = Math.log1p(weight);
+  });
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+export const localEmbeddingBackend: EmbeddingBackend = {
+  id: 'local',
+  model: `hashed-ngram-${DIMENSIONS}-v1`,
+  isAvailable: () => true,
+  embed: async texts => texts.map(embedLocally)
+};
@@ -0,0 +1,52 @@
+// OpenAI embeddings backend
+
+import type { EmbeddingBackend, TokenUsage } from '@/types/ai';
+
+const MAX_BATCH_SIZE = 2048; // OpenAI limit on inputs per embeddings request
+
+async function fetchEmbeddings(
+  model: string,
+  texts: string[],
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<number[][]> {
+  if (texts.length > MAX_BATCH_SIZE) {
+    const head = await fetchEmbeddings(model, texts.slice(0, MAX_BATCH_SIZE), signal, onUsage);
+    return [...head, ...await fetchEmbeddings(model, texts.slice(MAX_BATCH_SIZE), signal, onUsage)];
+  }
+
+  const response = await fetch('https://api.openai.com/v1/embeddings', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model,
+      input: texts,
+      encoding_format: 'float'
+    }),
+    signal
+  });
+
+  if (!response.ok) {
+    throw new Error(`OpenAI embedding API error: ${response.status}`);
+  }
+
+  const data: { data: { index: number; embedding: number[] }[]; usage?: { prompt_tokens: number } } = await response.json();
+  if (data.usage) {
+    onUsage?.({ model, inputTokens: data.usage.prompt_tokens, outputTokens: 0 });
+  }
+  return [...data.data]
+    .sort((a, b) => a.index - b.index)
+    .map(item => item.embedding);
+}
+
+export const openaiEmbeddingBackend: EmbeddingBackend = {
+  id: 'openai',
+  model: 'text-embedding-3-small', // Cost-effective embedding model
+  isAvailable: () => Boolean(process.env.OPENAI_API_KEY),
+  embed(texts, signal, onUsage) {
+    return fetchEmbeddings(this.model, texts, signal, onUsage);
+  }
+};
@@ -0,0 +1,202 @@
+// Embedding cache: in-memory LRU keyed by embedding model + content hash, with an optional on-disk tier
+
+import { createHash } from 'crypto';
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { isAbsolute, join } from 'path';
+
+// Persistent second tier consulted on memory misses
+export interface EmbeddingCacheBackend {
+  get(key: string): number[] | undefined;
+  set(key: string, embedding: number[]): void;
+}
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  diskHits: number; // Subset of hits served by the persistent backend
+  hitRate: number;
+  size: number;
+  maxEntries: number;
+  backend: 'memory' | 'file';
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+// An embedding being computed, with the signal of the request computing it
+interface PendingEmbedding {
+  promise: Promise<number[]>;
+  signal?: AbortSignal;
+}
+
+// Append-only JSONL file; later lines win, so rewrites are never needed
+export class FileEmbeddingCacheBackend implements EmbeddingCacheBackend {
+  private entries = new Map<string, number[]>();
+
+  constructor(private filePath: string, private maxEntries: number = DEFAULT_MAX_ENTRIES * 10) {
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (!existsSync(this.filePath)) return;
+      const lines = readFileSync(this.filePath, 'utf-8').split('\n').filter(Boolean);
+      for (const line of lines.slice(-this.maxEntries)) {
+        const { key, embedding } = JSON.parse(line);
+        this.entries.set(key, embedding);
+      }
+      console.log(`🧠 Loaded ${this.entries.size} cached embeddings from disk`);
+    } catch (error) {
+      console.error('Error loading embedding cache:', error);
+      this.entries.clear();
+    }
+  }
+
+  get(key: string): number[] | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, embedding: number[]): void {
+    this.entries.set(key, embedding);
+    try {
+      appendFileSync(this.filePath, JSON.stringify({ key, embedding }) + '\n');
+    } catch (error) {
+      console.error('Error saving embedding cache entry:', error);
+    }
+  }
+}
+
+export class EmbeddingCache {
+  private entries = new Map<string, number[]>(); // Insertion order doubles as recency order
+  private pending = new Map<string, PendingEmbedding>();
+  private hits = 0;
+  private misses = 0;
+  private diskHits = 0;
+
+  constructor(
+    private maxEntries: number = DEFAULT_MAX_ENTRIES,
+    private backend?: EmbeddingCacheBackend
+  ) {}
+
+  static key(model: string, text: string): string {
+    return `${model}:${createHash('sha256').update(text).digest('hex')}`;
+  }
+
+  async getOrCompute(model: string, text: string, compute: () => Promise<number[]>): Promise<number[]> {
+    const [embedding] = await this.getOrComputeMany(model, [text], async () => [await compute()]);
+    return embedding;
+  }
+
+  // Resolve every text from the cache, computing all misses in a single batch call.
+  // `signal` is the one `compute` was given, so a waiter can tell another request's cancellation from a real failure.
+  async getOrComputeMany(
+    model: string,
+    texts: string[],
+    compute: (missing: string[]) => Promise<number[][]>,
+    signal?: AbortSignal
+  ): Promise<number[][]> {
+    const keys = texts.map(text => EmbeddingCache.key(model, text));
+    const found = new Map<string, number[]>();
+    const missing = new Map<string, string>(); // key → text, deduplicated
+
+    keys.forEach((key, index) => {
+      const cached = found.get(key) ?? this.lookup(key);
+      // Repeated texts and concurrent requests for the same text share one API call
+      if (cached || this.pending.has(key) || missing.has(key)) {
+        this.hits++;
+        if (cached) found.set(key, cached);
+        return;
+      }
+      this.misses++;
+      missing.set(key, texts[index]);
+    });
+
+    if (missing.size > 0) {
+      const batch = compute([...missing.values()]);
+      [...missing.keys()].forEach((key, index) => {
+        const promise = batch
+          .then(embeddings => {
+            const embedding = embeddings[index];
+            this.touch(key, embedding);
+            this.backend?.set(key, embedding);
+            return embedding;
+          })
+          .finally(() => {
+            this.pending.delete(key);
+          });
+        this.pending.set(key, { promise, signal });
+      });
+    }
+
+    return Promise.all(keys.map((key, index) => {
+      const cached = found.get(key);
+      if (cached) return cached;
+
+      const shared = this.pending.get(key)!;
+      // Cancelled by the request that started it: compute again rather than fail this one
+      return shared.promise.catch(async error => {
+        if (shared.signal === signal || !shared.signal?.aborted || signal?.aborted) throw error;
+        const [embedding] = await this.getOrComputeMany(model, [texts[index]], compute, signal);
+        return embedding;
+      });
+    }));
+  }
+
+  private lookup(key: string): number[] | undefined {
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.touch(key, cached);
+      return cached;
+    }
+
+    const stored = this.backend?.get(key);
+    if (stored) {
+      this.diskHits++;
+      this.touch(key, stored);
+      return stored;
+    }
+
+    return undefined;
+  }
+
+  private touch(key: string, embedding: number[]): void {
+    this.entries.delete(key);
+    this.entries.set(key, embedding);
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  getStats(): EmbeddingCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      diskHits: this.diskHits,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      backend: this.backend ? 'file' : 'memory'
+    };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.pending.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.diskHits = 0;
+  }
+}
+
+function createEmbeddingCache(): EmbeddingCache {
+  const maxEntries = parseInt(process.env.EMBEDDING_CACHE_SIZE || '', 10) || DEFAULT_MAX_ENTRIES;
+  const file = process.env.EMBEDDING_CACHE_FILE;
+  const backend = file
+    ? new FileEmbeddingCacheBackend(isAbsolute(file) ? file : join(process.cwd(), file))
+    : undefined;
+  return new EmbeddingCache(maxEntries, backend);
+}
+
+// Export singleton instance
+export const embeddingCache = createEmbeddingCache();
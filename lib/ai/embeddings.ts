@@ -1,30 +1,31 @@
-// OpenAI embeddings for semantic similarity calculation
+// Embeddings for semantic similarity calculation
+
+import type { EmbeddingBackend, EmbeddingBackendId, TokenUsage } from '@/types/ai';
+import { embeddingCache } from './embedding-cache';
+import { getEmbeddingBackend, localEmbeddingBackend, openaiEmbeddingBackend } from './embedding-backends';
+import { throwIfCancelled } from './cancellation';
+
+export interface SemanticSimilarityMatrix {
+  scores: number[][]; // Pairwise cosine similarity, 1 on the diagonal
+  backend: EmbeddingBackendId; // Backend that actually produced the scores
+  fallbackReason?: string; // Why the configured backend was not used, if it failed
+}
 
 export async function getOpenAIEmbedding(text: string): Promise<number[]> {
-  try {
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'text-embedding-3-small', // Cost-effective embedding model
-        input: text,
-        encoding_format: 'float'
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI embedding API error: ${response.status}`);
-    }
+  const [embedding] = await getEmbeddings([text], openaiEmbeddingBackend);
+  return embedding;
+}
 
-    const data = await response.json();
-    return data.data[0].embedding;
-  } catch (error) {
-    console.error('Error getting OpenAI embedding:', error);
-    throw error;
-  }
+// Cached embeddings for many texts; everything not already cached goes to the backend in one batch.
+// `onUsage` hears about the tokens billed for that batch; cache hits cost nothing.
+export async function getEmbeddings(
+  texts: string[],
+  backend: EmbeddingBackend = getEmbeddingBackend(),
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<number[][]> {
+  if (texts.length === 0) return [];
+  return embeddingCache.getOrComputeMany(backend.model, texts, missing => backend.embed(missing, signal, onUsage), signal);
 }
 
 export function cosineSimilarity(vecA: number[], vecB: number[]): number {
@@ -52,30 +53,45 @@ export function cosineSimilarity(vecA: number[], vecB: number[]): number {
   return dotProduct / (normA * normB);
 }
 
-export async function calculateSemanticSimilarity(texts: string[]): Promise<number> {
-  try {
-    // Get embeddings for all texts
-    const embeddings = await Promise.all(
-      texts.map(text => getOpenAIEmbedding(text))
-    );
-
-    // Calculate pairwise cosine similarities
-    const similarities: number[] = [];
-    
-    for (let i = 0; i < embeddings.length; i++) {
-      for (let j = i + 1; j < embeddings.length; j++) {
-        const similarity = cosineSimilarity(embeddings[i], embeddings[j]);
-        similarities.push(similarity);
-      }
-    }
+// Every pairwise cosine similarity between the texts, from a single embeddings round trip.
+// Falls back to the local backend if the configured one fails, and reports which one was used.
+export async function computeSimilarityMatrix(
+  texts: string[],
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<SemanticSimilarityMatrix> {
+  let backend = getEmbeddingBackend();
+  let embeddings: number[][];
+  let fallbackReason: string | undefined;
 
-    // Return average similarity
-    return similarities.reduce((sum, sim) => sum + sim, 0) / similarities.length;
+  try {
+    embeddings = await getEmbeddings(texts, backend, signal, onUsage);
   } catch (error) {
-    console.error('Error calculating semantic similarity:', error);
-    // Fallback to 0.5 if embedding fails
-    return 0.5;
+    throwIfCancelled(signal);
+    if (backend.id === localEmbeddingBackend.id) throw error;
+    console.error(`Error getting ${backend.id} embeddings, using local embeddings:`, error);
+    fallbackReason = error instanceof Error ? error.message : String(error);
+    backend = localEmbeddingBackend;
+    embeddings = await getEmbeddings(texts, backend);
+  }
+
+  const scores: number[][] = texts.map(() => texts.map(() => 1));
+  for (let i = 0; i < embeddings.length; i++) {
+    for (let j = i + 1; j < embeddings.length; j++) {
+      scores[i][j] = scores[j][i] = cosineSimilarity(embeddings[i], embeddings[j]);
+    }
   }
+
+  return { scores, backend: backend.id, fallbackReason };
+}
+
+// Mean pairwise cosine similarity
+export async function calculateSemanticSimilarity(texts: string[]): Promise<number> {
+  const { scores } = await computeSimilarityMatrix(texts);
+  const similarities = scores.flatMap((row, i) => row.slice(i + 1));
+  return similarities.length > 0
+    ? similarities.reduce((sum, sim) => sum + sim, 0) / similarities.length
+    : 1;
 }
 
 export function calculateJaccardSimilarity(texts: string[]): number {
@@ -0,0 +1,215 @@
+// Cross-model fact checking: flag specific numbers, dates and names that only one model asserts
+
+import type { ModelResponse, UnverifiedClaim } from '@/types/ai';
+
+interface Fact {
+  kind: UnverifiedClaim['kind'];
+  text: string;
+  start: number;
+  end: number;
+  value?: number; // Numbers, after scaling ("2.1 million" → 2100000)
+  date?: { year: number; month?: number; day?: number };
+}
+
+const MAX_FLAGS_PER_RESPONSE = 20;
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+const MONTH_PATTERN = '(January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept?|Oct|Nov|Dec)\\.?';
+
+const SCALES: Record<string, number> = {
+  thousand: 1e3,
+  million: 1e6,
+  billion: 1e9,
+  trillion: 1e12
+};
+
+// Capitalised words that start sentences or are too generic to count as names
+const NON_NAMES = new Set([
+  'the', 'a', 'an', 'in', 'on', 'at', 'for', 'to', 'of', 'and', 'or', 'but', 'this', 'that', 'these',
+  'those', 'however', 'also', 'while', 'when', 'if', 'it', 'its', 'as', 'with', 'by', 'from', 'some',
+  'many', 'most', 'each', 'every', 'both', 'other', 'another', 'there', 'here', 'what', 'why', 'how',
+  'yes', 'no', 'note', 'example', 'overall', 'first', 'second', 'finally', 'additionally', 'i',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', ...MONTHS
+]);
+
+// Blank out code, link targets and headings without shifting offsets
+function maskNonProse(content: string): string {
+  const blank = (match: string) => match.replace(/[^\n]/g, ' ');
+  return content
+    .replace(/```[\s\S]*?```/g, blank)
+    .replace(/`[^`\n]+`/g, blank)
+    .replace(/\]\([^)]*\)/g, blank)
+    .replace(/https?:\/\/\S+/g, blank)
+    .replace(/^\s*#{1,6}\s.*$/gm, blank);
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.findIndex(month => month.startsWith(name.toLowerCase().replace('.', '').slice(0, 3))) + 1;
+}
+
+function extractDates(text: string): Fact[] {
+  const patterns: { regex: RegExp; parse: (m: RegExpExecArray) => Fact['date'] }[] = [
+    {
+      regex: /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+      parse: m => ({ year: +m[1], month: +m[2], day: +m[3] })
+    },
+    {
+      regex: new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'g'),
+      parse: m => ({ year: +m[3], month: monthIndex(m[1]), day: +m[2] })
+    },
+    {
+      regex: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_PATTERN}\\s+(\\d{4})\\b`, 'g'),
+      parse: m => ({ year: +m[3], month: monthIndex(m[2]), day: +m[1] })
+    },
+    {
+      regex: new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{4})\\b`, 'g'),
+      parse: m => ({ year: +m[2], month: monthIndex(m[1]) })
+    },
+    {
+      // Bare years, unless they read as an amount ("$1999", "1999 users" is still ambiguous and kept)
+      regex: /(?<![$€£\d.,])\b(1[5-9]\d{2}|20\d{2})\b(?![%\d]|,\d|\.\d)/g,
+      parse: m => ({ year: +m[1] })
+    }
+  ];
+
+  const facts: Fact[] = [];
+  for (const { regex, parse } of patterns) {
+    for (const match of text.matchAll(regex)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      // Earlier patterns are more specific; skip anything already covered
+      if (facts.some(fact => start < fact.end && end > fact.start)) continue;
+      facts.push({ kind: 'date', text: match[0], start, end, date: parse(match as RegExpExecArray) });
+    }
+  }
+  return facts;
+}
+
+// "12." or "12)" opening a line
+function isListMarker(text: string, index: number, length: number): boolean {
+  const lineStart = text.lastIndexOf('\n', index - 1) + 1;
+  return text.slice(lineStart, index).trim() === '' && /^[.)]\s/.test(text.slice(index + length));
+}
+
+function extractNumbers(text: string): Fact[] {
+  const regex = /(?<![\w.,])([$€£])?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?\s?(%|percent\b|thousand\b|million\b|billion\b|trillion\b)?/gi;
+  const facts: Fact[] = [];
+
+  for (const match of text.matchAll(regex)) {
+    const [raw, currency, whole, fraction, scale] = match;
+    const value = parseFloat(whole.replace(/,/g, '') + (fraction ?? ''));
+
+    // Small bare integers are usually counts or list positions rather than checkable facts
+    if (!currency && !scale && !fraction && value <= 10) continue;
+    if (isListMarker(text, match.index!, raw.length)) continue;
+
+    const multiplier = scale ? SCALES[scale.toLowerCase()] ?? 1 : 1;
+    const trimmed = raw.trimEnd();
+    facts.push({
+      kind: 'number',
+      text: trimmed,
+      start: match.index!,
+      end: match.index! + trimmed.length,
+      value: value * multiplier
+    });
+  }
+  return facts;
+}
+
+function isSentenceStart(text: string, index: number): boolean {
+  const before = text.slice(0, index).replace(/[\s*_>#\-]+$/, '');
+  return before === '' || /[.!?:]$/.test(before) || text.slice(before.length, index).includes('\n');
+}
+
+function extractNames(text: string): Fact[] {
+  const regex = /\b[A-Z][\w'’-]*(?:[ \t]+(?:(?:of|de|da|del|van|von|la)[ \t]+)?[A-Z][\w'’-]*)*/g;
+  const facts: Fact[] = [];
+
+  for (const match of text.matchAll(regex)) {
+    let start = match.index!;
+    let words = match[0].split(/[ \t]+/);
+
+    // Drop generic leading words ("The Eiffel Tower" → "Eiffel Tower")
+    while (words.length > 0 && NON_NAMES.has(words[0].toLowerCase())) {
+      start = text.indexOf(words[1] ?? '', start + words[0].length);
+      words = words.slice(1);
+    }
+    if (words.length === 0 || start < 0) continue;
+
+    const name = text.slice(start, match.index! + match[0].length);
+    // A lone capitalised word opening a sentence is just capitalisation
+    if (words.length === 1 && (isSentenceStart(text, start) || name.length < 3)) continue;
+
+    facts.push({ kind: 'name', text: name, start, end: start + name.length });
+  }
+  return facts;
+}
+
+function extractFacts(content: string): Fact[] {
+  const prose = maskNonProse(content);
+  const dates = extractDates(prose);
+  const overlapsDate = (fact: Fact) => dates.some(date => fact.start < date.end && fact.end > date.start);
+
+  return [
+    ...dates,
+    ...extractNumbers(prose).filter(fact => !overlapsDate(fact)),
+    ...extractNames(prose).filter(fact => !overlapsDate(fact))
+  ].sort((a, b) => a.start - b.start);
+}
+
+function nameTokens(name: string): string[] {
+  return name.toLowerCase().split(/[\s'’-]+/).filter(token => token.length >= 4 && !NON_NAMES.has(token));
+}
+
+// Whether another model's response backs up the fact, allowing for different formatting
+function isCorroborated(fact: Fact, otherFacts: Fact[], otherContent: string): boolean {
+  switch (fact.kind) {
+    case 'number':
+      return otherFacts.some(other =>
+        other.value !== undefined &&
+        Math.abs(other.value - fact.value!) <= Math.abs(fact.value!) * 0.01
+      );
+    case 'date':
+      // Compatible at the precision both sides give ("1889" agrees with "March 31, 1889")
+      return otherFacts.some(other => {
+        if (!other.date) return false;
+        const a = fact.date!;
+        const b = other.date;
+        return a.year === b.year &&
+          (!a.month || !b.month || a.month === b.month) &&
+          (!a.day || !b.day || a.day === b.day);
+      });
+    case 'name': {
+      const lower = otherContent.toLowerCase();
+      if (lower.includes(fact.text.toLowerCase())) return true;
+      const otherWords = new Set(lower.split(/[^\w'’-]+/));
+      return nameTokens(fact.text).some(token => otherWords.has(token));
+    }
+  }
+}
+
+export function flagSuspiciousClaims(responses: ModelResponse[]): UnverifiedClaim[] {
+  if (responses.length < 2) return [];
+
+  const factsByResponse = responses.map(response => extractFacts(response.content));
+
+  return responses.flatMap((response, index) => {
+    const others = responses
+      .map((other, otherIndex) => ({ content: other.content, facts: factsByResponse[otherIndex] }))
+      .filter((_, otherIndex) => otherIndex !== index);
+
+    return factsByResponse[index]
+      .filter(fact => !others.some(other => isCorroborated(fact, other.facts, other.content)))
+      .slice(0, MAX_FLAGS_PER_RESPONSE)
+      .map(fact => ({
+        model: response.model,
+        kind: fact.kind,
+        text: fact.text,
+        start: fact.start,
+        end: fact.end
+      }));
+  });
+}
@@ -1,90 +1,195 @@
 // GPT-4 powered intelligent synthesis
 
-import type { ModelResponse } from '@/types/ai';
+import type { ModelResponse, TokenUsage } from '@/types/ai';
+import { getModelDisplayName } from './providers';
+import { throwIfCancelled } from './cancellation';
+import { resolveResiliencePolicy, withResilience } from './resilience';
+
+export const SYNTHESIS_MODEL = 'gpt-4o-mini'; // Cost-effective GPT-4 variant
+
+export interface GPTSynthesisResult {
+  content: string;
+  error?: string; // Set when GPT synthesis failed and `content` is the excerpt fallback
+  usage?: TokenUsage; // Tokens billed for the synthesis call, when OpenAI reported them
+}
+
+interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+const toTokenUsage = (usage?: CompletionUsage | null): TokenUsage | undefined =>
+  usage ? { model: SYNTHESIS_MODEL, inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } : undefined;
+
+export interface GPTSynthesisOptions {
+  onToken?: (delta: string) => void; // Streams the synthesis as it is generated
+  signal?: AbortSignal; // Cancels the request; a cancelled synthesis throws instead of falling back
+}
 
 export async function createGPT4Synthesis(
   responses: ModelResponse[],
-  alignmentData: { semantic: number; surface: number; overallAlignment: string }
-): Promise<string> {
+  alignmentData: { semantic: number; surface: number; overallAlignment: string },
+  options: GPTSynthesisOptions = {}
+): Promise<GPTSynthesisResult> {
+  const { onToken } = options;
+  // Once synthesis text has streamed to the client, a retry would repeat it
+  let streamed = false;
+
   try {
     const synthesisPrompt = createSynthesisPrompt(responses, alignmentData);
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini', // Cost-effective GPT-4 variant
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert research synthesizer. Your job is to analyze multiple AI responses and create a unified synthesis following this EXACT format:
-
-            CRITICAL FORMAT REQUIREMENTS:
-            1. Start with a 1-2 sentence summary (NO "## Synthesis..." header)
-            2. Follow with consensus areas where models agreed
-            3. Place "Divergent Views" section at the BOTTOM (not after summary)
-            4. End with a conclusion
-
-            STRUCTURE:
-            - Begin directly with the main takeaway (1-2 sentences)
-            - Use ## for main sections like "## Consensus Areas"
-            - Use ### for subsections
-            - Place "## Divergent Views" near the end
-            - End with "## Conclusion"
-            - Use **bold** for emphasis
-            - Use bullet points for lists
-            - Maintain professional markdown structure
-
-            DO NOT include "## Synthesis of AI Model Responses" header.
-            DO NOT put Divergent Views immediately after the summary.`
-          },
-          {
-            role: 'user',
-            content: synthesisPrompt
-          }
-        ],
-        max_tokens: 2000,
-        temperature: 0.3 // Lower temperature for more consistent synthesis
-      })
-    });
+    // Same deadlines, retries and stall timeout as the model calls
+    const { content, usage } = await withResilience(
+      (signal, progress) => requestSynthesis(synthesisPrompt, signal, onToken && (delta => {
+        streamed = true;
+        progress();
+        onToken(delta);
+      })),
+      resolveResiliencePolicy('synthesis'),
+      { signal: options.signal, retryable: () => !streamed }
+    );
 
-    if (!response.ok) {
-      throw new Error(`GPT-4 synthesis API error: ${response.status}`);
+    if (!content) {
+      throw new Error('GPT-4 synthesis returned no content');
     }
-
-    const data = await response.json();
-    return data.choices[0]?.message?.content || 'Unable to generate synthesis';
+    return { content, usage };
   } catch (error) {
+    throwIfCancelled(options.signal);
     console.error('Error creating GPT-4 synthesis:', error);
     // Fallback to simple concatenation
-    return createFallbackSynthesis(responses);
+    return {
+      content: createFallbackSynthesis(responses),
+      error: error instanceof Error ? error.message : String(error)
+    };
   }
 }
 
+async function requestSynthesis(
+  synthesisPrompt: string,
+  signal: AbortSignal,
+  onToken?: (delta: string) => void
+): Promise<{ content?: string; usage?: TokenUsage }> {
+  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: SYNTHESIS_MODEL,
+      messages: [
+        {
+          role: 'system',
+          content: `You are an expert research synthesizer. Your job is to analyze multiple AI responses and create a unified synthesis following this EXACT format:
+
+          CRITICAL FORMAT REQUIREMENTS:
+          1. Start with a 1-2 sentence summary (NO "## Synthesis..." header)
+          2. Follow with consensus areas where models agreed
+          3. Place "Divergent Views" section at the BOTTOM (not after summary)
+          4. End with a conclusion
+
+          STRUCTURE:
+          - Begin directly with the main takeaway (1-2 sentences)
+          - Use ## for main sections like "## Consensus Areas"
+          - Use ### for subsections
+          - Place "## Divergent Views" near the end
+          - End with "## Conclusion"
+          - Use **bold** for emphasis
+          - Use bullet points for lists
+          - Maintain professional markdown structure
+
+          DO NOT include "## Synthesis of AI Model Responses" header.
+          DO NOT put Divergent Views immediately after the summary.`
+        },
+        {
+          role: 'user',
+          content: synthesisPrompt
+        }
+      ],
+      max_tokens: 2000,
+      temperature: 0.3, // Lower temperature for more consistent synthesis
+      stream: Boolean(onToken),
+      ...(onToken && { stream_options: { include_usage: true } })
+    }),
+    signal
+  });
+
+  if (!response.ok) {
+    throw Object.assign(new Error(`GPT-4 synthesis API error: ${response.status}`), { status: response.status });
+  }
+
+  return onToken ? readCompletionStream(response, onToken) : readCompletion(response);
+}
+
+async function readCompletion(response: Response): Promise<{ content?: string; usage?: TokenUsage }> {
+  const data = await response.json();
+  return { content: data.choices[0]?.message?.content, usage: toTokenUsage(data.usage) };
+}
+
+// Reads an OpenAI chat completion event stream, reporting each text delta and returning the full text
+// along with the usage from the stream's final chunk
+async function readCompletionStream(
+  response: Response,
+  onToken: (delta: string) => void
+): Promise<{ content: string; usage?: TokenUsage }> {
+  if (!response.body) {
+    throw new Error('GPT-4 synthesis stream has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let usage: TokenUsage | undefined;
+
+  const handleLine = (line: string) => {
+    const data = line.trim().replace(/^data:\s*/, '');
+    if (!line.startsWith('data:') || data === '[DONE]') return;
+    const chunk = JSON.parse(data);
+    const delta: string | undefined = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onToken(delta);
+    }
+    usage = toTokenUsage(chunk.usage) ?? usage;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      // Events can be split across network chunks; keep the trailing partial line for the next read
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+
+  return { content: text, usage };
+}
+
 function createSynthesisPrompt(
   responses: ModelResponse[],
   alignmentData: { semantic: number; surface: number; overallAlignment: string }
 ): string {
   const alignmentContext = getAlignmentContext(alignmentData);
 
-  return `Please synthesize these three AI model responses into a unified, comprehensive answer:
+  const responseSections = responses.map((response, index) =>
+    `**Response ${index + 1} (${getModelDisplayName(response.model)})**:\n${response.content || 'No response'}`
+  ).join('\n\n');
 
-**Alignment Analysis**: ${alignmentContext}
-
-**Response 1 (Gemini)**:
-${responses.find(r => r.model === 'gemini')?.content || 'No response'}
+  return `Please synthesize these ${responses.length} AI model responses into a unified, comprehensive answer:
 
-**Response 2 (OpenAI)**:
-${responses.find(r => r.model === 'openai')?.content || 'No response'}
+**Alignment Analysis**: ${alignmentContext}
 
-**Response 3 (Claude)**:
-${responses.find(r => r.model === 'claude')?.content || 'No response'}
+${responseSections}
 
 **Instructions**:
-1. Create a synthesis that represents the collective intelligence of all three models
+1. Create a synthesis that represents the collective intelligence of all ${responses.length} models
 2. Highlight areas where models agree and complement each other
 3. Address any contradictions or different perspectives
 4. Provide a balanced, comprehensive response
@@ -114,7 +219,7 @@ function createFallbackSynthesis(responses: ModelResponse[]): string {
   const intro = 'Based on analysis from multiple AI models, here is a synthesis of their responses:';
 
   const sections = responses.map((response) => {
-    const modelName = response.model.charAt(0).toUpperCase() + response.model.slice(1);
+    const modelName = getModelDisplayName(response.model);
     return `**${modelName} Perspective**: ${response.content.substring(0, 200)}...`;
   });
 
@@ -0,0 +1,91 @@
+// Model call failures: classifying SDK and HTTP errors into ModelErrorCodes, and what to tell the user
+
+import type { ModelErrorCode, ModelFailure, ModelResponse, ModelResult } from '@/types/ai';
+
+// Failures that might not happen again: worth retrying later
+const RETRYABLE_CODES = new Set<ModelErrorCode>(['rate_limited', 'server_error', 'network', 'timeout', 'circuit_open']);
+
+// Failures that can come after the provider took the request and billed its tokens; a refused or
+// skipped call never reached a model
+const BILLABLE_CODES = new Set<ModelErrorCode>(['server_error', 'network', 'timeout', 'unknown']);
+
+const NETWORK_ERROR = /fetch failed|network|socket hang up|ECONNRESET|ECONNREFUSED|ENOTFOUND|ETIMEDOUT/i;
+
+export class ModelCallError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ModelErrorCode,
+    public readonly httpStatus?: number
+  ) {
+    super(message);
+    this.name = 'ModelCallError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.has(this.code);
+  }
+}
+
+export function mayHaveBeenBilled(code: ModelErrorCode): boolean {
+  return BILLABLE_CODES.has(code);
+}
+
+export function errorCodeForStatus(status: number): ModelErrorCode {
+  if (status === 429) return 'rate_limited';
+  if (status === 401 || status === 403) return 'auth';
+  if (status >= 500) return 'server_error';
+  if (status >= 400) return 'bad_request';
+  return 'unknown';
+}
+
+// Provider SDKs (OpenAI, Anthropic, Google) expose the HTTP status as `status` on their API errors
+export function toModelCallError(error: unknown, prefix: string): ModelCallError {
+  if (error instanceof ModelCallError) {
+    return new ModelCallError(`${prefix} ${error.message.toLowerCase()}`, error.code, error.httpStatus);
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    return new ModelCallError(`${prefix} API call failed: ${message}`, errorCodeForStatus(status), status);
+  }
+  return new ModelCallError(`${prefix} API call failed: ${message}`, NETWORK_ERROR.test(message) ? 'network' : 'unknown');
+}
+
+// Splits a panel's results into answers to synthesize and failures to report, keeping panel order
+export function partitionModelResults(results: ModelResult[]): { responses: ModelResponse[]; failures: ModelFailure[] } {
+  const responses: ModelResponse[] = [];
+  const failures: ModelFailure[] = [];
+
+  for (const result of results) {
+    if (result.ok) {
+      responses.push({ model: result.model, label: result.label, content: result.content, responseTime: result.responseTime });
+    } else {
+      const { model, label, provider, code, message, retryable, httpStatus, responseTime } = result;
+      failures.push({ model, label, provider, code, message, retryable, httpStatus, responseTime });
+    }
+  }
+  return { responses, failures };
+}
+
+// Actionable one-liners for the consensus page
+export function describeModelFailure(failure: Pick<ModelFailure, 'code' | 'message'>, name: string): string {
+  switch (failure.code) {
+    case 'rate_limited':
+      return `${name} is rate limiting requests. Wait a minute and try again.`;
+    case 'auth':
+      return `${name} rejected the API key. Check that its key is set and valid.`;
+    case 'bad_request':
+      return `${name} rejected the request. Try a shorter prompt or remove attachments.`;
+    case 'server_error':
+      return `${name} had a server error. Try again shortly.`;
+    case 'network':
+      return `Couldn't reach ${name}. Check the server's network connection.`;
+    case 'timeout':
+      return `${name} didn't answer in time. Try again, or pick a faster model.`;
+    case 'circuit_open':
+      return `${name} was skipped because it has been failing repeatedly. It will be tried again automatically.`;
+    default:
+      return `${name} failed: ${failure.message}`;
+  }
+}
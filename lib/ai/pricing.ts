@@ -0,0 +1,32 @@
+// Per-model token prices, used to turn the usage providers report into dollars.
+// Bump PRICE_TABLE_VERSION whenever a price changes; each tracked query records the version it was priced with.
+
+import type { TokenUsage } from '@/types/ai';
+
+export const PRICE_TABLE_VERSION = '2025-07-01';
+
+export interface ModelPrice {
+  input: number; // USD per million input tokens
+  output: number; // USD per million output tokens
+}
+
+// Keyed by vendor model id, covering every model the providers offer plus the synthesis and embedding models
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-opus-4-20250514': { input: 15, output: 75 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'text-embedding-3-small': { input: 0.02, output: 0 }
+};
+
+// USD for the reported usage, or undefined when the model has no price in the table
+export function priceUsage(usage: TokenUsage, prices: Record<string, ModelPrice> = MODEL_PRICES): number | undefined {
+  const price = prices[usage.model];
+  if (!price) return undefined;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
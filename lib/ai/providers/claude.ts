@@ -0,0 +1,86 @@
+// Anthropic Claude provider
+
+import type { ModelProvider } from '@/types/ai';
+
+type ClaudeImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+export const claudeProvider: ModelProvider = {
+  id: 'claude',
+  displayName: 'Claude',
+  color: '#F97316',
+  apiKeyEnv: 'ANTHROPIC_API_KEY',
+  estimatedCost: 0.02,
+  capabilities: { images: true, documents: false },
+  models: [
+    { id: 'claude-sonnet-4-20250514', label: 'Claude Sonnet 4' },
+    { id: 'claude-opus-4-20250514', label: 'Claude Opus 4', estimatedCost: 0.1 },
+    { id: 'claude-3-5-haiku-20241022', label: 'Claude 3.5 Haiku', estimatedCost: 0.005 }
+  ],
+  defaultModel: 'claude-sonnet-4-20250514',
+
+  // Images are scaled to fit 1568px on the long edge, then cost one token per 750 pixels
+  imageTokens({ width, height }) {
+    const fit = Math.min(1, 1568 / Math.max(width, height));
+    return Math.ceil((width * fit * height * fit) / 750);
+  },
+
+  async generate({ prompt, model, attachments, temperature, maxTokens, onToken, signal }) {
+    const { default: Anthropic } = await import('@anthropic-ai/sdk');
+    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY! });
+
+    const messageContent: Array<{ type: 'text'; text: string } | { type: 'image'; source: { type: 'base64'; media_type: ClaudeImageMediaType; data: string } }> = [];
+    messageContent.push({ type: 'text', text: prompt });
+
+    if (attachments && attachments.length > 0) {
+      attachments.forEach((attachment) => {
+        if (attachment.type === 'image') {
+          // Ensure media_type is one of the allowed values
+          const mediaType = attachment.mimeType as ClaudeImageMediaType;
+          messageContent.push({
+            type: 'image',
+            source: {
+              type: 'base64',
+              media_type: mediaType,
+              data: attachment.base64
+            }
+          });
+        }
+      });
+    }
+
+    const params = {
+      model,
+      max_tokens: maxTokens ?? 4000,
+      temperature,
+      messages: [{ role: 'user' as const, content: messageContent }]
+    };
+
+    if (onToken) {
+      const stream = await anthropic.messages.create({ ...params, stream: true }, { signal });
+      let text = '';
+      // Input tokens come with message_start; message_delta carries the running output count
+      const usage = { model, inputTokens: 0, outputTokens: 0 };
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          text += event.delta.text;
+          onToken(event.delta.text);
+        } else if (event.type === 'message_start') {
+          usage.inputTokens = event.message.usage.input_tokens;
+          usage.outputTokens = event.message.usage.output_tokens;
+        } else if (event.type === 'message_delta') {
+          usage.outputTokens = event.usage.output_tokens;
+        }
+      }
+      return { content: text || 'No response', usage };
+    }
+
+    const response = await anthropic.messages.create(params, { signal });
+
+    return {
+      content: response.content[0]?.type === 'text'
+        ? response.content[0].text
+        : 'No response',
+      usage: { model, inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens }
+    };
+  }
+};
@@ -0,0 +1,70 @@
+// Google Gemini provider
+
+import type { UsageMetadata } from '@google/generative-ai';
+import type { ModelProvider } from '@/types/ai';
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  displayName: 'Gemini',
+  color: '#4285F4',
+  apiKeyEnv: 'GOOGLE_API_KEY',
+  estimatedCost: 0.01,
+  capabilities: { images: true, documents: false },
+  models: [
+    { id: 'gemini-1.5-flash-8b', label: 'Gemini 1.5 Flash' },
+    { id: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro', estimatedCost: 0.02 },
+    { id: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash', estimatedCost: 0.005 }
+  ],
+  defaultModel: 'gemini-1.5-flash-8b',
+
+  // 258 tokens for a small image; larger ones are cut into 768px tiles of 258 tokens each
+  imageTokens({ width, height }) {
+    if (width <= 384 && height <= 384) return 258;
+    return Math.ceil(width / 768) * Math.ceil(height / 768) * 258;
+  },
+
+  async generate({ prompt, model, attachments, temperature, maxTokens, onToken, signal }) {
+    const { GoogleGenerativeAI } = await import('@google/generative-ai');
+    const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
+    const geminiModel = genAI.getGenerativeModel({
+      model,
+      generationConfig: { temperature, maxOutputTokens: maxTokens }
+    });
+
+    const parts: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }> = [];
+    parts.push({ text: prompt });
+
+    if (attachments && attachments.length > 0) {
+      attachments.forEach((attachment) => {
+        if (attachment.type === 'image') {
+          parts.push({
+            inlineData: {
+              mimeType: attachment.mimeType,
+              data: attachment.base64
+            }
+          });
+        }
+      });
+    }
+
+    const toUsage = (metadata?: UsageMetadata) =>
+      metadata ? { model, inputTokens: metadata.promptTokenCount, outputTokens: metadata.candidatesTokenCount } : undefined;
+
+    if (onToken) {
+      const { stream, response } = await geminiModel.generateContentStream(parts, { signal });
+      let text = '';
+      for await (const chunk of stream) {
+        const delta = chunk.text();
+        if (delta) {
+          text += delta;
+          onToken(delta);
+        }
+      }
+      return { content: text, usage: toUsage((await response).usageMetadata) };
+    }
+
+    const result = await geminiModel.generateContent(parts, { signal });
+    const response = await result.response;
+    return { content: response.text(), usage: toUsage(response.usageMetadata) };
+  }
+};
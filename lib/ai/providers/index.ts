@@ -0,0 +1,88 @@
+// Model provider entry point: registry, panel resolution and the shared model call
+
+import type { FileAttachment, ModelFailure, ModelResult } from '@/types/ai';
+import type { ResolvedModel } from './panel';
+import { throwIfCancelled } from '../cancellation';
+import { ModelCallError, toModelCallError } from '../model-errors';
+import { circuitBreakers, resolveResiliencePolicy, withResilience } from '../resilience';
+
+export * from './registry';
+export * from './panel';
+
+// Provider failures come back as `ok: false` results rather than throwing; only cancellation throws
+export async function callModel(
+  target: ResolvedModel,
+  prompt: string,
+  attachments?: FileAttachment[],
+  options: { onToken?: (delta: string) => void; signal?: AbortSignal } = {}
+): Promise<ModelResult> {
+  const { provider } = target;
+  const startTime = Date.now();
+  const fail = (error: ModelCallError): { ok: false } & ModelFailure => ({
+    ok: false,
+    model: target.key,
+    label: target.label,
+    provider: provider.id,
+    code: error.code,
+    message: error.message,
+    retryable: error.retryable,
+    httpStatus: error.httpStatus,
+    responseTime: Date.now() - startTime
+  });
+
+  // Only forward attachments the provider can actually consume
+  const supportedAttachments = attachments?.filter(attachment =>
+    attachment.type === 'image' ? provider.capabilities.images : provider.capabilities.documents
+  );
+
+  // A provider that keeps failing is skipped outright until its cooldown passes
+  const breaker = circuitBreakers.get(provider.id);
+  if (!breaker.allowRequest()) {
+    return fail(new ModelCallError(`${target.key} skipped: ${provider.displayName} failed repeatedly`, 'circuit_open'));
+  }
+
+  // Once text has streamed to the client, a retry would repeat it
+  let streamed = false;
+  const { onToken } = options;
+
+  try {
+    const { content, usage } = await withResilience(
+      (signal, progress) => provider.generate({
+        prompt,
+        model: target.model,
+        attachments: supportedAttachments,
+        temperature: target.temperature,
+        maxTokens: target.maxTokens,
+        onToken: onToken && (delta => {
+          streamed = true;
+          progress();
+          onToken(delta);
+        }),
+        signal
+      }),
+      resolveResiliencePolicy(provider.id, provider.timeoutMs),
+      { signal: options.signal, retryable: () => !streamed }
+    );
+    breaker.recordSuccess();
+
+    return {
+      ok: true,
+      model: target.key,
+      label: target.label,
+      content,
+      usage,
+      responseTime: Date.now() - startTime
+    };
+  } catch (error) {
+    const failure = toModelCallError(error, target.key);
+    // Only provider-side failures count toward opening the circuit; a bad request or key is the
+    // caller's, and a cancelled call never found out
+    if (failure.retryable && !options.signal?.aborted) {
+      breaker.recordFailure();
+    } else {
+      breaker.releaseTrial();
+    }
+    throwIfCancelled(options.signal);
+    return fail(failure);
+  }
+}
@@ -0,0 +1,83 @@
+// OpenAI chat completions provider
+
+import type { ModelProvider } from '@/types/ai';
+
+export const openaiProvider: ModelProvider = {
+  id: 'openai',
+  displayName: 'ChatGPT',
+  color: '#10A37F',
+  apiKeyEnv: 'OPENAI_API_KEY',
+  estimatedCost: 0.03,
+  capabilities: { images: true, documents: false },
+  models: [
+    { id: 'gpt-4o', label: 'ChatGPT 4o' },
+    { id: 'gpt-4o-mini', label: 'ChatGPT 4o mini', estimatedCost: 0.002 },
+    { id: 'gpt-4.1', label: 'GPT-4.1', estimatedCost: 0.025 }
+  ],
+  defaultModel: 'gpt-4o',
+
+  // High detail: fit within 2048px, shortest side down to 768px, then 170 tokens per 512px tile plus 85
+  imageTokens({ width, height }) {
+    const fit = Math.min(1, 2048 / Math.max(width, height));
+    const shrink = Math.min(1, 768 / (Math.min(width, height) * fit));
+    const tiles = Math.ceil((width * fit * shrink) / 512) * Math.ceil((height * fit * shrink) / 512);
+    return 85 + 170 * tiles;
+  },
+
+  async generate({ prompt, model, attachments, temperature, maxTokens, onToken, signal }) {
+    const { default: OpenAI } = await import('openai');
+    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+
+    const userContent: Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }> = [];
+    userContent.push({ type: 'text', text: prompt });
+
+    if (attachments && attachments.length > 0) {
+      attachments.forEach((attachment) => {
+        if (attachment.type === 'image') {
+          userContent.push({
+            type: 'image_url',
+            image_url: {
+              url: `data:${attachment.mimeType};base64,${attachment.base64}`
+            }
+          });
+        }
+      });
+    }
+
+    const params = {
+      model,
+      messages: [{ role: 'user' as const, content: userContent }],
+      max_tokens: maxTokens ?? 4000,
+      temperature,
+    };
+
+    const toUsage = (usage?: { prompt_tokens: number; completion_tokens: number } | null) =>
+      usage ? { model, inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } : undefined;
+
+    if (onToken) {
+      // Usage arrives in a final chunk with no choices
+      const stream = await openai.chat.completions.create(
+        { ...params, stream: true, stream_options: { include_usage: true } },
+        { signal }
+      );
+      let text = '';
+      let usage;
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onToken(delta);
+        }
+        usage = toUsage(chunk.usage) ?? usage;
+      }
+      return { content: text || 'No response', usage };
+    }
+
+    const completion = await openai.chat.completions.create(params, { signal });
+
+    return {
+      content: completion.choices[0]?.message?.content || 'No response',
+      usage: toUsage(completion.usage)
+    };
+  }
+};
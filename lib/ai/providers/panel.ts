@@ -0,0 +1,93 @@
+// Model panel resolution and validation for user-selected models
+
+import type { ModelId, ModelProvider, ModelSelection } from '@/types/ai';
+import { providerRegistry } from './registry';
+
+export const MIN_PANEL_SIZE = 2;
+export const MAX_PANEL_SIZE = 8;
+
+export interface ResolvedModel {
+  key: ModelId;
+  provider: ModelProvider;
+  model: string;
+  label: string;
+  estimatedCost: number;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export class ModelSelectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelSelectionError';
+  }
+}
+
+// Default panel: every registered provider with its default model
+export function getDefaultModelSelections(): ModelSelection[] {
+  return providerRegistry.list().map(provider => ({
+    provider: provider.id,
+    model: provider.defaultModel
+  }));
+}
+
+// Validate the requested panel and resolve each entry to its provider.
+// Throws ModelSelectionError with a user-facing message on invalid input.
+export function resolveModelPanel(selections: unknown = getDefaultModelSelections()): ResolvedModel[] {
+  if (!Array.isArray(selections)) {
+    throw new ModelSelectionError('models must be an array of { provider, model } selections');
+  }
+
+  if (selections.length < MIN_PANEL_SIZE) {
+    throw new ModelSelectionError(`At least ${MIN_PANEL_SIZE} models are required for synthesis`);
+  }
+
+  if (selections.length > MAX_PANEL_SIZE) {
+    throw new ModelSelectionError(`At most ${MAX_PANEL_SIZE} models can be compared at once`);
+  }
+
+  const seen = new Set<string>();
+  const resolved = selections.map((selection: Partial<ModelSelection>) => {
+    const provider = typeof selection?.provider === 'string' ? providerRegistry.get(selection.provider) : undefined;
+    if (!provider) {
+      throw new ModelSelectionError(`Unknown model provider: ${String(selection?.provider)}`);
+    }
+
+    const option = provider.models.find(m => m.id === selection.model);
+    if (!option) {
+      throw new ModelSelectionError(`Unknown model for ${provider.id}: ${String(selection.model)}`);
+    }
+
+    const { temperature, maxTokens } = selection;
+    if (temperature !== undefined && (typeof temperature !== 'number' || temperature < 0 || temperature > 2)) {
+      throw new ModelSelectionError(`Invalid temperature for ${option.id}: must be between 0 and 2`);
+    }
+    if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > 8192)) {
+      throw new ModelSelectionError(`Invalid maxTokens for ${option.id}: must be an integer between 1 and 8192`);
+    }
+
+    const identity = `${provider.id}:${option.id}`;
+    if (seen.has(identity)) {
+      throw new ModelSelectionError(`Duplicate model selection: ${option.id}`);
+    }
+    seen.add(identity);
+
+    return {
+      provider,
+      model: option.id,
+      label: option.label,
+      estimatedCost: option.estimatedCost ?? provider.estimatedCost,
+      temperature,
+      maxTokens
+    };
+  });
+
+  // Keep the short provider id as the key unless the provider appears more than once
+  return resolved.map(entry => {
+    const providerCount = resolved.filter(other => other.provider.id === entry.provider.id).length;
+    return {
+      ...entry,
+      key: providerCount > 1 ? `${entry.provider.id}:${entry.model}` : entry.provider.id
+    };
+  });
+}
@@ -0,0 +1,62 @@
+// Model provider registry
+// Routes, synthesis, cost tracking and the consensus page all read providers from here,
+// so adding a model means registering one more provider below.
+
+import type { ModelId, ModelProvider } from '@/types/ai';
+import { geminiProvider } from './gemini';
+import { openaiProvider } from './openai';
+import { claudeProvider } from './claude';
+
+class ProviderRegistry {
+  private providers = new Map<ModelId, ModelProvider>();
+
+  register(provider: ModelProvider): void {
+    if (this.providers.has(provider.id)) {
+      throw new Error(`Provider "${provider.id}" is already registered`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: ModelId): ModelProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  has(id: ModelId): boolean {
+    return this.providers.has(id);
+  }
+
+  list(): ModelProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  ids(): ModelId[] {
+    return Array.from(this.providers.keys());
+  }
+
+  // Environment variables required by the given providers that are not set
+  getMissingApiKeys(ids: ModelId[] = this.ids()): string[] {
+    return ids
+      .map(id => this.providers.get(id)?.apiKeyEnv)
+      .filter((key): key is string => !!key && !process.env[key]);
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
+
+providerRegistry.register(geminiProvider);
+providerRegistry.register(openaiProvider);
+providerRegistry.register(claudeProvider);
+
+// Provider for a model key, accepting both 'claude' and 'claude:<model>' forms
+export function getModelProvider(key: ModelId): ModelProvider | undefined {
+  return providerRegistry.get(key.split(':')[0]);
+}
+
+// Human readable name for a model key, falling back to the raw key for unknown models
+export function getModelDisplayName(key: ModelId): string {
+  const [providerId, modelId] = key.split(':');
+  const provider = providerRegistry.get(providerId);
+  if (!provider) return key;
+  if (!modelId) return provider.displayName;
+  return provider.models.find(m => m.id === modelId)?.label ?? key;
+}
@@ -0,0 +1,186 @@
+// Resilience for provider calls: per-call deadlines, exponential-backoff retries on 429/5xx,
+// and a per-provider circuit breaker that skips providers which keep failing
+
+import { throwIfCancelled } from './cancellation';
+import { ModelCallError } from './model-errors';
+
+export interface ResiliencePolicy {
+  timeoutMs: number; // Deadline for the whole call, retries included; once output streams, for each gap between chunks
+  totalTimeoutMs: number; // Hard limit on the whole call, however steadily its output streams
+  maxRetries: number;
+  baseDelayMs: number; // Doubles on every retry, plus up to the same again in jitter
+}
+
+export interface CircuitBreakerPolicy {
+  failureThreshold: number; // Consecutive failed calls before the circuit opens
+  cooldownMs: number; // How long an open circuit skips the provider before a trial call
+}
+
+// Leaves room for synthesis inside the 50-second Phase 1 budget
+export const DEFAULT_RESILIENCE_POLICY: ResiliencePolicy = {
+  timeoutMs: 40 * 1000,
+  totalTimeoutMs: 45 * 1000,
+  maxRetries: 2,
+  baseDelayMs: 500
+};
+
+export const DEFAULT_CIRCUIT_BREAKER_POLICY: CircuitBreakerPolicy = {
+  failureThreshold: 3,
+  cooldownMs: 60 * 1000
+};
+
+// MODEL_TIMEOUT_MS, MODEL_TOTAL_TIMEOUT_MS and MODEL_MAX_RETRIES apply to every provider; <PROVIDER>_TIMEOUT_MS
+// and <PROVIDER>_TOTAL_TIMEOUT_MS (e.g. CLAUDE_TIMEOUT_MS) win per provider
+export function resolveResiliencePolicy(providerId: string, providerTimeoutMs?: number): ResiliencePolicy {
+  const envNumber = (name: string): number | undefined => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0 ? value : undefined;
+  };
+  const prefix = providerId.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+
+  return {
+    ...DEFAULT_RESILIENCE_POLICY,
+    timeoutMs: envNumber(`${prefix}_TIMEOUT_MS`) ?? providerTimeoutMs ?? envNumber('MODEL_TIMEOUT_MS') ?? DEFAULT_RESILIENCE_POLICY.timeoutMs,
+    totalTimeoutMs: envNumber(`${prefix}_TOTAL_TIMEOUT_MS`) ?? envNumber('MODEL_TOTAL_TIMEOUT_MS') ?? DEFAULT_RESILIENCE_POLICY.totalTimeoutMs,
+    maxRetries: envNumber('MODEL_MAX_RETRIES') ?? DEFAULT_RESILIENCE_POLICY.maxRetries
+  };
+}
+
+// Rate limits and server errors are worth another attempt; bad requests and auth failures are not
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' && (status === 429 || status >= 500);
+}
+
+// Runs `operation` until it succeeds, fails for good, or runs out of time. Each attempt gets its own
+// signal, aborted on timeout or when `signal` is. `retryable` can veto a retry, e.g. once output streamed.
+// A streaming attempt calls `progress` per chunk: from then on it times out when output stalls, so a
+// long answer isn't cut off after its first tokens reached the client, or at `totalTimeoutMs` overall.
+export async function withResilience<T>(
+  operation: (signal: AbortSignal, progress: () => void) => Promise<T>,
+  policy: ResiliencePolicy,
+  options: { signal?: AbortSignal; retryable?: () => boolean } = {}
+): Promise<T> {
+  const { signal, retryable = () => true } = options;
+  const startTime = Date.now();
+  const limit = startTime + policy.totalTimeoutMs;
+  const deadline = Math.min(startTime + policy.timeoutMs, limit);
+
+  for (let attempt = 0; ; attempt++) {
+    const attemptController = new AbortController();
+    const abort = () => attemptController.abort();
+    signal?.addEventListener('abort', abort);
+    let timedOut = false;
+    let overLimit = false;
+    let streaming = false; // Once output arrives, the timer measures the gap since the last chunk
+    let timer: NodeJS.Timeout | undefined;
+    const arm = (delay: number) => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        abort();
+      }, delay);
+    };
+    arm(deadline - Date.now());
+    const progress = () => {
+      streaming = true;
+      arm(policy.timeoutMs);
+    };
+    const limitTimer = setTimeout(() => {
+      overLimit = true;
+      abort();
+    }, Math.max(0, limit - Date.now()));
+
+    try {
+      return await operation(attemptController.signal, progress);
+    } catch (error) {
+      throwIfCancelled(signal);
+      if (overLimit) {
+        throw new ModelCallError(`Exceeded the ${policy.totalTimeoutMs}ms limit`, 'timeout');
+      }
+      if (timedOut) {
+        throw new ModelCallError(
+          streaming ? `Stream stalled for ${policy.timeoutMs}ms` : `Timed out after ${policy.timeoutMs}ms`,
+          'timeout'
+        );
+      }
+
+      const delay = policy.baseDelayMs * 2 ** attempt * (1 + Math.random());
+      const canRetry = attempt < policy.maxRetries && isRetryableError(error) && retryable();
+      if (!canRetry || Date.now() + delay >= deadline) {
+        throw error;
+      }
+      console.warn(`🔁 Retrying after ${error instanceof Error ? error.message : 'error'} (attempt ${attempt + 2} in ${Math.round(delay)}ms)`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      throwIfCancelled(signal);
+    } finally {
+      clearTimeout(timer);
+      clearTimeout(limitTimer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+}
+
+type CircuitState = 'closed' | 'open' | 'half_open';
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+
+  constructor(private readonly policy: CircuitBreakerPolicy = DEFAULT_CIRCUIT_BREAKER_POLICY) {}
+
+  // An open circuit lets a single trial call through once its cooldown has passed
+  allowRequest(): boolean {
+    if (this.state === 'closed') return true;
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.policy.cooldownMs) {
+      this.state = 'half_open';
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.policy.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  // Ends a trial call that said nothing about the provider's health (e.g. it was cancelled),
+  // so the next request gets the trial instead of the circuit staying half open for good
+  releaseTrial(): void {
+    if (this.state === 'half_open') {
+      this.state = 'open';
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+}
+
+class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  get(providerId: string): CircuitBreaker {
+    let breaker = this.breakers.get(providerId);
+    if (!breaker) {
+      breaker = new CircuitBreaker();
+      this.breakers.set(providerId, breaker);
+    }
+    return breaker;
+  }
+
+  reset(): void {
+    this.breakers.clear();
+  }
+}
+
+export const circuitBreakers = new CircuitBreakerRegistry();
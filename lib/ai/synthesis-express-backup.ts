@@ -112,9 +112,8 @@ async function calculateAlignment(responses: ModelResponse[]): Promise<Alignment
   return {
     semantic,
     surface,
-    gemini: geminiAlignment,
-    chatgpt: chatgptAlignment,
-    claude: claudeAlignment,
+    models: { gemini: geminiAlignment, openai: chatgptAlignment, claude: claudeAlignment },
+    similarityMatrix: { models: responses.map(r => r.model), scores: [] },
     overallAlignment: overallLevel,
     description: getDescription(semantic, surface),
     methodology: 'semantic-similarity-v2',
@@ -133,6 +132,7 @@ function findDivergences(responses: ModelResponse[]): DivergentSection[] {
   
   if (maxLength > avgLength * 1.3 || minLength < avgLength * 0.7) {
     divergences.push({
+      kind: 'style',
       topic: "Response Detail Level",
       content: "Models provided different levels of detail in their responses",
       models: responses.map(r => r.model),
@@ -146,6 +146,7 @@ function findDivergences(responses: ModelResponse[]): DivergentSection[] {
   
   if (formalityRange > 0.2) {
     divergences.push({
+      kind: 'style',
       topic: "Communication Style",
       content: "Models adopted different communication approaches",
       models: responses.map(r => r.model),
@@ -163,6 +164,7 @@ function findDivergences(responses: ModelResponse[]): DivergentSection[] {
   const diversityRatio = sharedKeywords.length / uniqueKeywords.size;
   if (diversityRatio < 0.3) {
     divergences.push({
+      kind: 'style',
       topic: "Conceptual Focus",
       content: "Models emphasized different aspects and concepts",
       models: responses.map(r => r.model),
@@ -303,9 +305,8 @@ export async function synthesizeWithErrorHandling(
         alignment: {
           semantic: 1.0,
           surface: 1.0,
-          gemini: 'high',
-          chatgpt: 'high', 
-          claude: 'high',
+          models: Object.fromEntries(responses.map(r => [r.model, 'high' as const])),
+          similarityMatrix: { models: responses.map(r => r.model), scores: [] },
           overallAlignment: 'high',
           description: 'Single model response',
           methodology: 'semantic-similarity-v2',
@@ -337,9 +338,8 @@ export async function synthesizeWithErrorHandling(
       alignment: {
         semantic: 0.0,
         surface: 0.0,
-        gemini: 'low',
-        chatgpt: 'low',
-        claude: 'low',
+        models: Object.fromEntries(responses.map(r => [r.model, 'low' as const])),
+        similarityMatrix: { models: responses.map(r => r.model), scores: [] },
         overallAlignment: 'low',
         description: 'Synthesis error occurred',
         methodology: 'semantic-similarity-v2',
@@ -347,6 +347,7 @@ export async function synthesizeWithErrorHandling(
       },
       alignedPoints: [],
       divergentSections: [{
+        kind: 'style',
         topic: "Synthesis Error",
         content: "Unable to synthesize responses due to technical error",
         models: responses.map(r => r.model),
@@ -1,92 +1,226 @@
-import type { ModelResponse, ConsensusAnalysis, AlignedPoint, DivergentSection, AlignmentData } from '@/types/ai';
-import { calculateSemanticSimilarity, calculateJaccardSimilarity } from './embeddings';
-import { createGPT4Synthesis } from './gpt-synthesis';
+import type {
+  ModelResponse,
+  ModelFailure,
+  ConsensusAnalysis,
+  AlignedPoint,
+  StyleDivergence,
+  AlignmentData,
+  AlignmentLevel,
+  ModelId,
+  SimilarityMatrix,
+  EmbeddingBackendId,
+  SynthesisProgress,
+  SynthesisProgressStage,
+  TokenUsage
+} from '@/types/ai';
+import { computeSimilarityMatrix, calculateJaccardSimilarity, type SemanticSimilarityMatrix } from './embeddings';
+import { createGPT4Synthesis, SYNTHESIS_MODEL, type GPTSynthesisOptions } from './gpt-synthesis';
+import { clusterBySimilarity, extractClaims, toAlignedPoints, type ClaimAnalysis } from './claims';
+import { findContradictions } from './contradictions';
+import { flagSuspiciousClaims } from './fact-check';
+import { createDiagnostics, embeddingConfidence, uniformDiagnostics } from './diagnostics';
+import { QueryCancelledError } from './cancellation';
+
+// The pipeline's billable calls, besides the model answers themselves
+export type UsageStage = 'embeddings' | 'synthesis';
+
+export interface SynthesisOptions extends GPTSynthesisOptions {
+  onProgress?: (progress: SynthesisProgress) => void; // Called at each real stage boundary
+  onUsage?: (stage: UsageStage, usage: TokenUsage) => void; // Called for every call that reported token usage
+}
+
+// Reports a stage boundary with the time spent since the previous one
+function createProgressReporter(onProgress?: SynthesisOptions['onProgress']) {
+  const startTime = Date.now();
+  let lastTime = startTime;
+
+  return (stage: SynthesisProgressStage) => {
+    const now = Date.now();
+    onProgress?.({ stage, durationMs: now - lastTime, elapsedMs: now - startTime });
+    lastTime = now;
+  };
+}
 
 export async function synthesizeResponses(
-  responses: ModelResponse[]
+  responses: ModelResponse[],
+  options: SynthesisOptions = {}
 ): Promise<ConsensusAnalysis> {
+  const { onProgress, onToken, onUsage, signal } = options;
+  const report = createProgressReporter(onProgress);
+  const onEmbeddingUsage = onUsage && ((usage: TokenUsage) => onUsage('embeddings', usage));
+
+  // Extract atomic claims, then embed them and the whole responses in a single round trip: equivalent
+  // claims are clustered across models and whole responses scored, each from its own block of the matrix
+  report('embeddings_requested');
+  const claims = responses.flatMap(extractClaims);
+  const embedded = await computeSimilarityMatrix(
+    [...claims.map(claim => claim.text), ...responses.map(r => r.content)],
+    signal,
+    onEmbeddingUsage
+  );
+  const claimAnalysis = clusterBySimilarity(claims, sliceSimilarity(embedded, 0, claims.length));
+  const similarity = calculateSimilarityMatrix(responses, sliceSimilarity(embedded, claims.length, responses.length));
+  report('embeddings_done');
+  
   // Calculate alignment with aligned points
-  const alignmentResult = await calculateAlignment(responses);
-  const divergences = findDivergences(responses);
+  const alignmentResult = calculateAlignment(responses, claimAnalysis, similarity);
+  const similarityFallback = similarity.fallbackReason;
+  report('alignment_computed');
+
+  // Substantive contradictions lead; stylistic differences are secondary
+  const contradictions = findContradictions(claimAnalysis);
+  const divergences = [...contradictions, ...findStyleDivergences(responses)];
+  const unverifiedClaims = flagSuspiciousClaims(responses);
+  report('divergences_computed');
   
   // Create a unified response using GPT-4 synthesis
-  const unifiedResponse = await createGPT4Synthesis(responses, {
+  let synthesisStarted = false;
+  const synthesis = await createGPT4Synthesis(responses, {
     semantic: alignmentResult.semantic,
     surface: alignmentResult.surface,
     overallAlignment: alignmentResult.overallAlignment
+  }, {
+    onToken: onToken && (delta => {
+      if (!synthesisStarted) {
+        synthesisStarted = true;
+        report('synthesis_started');
+      }
+      onToken(delta);
+    }),
+    signal
+  });
+  if (synthesis.usage) onUsage?.('synthesis', synthesis.usage);
+  report('synthesis_done');
+
+  const claimConfidence = claimAnalysis.claims.length > 0
+    ? embeddingConfidence(claimAnalysis.method, claimAnalysis.fallbackReason)
+    : 'none';
+  const semanticConfidence = embeddingConfidence(alignmentResult.embeddingBackend!, similarityFallback);
+
+  const diagnostics = createDiagnostics([
+    claimAnalysis.fallbackReason
+      ? { stage: 'claims', status: 'fallback', detail: 'Clustered claims with local embeddings', error: claimAnalysis.fallbackReason }
+      : { stage: 'claims', status: 'ok', detail: `${claimAnalysis.claims.length} claims, ${claimAnalysis.method} embeddings` },
+    similarityFallback
+      ? { stage: 'similarity', status: 'fallback', detail: 'Scored similarity with local embeddings', error: similarityFallback }
+      : { stage: 'similarity', status: 'ok', detail: `${alignmentResult.embeddingBackend} embeddings` },
+    { stage: 'divergences', status: 'ok', detail: `${contradictions.length} substantive, ${divergences.length - contradictions.length} style` },
+    { stage: 'fact_check', status: 'ok', detail: `${unverifiedClaims.length} single-source facts` },
+    synthesis.error
+      ? { stage: 'synthesis', status: 'fallback', detail: 'Showing excerpts of each response instead of a synthesis', error: synthesis.error }
+      : { stage: 'synthesis', status: 'ok', detail: SYNTHESIS_MODEL }
+  ], {
+    semantic: semanticConfidence,
+    surface: 'high', // Exact word overlap, nothing to fall back from
+    alignment: semanticConfidence,
+    alignedPoints: claimConfidence,
+    divergences: claimConfidence
   });
   
   return {
-    unifiedResponse,
+    unifiedResponse: synthesis.content,
     alignment: alignmentResult,
     alignedPoints: alignmentResult.alignedPoints,
     divergentSections: divergences,
+    unverifiedClaims,
+    diagnostics,
     originalResponses: responses
   };
 }
 
 
-async function calculatePairwiseAlignment(responses: ModelResponse[], targetModel: string): Promise<'high' | 'moderate' | 'low'> {
-  const targetResponse = responses.find(r => r.model === targetModel);
-  if (!targetResponse) return 'low';
-  
-  const otherResponses = responses.filter(r => r.model !== targetModel);
-  if (otherResponses.length === 0) return 'high';
-  
-  // Calculate similarity between target model and others
-  const similarities = await Promise.all(
-    otherResponses.map(async (other) => {
-      const semantic = await calculateSemanticSimilarity([targetResponse.content, other.content]);
-      const surface = calculateJaccardSimilarity([targetResponse.content, other.content]);
-      return semantic * 0.7 + surface * 0.3;
-    })
-  );
-  
-  const avgSimilarity = similarities.reduce((sum, sim) => sum + sim, 0) / similarities.length;
-  
-  if (avgSimilarity > 0.7) return 'high';
-  if (avgSimilarity > 0.4) return 'moderate';
+// Convert a combined (semantic * 0.7 + surface * 0.3) score to a qualitative level
+function toAlignmentLevel(combinedScore: number): AlignmentLevel {
+  if (combinedScore > 0.7) return 'high';
+  if (combinedScore > 0.4) return 'moderate';
   return 'low';
 }
 
-async function calculateAlignment(responses: ModelResponse[]): Promise<AlignmentData> {
+interface ResponseSimilarity {
+  matrix: SimilarityMatrix;
+  semantic: number;
+  backend: EmbeddingBackendId;
+  fallbackReason?: string;
+}
+
+// The scores among `count` texts starting at `start` of a batch
+function sliceSimilarity(similarity: SemanticSimilarityMatrix, start: number, count: number): SemanticSimilarityMatrix {
+  return {
+    ...similarity,
+    scores: similarity.scores.slice(start, start + count).map(row => row.slice(start, start + count))
+  };
+}
+
+// Build the N×N combined similarity matrix and the mean pairwise semantic score
+function calculateSimilarityMatrix(
+  responses: ModelResponse[],
+  { scores: semanticScores, backend, fallbackReason }: SemanticSimilarityMatrix
+): ResponseSimilarity {
+  const contents = responses.map(r => r.content);
+
+  const scores: number[][] = contents.map((_, i) => contents.map((_, j) => (i === j ? 1 : 0)));
+  const pairwiseSemantic: number[] = [];
+
+  for (let i = 0; i < contents.length; i++) {
+    for (let j = i + 1; j < contents.length; j++) {
+      const surface = calculateJaccardSimilarity([contents[i], contents[j]]);
+      const combined = semanticScores[i][j] * 0.7 + surface * 0.3;
+      scores[i][j] = combined;
+      scores[j][i] = combined;
+      pairwiseSemantic.push(semanticScores[i][j]);
+    }
+  }
+
+  const semantic = pairwiseSemantic.length > 0
+    ? pairwiseSemantic.reduce((sum, score) => sum + score, 0) / pairwiseSemantic.length
+    : 1;
+
+  return {
+    matrix: { models: responses.map(r => r.model), scores },
+    semantic,
+    backend,
+    fallbackReason
+  };
+}
+
+// Alignment of one model with the rest of the panel, from its row of the similarity matrix
+function calculatePairwiseAlignment(matrix: SimilarityMatrix, targetModel: ModelId): AlignmentLevel {
+  const index = matrix.models.indexOf(targetModel);
+  if (index === -1) return 'low';
+
+  const similarities = matrix.scores[index].filter((_, j) => j !== index);
+  if (similarities.length === 0) return 'high';
+
+  const avgSimilarity = similarities.reduce((sum, sim) => sum + sim, 0) / similarities.length;
+  return toAlignmentLevel(avgSimilarity);
+}
+
+// Identity matrix for paths that skip similarity scoring
+function createIdentityMatrix(models: ModelId[]): SimilarityMatrix {
+  return {
+    models,
+    scores: models.map((_, i) => models.map((_, j) => (i === j ? 1 : 0)))
+  };
+}
+
+function calculateAlignment(
+  responses: ModelResponse[],
+  claimAnalysis: ClaimAnalysis,
+  similarity: ResponseSimilarity
+): AlignmentData {
   const contents = responses.map(r => r.content);
   
-  // Calculate semantic similarity using embeddings
-  const semantic = await calculateSemanticSimilarity(contents);
+  // Pairwise similarities; overall semantic score is the mean pairwise cosine similarity
+  const { matrix, semantic, backend } = similarity;
   
   // Calculate surface-level similarity using Jaccard index
   const surface = calculateJaccardSimilarity(contents);
   
-  // Convert to qualitative levels
-  const getAlignmentLevel = (semanticScore: number, surfaceScore: number): 'high' | 'moderate' | 'low' => {
-    // Prioritize semantic similarity but consider surface similarity
-    const combinedScore = semanticScore * 0.7 + surfaceScore * 0.3;
-    if (combinedScore > 0.7) return 'high';
-    if (combinedScore > 0.4) return 'moderate';
-    return 'low';
-  };
-  
-  const overallLevel = getAlignmentLevel(semantic, surface);
-  
-  // Create aligned points based on semantic similarity
-  const alignedPoints: AlignedPoint[] = [];
+  // Prioritize semantic similarity but consider surface similarity
+  const overallLevel = toAlignmentLevel(semantic * 0.7 + surface * 0.3);
   
-  if (semantic > 0.8) {
-    alignedPoints.push({
-      content: "Models show strong semantic agreement on core concepts",
-      models: responses.map(r => r.model),
-      strength: semantic
-    });
-  }
-  
-  if (semantic > 0.6 && surface > 0.2) {
-    alignedPoints.push({
-      content: "Models demonstrate consensus on key terminology and approach",
-      models: responses.map(r => r.model),
-      strength: (semantic + surface) / 2
-    });
-  }
+  // Aligned points are the claims that two or more models actually share
+  const alignedPoints: AlignedPoint[] = toAlignedPoints(claimAnalysis, responses.length);
   
   // Generate enhanced description
   const getDescription = (semanticScore: number, surfaceScore: number): string => {
@@ -104,16 +238,17 @@ async function calculateAlignment(responses: ModelResponse[]): Promise<Alignment
   };
   
   // Calculate individual model alignment based on actual pairwise similarities
-  const geminiAlignment = await calculatePairwiseAlignment(responses, 'gemini');
-  const chatgptAlignment = await calculatePairwiseAlignment(responses, 'openai');
-  const claudeAlignment = await calculatePairwiseAlignment(responses, 'claude');
+  const models: Record<ModelId, AlignmentLevel> = {};
+  responses.forEach(r => {
+    models[r.model] = calculatePairwiseAlignment(matrix, r.model);
+  });
   
   return {
     semantic,
     surface,
-    gemini: geminiAlignment,
-    chatgpt: chatgptAlignment,
-    claude: claudeAlignment,
+    embeddingBackend: backend,
+    models,
+    similarityMatrix: matrix,
     overallAlignment: overallLevel,
     description: getDescription(semantic, surface),
     methodology: 'semantic-similarity-v2',
@@ -121,8 +256,8 @@ async function calculateAlignment(responses: ModelResponse[]): Promise<Alignment
   };
 }
 
-function findDivergences(responses: ModelResponse[]): DivergentSection[] {
-  const divergences: DivergentSection[] = [];
+function findStyleDivergences(responses: ModelResponse[]): StyleDivergence[] {
+  const divergences: StyleDivergence[] = [];
   
   // Check for significant length differences (lowered threshold)
   const lengths = responses.map(r => r.content.length);
@@ -132,6 +267,7 @@ function findDivergences(responses: ModelResponse[]): DivergentSection[] {
   
   if (maxLength > avgLength * 1.3 || minLength < avgLength * 0.7) {
     divergences.push({
+      kind: 'style',
       topic: "Response Detail Level",
       content: "Models provided different levels of detail in their responses",
       models: responses.map(r => r.model),
@@ -145,6 +281,7 @@ function findDivergences(responses: ModelResponse[]): DivergentSection[] {
   
   if (formalityRange > 0.2) {
     divergences.push({
+      kind: 'style',
       topic: "Communication Style",
       content: "Models adopted different communication approaches",
       models: responses.map(r => r.model),
@@ -162,6 +299,7 @@ function findDivergences(responses: ModelResponse[]): DivergentSection[] {
   const diversityRatio = sharedKeywords.length / uniqueKeywords.size;
   if (diversityRatio < 0.3) {
     divergences.push({
+      kind: 'style',
       topic: "Conceptual Focus",
       content: "Models emphasized different aspects and concepts",
       models: responses.map(r => r.model),
@@ -256,8 +394,19 @@ function calculateFormality(text: string): number {
 
 
 // Helper function to call synthesis with error handling
+// Synthesizes the models that answered and records the ones that failed alongside the analysis
+export async function synthesizeModelResults(
+  responses: ModelResponse[],
+  failures: ModelFailure[],
+  options: SynthesisOptions = {}
+): Promise<ConsensusAnalysis> {
+  const analysis = await synthesizeWithErrorHandling(responses, options);
+  return failures.length > 0 ? { ...analysis, failedModels: failures } : analysis;
+}
+
 export async function synthesizeWithErrorHandling(
-  responses: ModelResponse[]
+  responses: ModelResponse[],
+  options: SynthesisOptions = {}
 ): Promise<ConsensusAnalysis> {
   try {
     if (responses.length === 0) {
@@ -271,9 +420,8 @@ export async function synthesizeWithErrorHandling(
         alignment: {
           semantic: 1.0,
           surface: 1.0,
-          gemini: 'high',
-          chatgpt: 'high', 
-          claude: 'high',
+          models: { [responses[0].model]: 'high' },
+          similarityMatrix: createIdentityMatrix([responses[0].model]),
           overallAlignment: 'high',
           description: 'Single model response',
           methodology: 'semantic-similarity-v2',
@@ -289,13 +437,17 @@ export async function synthesizeWithErrorHandling(
           strength: 1.0
         }],
         divergentSections: [],
+        diagnostics: uniformDiagnostics('skipped', 'Only one model responded'),
         originalResponses: responses
       };
     }
     
-    return await synthesizeResponses(responses);
+    return await synthesizeResponses(responses, options);
   } catch (error) {
+    // Cancellation is not a failure to paper over; the caller stops the query
+    if (error instanceof QueryCancelledError) throw error;
     console.error('Synthesis error:', error);
+    const message = error instanceof Error ? error.message : String(error);
     
     // Fallback synthesis
     return {
@@ -305,9 +457,8 @@ export async function synthesizeWithErrorHandling(
       alignment: {
         semantic: 0.0,
         surface: 0.0,
-        gemini: 'low',
-        chatgpt: 'low',
-        claude: 'low',
+        models: Object.fromEntries(responses.map(r => [r.model, 'low' as const])),
+        similarityMatrix: createIdentityMatrix(responses.map(r => r.model)),
         overallAlignment: 'low',
         description: 'Synthesis error occurred',
         methodology: 'semantic-similarity-v2',
@@ -315,11 +466,13 @@ export async function synthesizeWithErrorHandling(
       },
       alignedPoints: [],
       divergentSections: [{
+        kind: 'style',
         topic: "Synthesis Error",
         content: "Unable to synthesize responses due to technical error",
         models: responses.map(r => r.model),
         description: "Technical error prevented proper synthesis"
       }],
+      diagnostics: uniformDiagnostics('failed', 'Synthesis pipeline threw; scores are placeholders', message),
       originalResponses: responses
     };
   }
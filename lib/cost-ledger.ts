@@ -0,0 +1,360 @@
+// Append-only record of what each query cost, behind the CostLedger interface: a JSONL file locally,
+// or the `query_costs` table (SQLite or Supabase Postgres) so records survive serverless instances.
+// Aggregates are computed by the ledger itself rather than over an in-memory copy. CostTracker
+// (lib/cost-tracking.ts) prices queries and records them here.
+
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { appendFile, open } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { ModelId, TokenUsage } from '@/types/ai';
+import { openOnFirstUse, resolveSqlDatabase, type SqlDatabase } from './sql-database';
+
+export type CostTier = 'basic' | 'pro';
+
+// Costs are what the query's calls reported in tokens, priced with the price table. A line with no
+// reported usage is charged at its fixed estimate and listed in `unmeasured`.
+export interface QueryCost {
+  timestamp: number;
+  userId?: string; // voiltail-user id of who ran the query, for their spending budget
+  tier: CostTier;
+  models: Record<ModelId, number>;
+  synthesis: {
+    embeddings?: number;
+    gpt4?: number;
+  };
+  total: number;
+  estimatedTotal: number; // The pre-flight estimate the budget reserved, or the fixed estimates when there was none
+  tokens: TokenUsage[]; // Reported usage behind the measured lines
+  unmeasured?: string[]; // Lines charged at their estimate, e.g. 'claude' or 'gpt4'
+  priceTableVersion: string;
+  processingTime: number;
+  cancelled?: boolean; // Stopped early; only the calls that actually ran are charged
+}
+
+export interface TierStats {
+  count: number;
+  measuredCount: number; // Queries priced entirely from reported tokens
+  avgCost: number;
+  avgEstimatedCost: number;
+  avgTime: number; // Milliseconds
+}
+
+export interface CostTotals {
+  basic: number;
+  pro: number;
+  total: number;
+  estimated: number;
+}
+
+export interface CostLedger {
+  append(cost: QueryCost): Promise<void>;
+  getPerformanceStats(since: number): Promise<Record<CostTier, TierStats>>; // Queries after `since` (epoch ms)
+  getTotalCosts(since: number): Promise<CostTotals>;
+  getSpend(since: number, userId?: string): Promise<number>; // USD charged after `since`, to one user or everyone
+  count(): Promise<number>; // Every query ever recorded
+  list(since?: number): Promise<QueryCost[]>; // Oldest first
+  destroy(): Promise<void>;
+}
+
+const isMeasured = (cost: QueryCost) => cost.tokens.length > 0 && !cost.unmeasured;
+
+const emptyStats = (): TierStats => ({ count: 0, measuredCount: 0, avgCost: 0, avgEstimatedCost: 0, avgTime: 0 });
+
+function summarize(costs: QueryCost[]): Record<CostTier, TierStats> {
+  const stats = { basic: emptyStats(), pro: emptyStats() };
+  (['basic', 'pro'] as const).forEach(tier => {
+    const queries = costs.filter(cost => cost.tier === tier);
+    if (queries.length === 0) return;
+    stats[tier] = {
+      count: queries.length,
+      measuredCount: queries.filter(isMeasured).length,
+      avgCost: queries.reduce((sum, cost) => sum + cost.total, 0) / queries.length,
+      avgEstimatedCost: queries.reduce((sum, cost) => sum + cost.estimatedTotal, 0) / queries.length,
+      avgTime: queries.reduce((sum, cost) => sum + cost.processingTime, 0) / queries.length
+    };
+  });
+  return stats;
+}
+
+const spendOf = (costs: QueryCost[], userId?: string) =>
+  costs.filter(cost => userId === undefined || cost.userId === userId).reduce((sum, cost) => sum + cost.total, 0);
+
+function totalize(costs: QueryCost[]): CostTotals {
+  const tierTotal = (tier: CostTier) => costs.filter(cost => cost.tier === tier).reduce((sum, cost) => sum + cost.total, 0);
+  const basic = tierTotal('basic');
+  const pro = tierTotal('pro');
+  return { basic, pro, total: basic + pro, estimated: costs.reduce((sum, cost) => sum + cost.estimatedTotal, 0) };
+}
+
+// Kept in process only: for tests and throwaway setups
+export class MemoryCostLedger implements CostLedger {
+  private costs: QueryCost[] = [];
+
+  async append(cost: QueryCost): Promise<void> {
+    this.costs.push(cost);
+  }
+
+  async getPerformanceStats(since: number): Promise<Record<CostTier, TierStats>> {
+    return summarize(await this.list(since));
+  }
+
+  async getTotalCosts(since: number): Promise<CostTotals> {
+    return totalize(await this.list(since));
+  }
+
+  async getSpend(since: number, userId?: string): Promise<number> {
+    return spendOf(await this.list(since), userId);
+  }
+
+  async count(): Promise<number> {
+    return this.costs.length;
+  }
+
+  async list(since: number = 0): Promise<QueryCost[]> {
+    return this.costs.filter(cost => cost.timestamp > since);
+  }
+
+  async destroy(): Promise<void> {
+    this.costs = [];
+  }
+}
+
+// One JSON record per line, only ever appended to, so concurrent writers can't drop each other's records.
+// Records are parsed once and kept in memory; each read only parses what was appended since the last,
+// by this process or another one, so budget checks don't slow down as the file grows.
+export class JsonlCostLedger implements CostLedger {
+  private records: QueryCost[] = [];
+  private readOffset = 0; // Bytes of the file already parsed into `records`
+  private fileId: number | null = null; // Inode of the file read so far, to notice it being replaced
+  private reading: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  async append(cost: QueryCost): Promise<void> {
+    mkdirSync(dirname(this.path), { recursive: true });
+    await appendFile(this.path, `${JSON.stringify(cost)}\n`);
+  }
+
+  async getPerformanceStats(since: number): Promise<Record<CostTier, TierStats>> {
+    return summarize(await this.list(since));
+  }
+
+  async getTotalCosts(since: number): Promise<CostTotals> {
+    return totalize(await this.list(since));
+  }
+
+  async getSpend(since: number, userId?: string): Promise<number> {
+    return spendOf(await this.list(since), userId);
+  }
+
+  async count(): Promise<number> {
+    return (await this.list()).length;
+  }
+
+  async list(since: number = 0): Promise<QueryCost[]> {
+    await this.catchUp();
+    return this.records.filter(cost => cost.timestamp > since);
+  }
+
+  async destroy(): Promise<void> {
+    this.forget(null);
+  }
+
+  // Chained so concurrent reads never parse the same bytes twice
+  private catchUp(): Promise<void> {
+    const next = this.reading.then(() => this.readAppended());
+    this.reading = next.catch(() => {});
+    return next;
+  }
+
+  private async readAppended(): Promise<void> {
+    let file;
+    try {
+      file = await open(this.path, 'r');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.forget(null);
+        return;
+      }
+      throw error;
+    }
+
+    try {
+      const { size, ino } = await file.stat();
+      // Replaced or truncated since the last read: start over
+      if (ino !== this.fileId || size < this.readOffset) {
+        this.forget(ino);
+      }
+      if (size === this.readOffset) return;
+
+      const buffer = Buffer.alloc(size - this.readOffset);
+      const { bytesRead } = await file.read(buffer, 0, buffer.length, this.readOffset);
+      // A record still being appended is left for the next read
+      const end = buffer.subarray(0, bytesRead).lastIndexOf(0x0a) + 1;
+      this.records.push(...parseRecords(buffer.toString('utf-8', 0, end)));
+      this.readOffset += end;
+    } finally {
+      await file.close();
+    }
+  }
+
+  private forget(fileId: number | null): void {
+    this.records = [];
+    this.readOffset = 0;
+    this.fileId = fileId;
+  }
+}
+
+// A line cut short by a crash mid-append is skipped rather than failing every read
+function parseRecords(data: string): QueryCost[] {
+  return data.split('\n').flatMap(line => {
+    if (!line.trim()) return [];
+    try {
+      return [JSON.parse(line) as QueryCost];
+    } catch {
+      return [];
+    }
+  });
+}
+
+interface TierRow {
+  tier: CostTier;
+  count: number | string; // Postgres returns COUNT, SUM and AVG as strings
+  measured_count: number | string | null;
+  avg_cost: number | string | null;
+  avg_estimated_cost: number | string | null;
+  avg_time: number | string | null;
+  total: number | string | null;
+  estimated: number | string | null;
+}
+
+export class SqlCostLedger implements CostLedger {
+  private db: ReturnType<typeof openOnFirstUse>;
+
+  constructor(open: () => Promise<SqlDatabase>) {
+    this.db = openOnFirstUse(open);
+  }
+
+  async append(cost: QueryCost): Promise<void> {
+    await this.db.execute(
+      `INSERT INTO query_costs (id, owner_id, tier, total, estimated_total, processing_time, measured, cancelled, detail, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        randomUUID(),
+        cost.userId ?? null,
+        cost.tier,
+        cost.total,
+        cost.estimatedTotal,
+        cost.processingTime,
+        isMeasured(cost) ? 1 : 0,
+        cost.cancelled ? 1 : 0,
+        JSON.stringify(cost),
+        new Date(cost.timestamp).toISOString()
+      ]
+    );
+  }
+
+  async getPerformanceStats(since: number): Promise<Record<CostTier, TierStats>> {
+    const stats = { basic: emptyStats(), pro: emptyStats() };
+    (await this.aggregate(since)).forEach(row => {
+      stats[row.tier] = {
+        count: Number(row.count),
+        measuredCount: Number(row.measured_count ?? 0),
+        avgCost: Number(row.avg_cost ?? 0),
+        avgEstimatedCost: Number(row.avg_estimated_cost ?? 0),
+        avgTime: Number(row.avg_time ?? 0)
+      };
+    });
+    return stats;
+  }
+
+  async getTotalCosts(since: number): Promise<CostTotals> {
+    const rows = await this.aggregate(since);
+    const tierTotal = (tier: CostTier) => Number(rows.find(row => row.tier === tier)?.total ?? 0);
+    const basic = tierTotal('basic');
+    const pro = tierTotal('pro');
+    return { basic, pro, total: basic + pro, estimated: rows.reduce((sum, row) => sum + Number(row.estimated ?? 0), 0) };
+  }
+
+  async getSpend(since: number, userId?: string): Promise<number> {
+    const [row] = userId === undefined
+      ? await this.db.query<{ spend: number | string | null }>(
+        'SELECT SUM(total) AS spend FROM query_costs WHERE created_at > ?',
+        [new Date(since).toISOString()]
+      )
+      : await this.db.query<{ spend: number | string | null }>(
+        'SELECT SUM(total) AS spend FROM query_costs WHERE owner_id = ? AND created_at > ?',
+        [userId, new Date(since).toISOString()]
+      );
+    return Number(row?.spend ?? 0);
+  }
+
+  async count(): Promise<number> {
+    const [row] = await this.db.query<{ count: number | string }>('SELECT COUNT(*) AS count FROM query_costs');
+    return Number(row?.count ?? 0);
+  }
+
+  async list(since: number = 0): Promise<QueryCost[]> {
+    const rows = await this.db.query<{ detail: QueryCost | string }>(
+      'SELECT detail FROM query_costs WHERE created_at > ? ORDER BY created_at',
+      [new Date(since).toISOString()]
+    );
+    return rows.map(row => (typeof row.detail === 'string' ? JSON.parse(row.detail) : row.detail));
+  }
+
+  async destroy(): Promise<void> {
+    await this.db.close();
+  }
+
+  private aggregate(since: number): Promise<TierRow[]> {
+    return this.db.query<TierRow>(
+      `SELECT tier, COUNT(*) AS count, SUM(measured) AS measured_count, AVG(total) AS avg_cost,
+              AVG(estimated_total) AS avg_estimated_cost, AVG(processing_time) AS avg_time,
+              SUM(total) AS total, SUM(estimated_total) AS estimated
+       FROM query_costs WHERE created_at > ? GROUP BY tier`,
+      [new Date(since).toISOString()]
+    );
+  }
+}
+
+// The JSON file the tracker used to rewrite on every query; its records seed a new JSONL ledger
+const LEGACY_DATA_FILE = 'cost-tracking-data.json';
+
+function openJsonlLedger(): JsonlCostLedger {
+  const path = process.env.COST_LEDGER_PATH || '.data/cost-ledger.jsonl';
+  const legacyPath = join(process.cwd(), LEGACY_DATA_FILE);
+
+  if (!existsSync(path) && existsSync(legacyPath)) {
+    try {
+      // Records from before token accounting only ever held estimates
+      const legacy: QueryCost[] = (JSON.parse(readFileSync(legacyPath, 'utf-8')) as QueryCost[]).map(cost => ({
+        ...cost,
+        estimatedTotal: cost.estimatedTotal ?? cost.total,
+        tokens: cost.tokens ?? [],
+        priceTableVersion: cost.priceTableVersion ?? 'estimate'
+      }));
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, legacy.map(cost => `${JSON.stringify(cost)}\n`).join(''));
+      console.log(`📊 Moved ${legacy.length} cost records from ${LEGACY_DATA_FILE} to ${path}`);
+    } catch (error) {
+      console.error(`Error importing ${LEGACY_DATA_FILE}:`, error);
+    }
+  }
+  return new JsonlCostLedger(path);
+}
+
+// COST_LEDGER=jsonl | sqlite | postgres | memory. Unset, costs go to the database RESULT_STORE keeps
+// results in, or to the JSONL file (COST_LEDGER_PATH) when results stay in memory.
+export function createCostLedger(
+  setting: string = process.env.COST_LEDGER || (process.env.RESULT_STORE === 'memory' ? undefined : process.env.RESULT_STORE) || 'jsonl'
+): CostLedger {
+  if (setting === 'memory') return new MemoryCostLedger();
+
+  const sql = setting === 'jsonl' ? null : resolveSqlDatabase(setting);
+  if (!sql) {
+    return openJsonlLedger();
+  }
+  console.log(`🗄️ Recording query costs in ${sql.backend}`);
+  return new SqlCostLedger(sql.open);
+}
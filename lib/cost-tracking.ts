@@ -1,132 +1,201 @@
-interface QueryCost {
-  timestamp: number;
-  tier: 'basic' | 'pro';
-  models: {
-    gemini: number;
-    openai: number;
-    claude: number;
-  };
-  synthesis: {
-    embeddings?: number;
-    gpt4?: number;
-  };
-  total: number;
-  processingTime: number;
+// Cost tracking for every query, both tiers and both synthesis routes: prices each query from the
+// token usage its calls reported (falling back to fixed estimates) and records it in a CostLedger.
+// The Phase 1 validation and /api/cost-validation read their numbers back from the same ledger.
+
+import { resolveModelPanel, type ResolvedModel } from '@/lib/ai/providers';
+import { PRICE_TABLE_VERSION, priceUsage } from '@/lib/ai/pricing';
+import { estimateUnansweredUsage } from '@/lib/ai/cost-estimate';
+import { mayHaveBeenBilled } from '@/lib/ai/model-errors';
+import { createCostLedger, type CostLedger, type CostTier, type CostTotals, type QueryCost, type TierStats } from '@/lib/cost-ledger';
+import type { CostEstimate, ModelId, ModelResult, TokenUsage } from '@/types/ai';
+
+export type { QueryCost } from '@/lib/cost-ledger';
+
+// Token usage reported by a query's calls: each model's answer, the embedding batches and the synthesis
+export interface QueryUsage {
+  models: Record<ModelId, TokenUsage>;
+  embeddings: TokenUsage[];
+  synthesis: TokenUsage[];
 }
 
-class CostTracker {
-  private costs: QueryCost[] = [];
-  
-  // Estimated costs per model (in USD)
+export function createQueryUsage(): QueryUsage {
+  return { models: {}, embeddings: [], synthesis: [] };
+}
+
+// What a query actually spent; defaults to everything for its tier, at the estimated costs
+export interface IncurredSpend {
+  embeddings?: boolean;
+  gpt4?: boolean;
+  cancelled?: boolean;
+  unanswered?: UnansweredCall[]; // Billed model calls that produced no answer (see unansweredCalls)
+  usage?: QueryUsage;
+  userId?: string; // Charged to this user's spending budget
+  estimate?: number; // The pre-flight estimate (see estimateQueryCost) the query's budget reservation held
+}
+
+// A model call that ended without an answer: providers still bill its input and whatever it streamed
+export interface UnansweredCall {
+  key: ModelId;
+  estimatedCost: number; // Charged when the model has no price
+  usage: TokenUsage; // Estimated, as the provider never reported it
+}
+
+// Panel models whose calls the provider may have billed without answering: calls still in flight when
+// the query was cancelled, and failures after the request was taken. Skipped or refused calls cost nothing.
+export function unansweredCalls(
+  panel: ResolvedModel[],
+  results: (ModelResult | undefined)[], // In panel order; unset while a call is in flight
+  estimate: CostEstimate,
+  streamedText: Record<ModelId, string> = {}
+): UnansweredCall[] {
+  return panel.flatMap((target, index) => {
+    const result = results[index];
+    if (result && (result.ok || !mayHaveBeenBilled(result.code))) return [];
+    return [{
+      key: target.key,
+      estimatedCost: target.estimatedCost,
+      usage: estimateUnansweredUsage(estimate, target, streamedText[target.key])
+    }];
+  });
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class CostTracker {
+  // Estimated synthesis costs (in USD); per-model estimates come from the model panel
   private readonly MODEL_COSTS = {
-    gemini: 0.01,
-    openai: 0.03,
-    claude: 0.02,
     embeddings: 0.0001,
     gpt4_synthesis: 0.04
   };
   
-  trackQuery(tier: 'basic' | 'pro', processingTime: number): QueryCost {
+  // Costs the ledger failed to record, retried before spend is next read
+  private unrecorded: QueryCost[] = [];
+  private flushing: Promise<void> | null = null;
+  
+  constructor(private ledger: CostLedger = createCostLedger()) {}
+  
+  // Records the query in the ledger; a ledger outage is logged rather than failing the query, and
+  // spend can't be read again (so budgets refuse queries) until the cost has been recorded
+  async trackQuery(
+    tier: CostTier,
+    processingTime: number,
+    panel: Pick<ResolvedModel, 'key' | 'estimatedCost'>[] = resolveModelPanel(),
+    incurred: IncurredSpend = {}
+  ): Promise<QueryCost> {
+    const { usage } = incurred;
+    const tokens: TokenUsage[] = [];
+    const unmeasured: string[] = [];
+
+    // Reported usage priced from the table, falling back to the estimate when nothing (or an unpriced model) was reported
+    const charge = (line: string, reported: TokenUsage[], estimate?: number): number | undefined => {
+      const prices = reported.map(entry => priceUsage(entry));
+      if (reported.length > 0 && prices.every(price => price !== undefined)) {
+        tokens.push(...reported);
+        return sum(prices as number[]);
+      }
+      if (estimate !== undefined || reported.length > 0) unmeasured.push(line);
+      return estimate;
+    };
+
+    const models: Record<ModelId, number> = {};
+    panel.forEach(({ key, estimatedCost }) => {
+      const reported = usage?.models[key];
+      models[key] = charge(key, reported ? [reported] : [], estimatedCost)!;
+    });
+    incurred.unanswered?.forEach(({ key, estimatedCost, usage: estimated }) => {
+      models[key] = priceUsage(estimated) ?? estimatedCost;
+      unmeasured.push(key);
+    });
+
+    // Synthesis is estimated for Pro tier, for the stages that ran; reported usage counts on either tier
+    const estimates = {
+      embeddings: tier === 'pro' && (incurred.embeddings ?? true) ? this.MODEL_COSTS.embeddings : undefined,
+      gpt4: tier === 'pro' && (incurred.gpt4 ?? true) ? this.MODEL_COSTS.gpt4_synthesis : undefined
+    };
+    const synthesis: QueryCost['synthesis'] = {};
+    const embeddings = charge('embeddings', usage?.embeddings ?? [], estimates.embeddings);
+    const gpt4 = charge('gpt4', usage?.synthesis ?? [], estimates.gpt4);
+    if (embeddings !== undefined) synthesis.embeddings = embeddings;
+    if (gpt4 !== undefined) synthesis.gpt4 = gpt4;
+
     const cost: QueryCost = {
       timestamp: Date.now(),
+      ...(incurred.userId && { userId: incurred.userId }),
       tier,
-      models: {
-        gemini: this.MODEL_COSTS.gemini,
-        openai: this.MODEL_COSTS.openai,
-        claude: this.MODEL_COSTS.claude,
-      },
-      synthesis: {},
-      total: 0,
-      processingTime
+      models,
+      synthesis,
+      total: sum(Object.values(models)) + sum(Object.values(synthesis)),
+      estimatedTotal: incurred.estimate ?? sum(panel.map(model => model.estimatedCost)) + (estimates.embeddings ?? 0) + (estimates.gpt4 ?? 0),
+      tokens,
+      ...(unmeasured.length > 0 && { unmeasured }),
+      priceTableVersion: PRICE_TABLE_VERSION,
+      processingTime,
+      ...(incurred.cancelled && { cancelled: true })
     };
     
-    // Add synthesis costs for Pro tier
-    if (tier === 'pro') {
-      cost.synthesis.embeddings = this.MODEL_COSTS.embeddings;
-      cost.synthesis.gpt4 = this.MODEL_COSTS.gpt4_synthesis;
-    }
+    await this.ledger.append(cost).catch(error => {
+      console.error('Error recording query cost:', error);
+      this.unrecorded.push(cost);
+    });
     
-    // Calculate total
-    cost.total = Object.values(cost.models).reduce((sum, cost) => sum + cost, 0) +
-                 Object.values(cost.synthesis).reduce((sum, cost) => sum + cost, 0);
-    
-    this.costs.push(cost);
-    
-    console.log(`💰 Query cost tracked: ${tier} tier = $${cost.total.toFixed(4)} (${processingTime}ms)`);
+    console.log(`💰 Query cost tracked: ${tier} tier = $${cost.total.toFixed(4)} (${processingTime}ms), estimated $${cost.estimatedTotal.toFixed(4)}${cost.cancelled ? ' [cancelled]' : ''}`);
     
     return cost;
   }
   
-  getAverageCost(tier: 'basic' | 'pro', days: number = 7): number {
-    const cutoff = Date.now() - (days * 24 * 60 * 60 * 1000);
-    const recentCosts = this.costs.filter(c => c.timestamp > cutoff && c.tier === tier);
-    
-    if (recentCosts.length === 0) return 0;
-    
-    const total = recentCosts.reduce((sum, cost) => sum + cost.total, 0);
-    return total / recentCosts.length;
+  // USD charged since `since` (epoch ms), to one user or, without a userId, to everyone. Rejects while
+  // a cost the ledger failed to record still can't be, since the ledger would under-report spend.
+  async getSpend(since: number, userId?: string): Promise<number> {
+    await this.recordUnrecorded();
+    return this.ledger.getSpend(since, userId);
   }
   
-  getAverageProcessingTime(tier: 'basic' | 'pro', days: number = 7): number {
-    const cutoff = Date.now() - (days * 24 * 60 * 60 * 1000);
-    const recentCosts = this.costs.filter(c => c.timestamp > cutoff && c.tier === tier);
-    
-    if (recentCosts.length === 0) return 0;
-    
-    const total = recentCosts.reduce((sum, cost) => sum + cost.processingTime, 0);
-    return total / recentCosts.length;
+  // One retry at a time, so concurrent reads can't record a cost twice
+  private async recordUnrecorded(): Promise<void> {
+    if (this.unrecorded.length === 0) return;
+    this.flushing ??= (async () => {
+      try {
+        while (this.unrecorded.length > 0) {
+          await this.ledger.append(this.unrecorded[0]);
+          this.unrecorded.shift();
+        }
+      } finally {
+        this.flushing = null;
+      }
+    })();
+    return this.flushing;
   }
   
-  getTotalCosts(days: number = 30): { basic: number; pro: number; total: number } {
-    const cutoff = Date.now() - (days * 24 * 60 * 60 * 1000);
-    const recentCosts = this.costs.filter(c => c.timestamp > cutoff);
-    
-    const basicTotal = recentCosts.filter(c => c.tier === 'basic').reduce((sum, c) => sum + c.total, 0);
-    const proTotal = recentCosts.filter(c => c.tier === 'pro').reduce((sum, c) => sum + c.total, 0);
-    
-    return {
-      basic: basicTotal,
-      pro: proTotal,
-      total: basicTotal + proTotal
-    };
+  async getAverageCost(tier: CostTier, days: number = 7): Promise<number> {
+    return (await this.getPerformanceStats(days))[tier].avgCost;
   }
   
-  getPerformanceStats(days: number = 7): {
-    basic: { avgCost: number; avgTime: number; count: number };
-    pro: { avgCost: number; avgTime: number; count: number };
-  } {
-    const cutoff = Date.now() - (days * 24 * 60 * 60 * 1000);
-    const recentCosts = this.costs.filter(c => c.timestamp > cutoff);
-    
-    const basicQueries = recentCosts.filter(c => c.tier === 'basic');
-    const proQueries = recentCosts.filter(c => c.tier === 'pro');
-    
-    return {
-      basic: {
-        avgCost: basicQueries.length > 0 ? basicQueries.reduce((sum, c) => sum + c.total, 0) / basicQueries.length : 0,
-        avgTime: basicQueries.length > 0 ? basicQueries.reduce((sum, c) => sum + c.processingTime, 0) / basicQueries.length : 0,
-        count: basicQueries.length
-      },
-      pro: {
-        avgCost: proQueries.length > 0 ? proQueries.reduce((sum, c) => sum + c.total, 0) / proQueries.length : 0,
-        avgTime: proQueries.length > 0 ? proQueries.reduce((sum, c) => sum + c.processingTime, 0) / proQueries.length : 0,
-        count: proQueries.length
-      }
-    };
+  async getAverageProcessingTime(tier: CostTier, days: number = 7): Promise<number> {
+    return (await this.getPerformanceStats(days))[tier].avgTime;
+  }
+  
+  getTotalCosts(days: number = 30): Promise<CostTotals> {
+    return this.ledger.getTotalCosts(Date.now() - days * DAY_MS);
+  }
+  
+  getPerformanceStats(days: number = 7): Promise<Record<CostTier, TierStats>> {
+    return this.ledger.getPerformanceStats(Date.now() - days * DAY_MS);
   }
   
-  exportCostData(): QueryCost[] {
-    return [...this.costs];
+  exportCostData(): Promise<QueryCost[]> {
+    return this.ledger.list();
   }
   
   // Validate Phase 1 success criteria
-  validatePhase1Criteria(): {
+  async validatePhase1Criteria(): Promise<{
     sophisticatedSynthesisTime: boolean; // <50 seconds
     costPerQuery: boolean; // <$0.15
     avgCost: number;
     avgTime: number;
-  } {
-    const stats = this.getPerformanceStats(7);
+  }> {
+    const stats = await this.getPerformanceStats(7);
     const avgTime = stats.pro.avgTime / 1000; // Convert to seconds
     const avgCost = stats.pro.avgCost;
     
@@ -137,6 +206,27 @@ class CostTracker {
       avgTime
     };
   }
+  
+  // Get summary for documentation
+  async getSummary(): Promise<{
+    totalQueries: number;
+    totalCost: number;
+    avgCostPerQuery: number;
+    phase1Status: 'PASS' | 'FAIL';
+  }> {
+    const [validation, totalCosts, totalQueries] = await Promise.all([
+      this.validatePhase1Criteria(),
+      this.getTotalCosts(30),
+      this.ledger.count()
+    ]);
+    
+    return {
+      totalQueries,
+      totalCost: totalCosts.total,
+      avgCostPerQuery: totalQueries > 0 ? totalCosts.total / totalQueries : 0,
+      phase1Status: validation.sophisticatedSynthesisTime && validation.costPerQuery ? 'PASS' : 'FAIL'
+    };
+  }
 }
 
 export const costTracker = new CostTracker();
@@ -0,0 +1,21 @@
+// History search shared by the result stores: what a search matches against and how it is split
+
+import type { ConsensusAnalysis, HistoryQuery } from '@/types/ai';
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const MAX_HISTORY_LIMIT = 200;
+
+// What history search matches against: the prompt, the unified response and every model answer
+export function buildSearchText(prompt: string, analysis: ConsensusAnalysis): string {
+  return [prompt, analysis.unifiedResponse, ...analysis.originalResponses.map(response => response.content)]
+    .join('\n')
+    .toLowerCase();
+}
+
+export function searchTerms(search?: string): string[] {
+  return search?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+}
+
+export function historyLimit(query: HistoryQuery): number {
+  return Math.min(Math.max(1, query.limit ?? DEFAULT_HISTORY_LIMIT), MAX_HISTORY_LIMIT);
+}
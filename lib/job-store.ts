@@ -0,0 +1,222 @@
+// Synthesis jobs: a status and an event log that clients can replay and follow, so a reloaded page
+// can reattach to a running query. Streaming deltas are discarded once the event that supersedes them
+// is logged, so a job holds each answer once rather than once per token. Jobs live in process memory only, unlike results
+// and costs, so reattaching works on a single instance (or with sticky sessions): behind a load
+// balancer, a reload that lands on another instance finds no job and the page says so.
+
+import { randomUUID } from 'crypto';
+
+export type JobStatus = 'running' | 'complete' | 'failed' | 'cancelled';
+
+export interface JobEvent {
+  id: number; // Increases through the job's log, with gaps where events were discarded; doubles as the SSE event id
+  data: Record<string, unknown>;
+}
+
+export interface SynthesisJob {
+  id: string;
+  status: JobStatus;
+  userId: string; // voiltail-user id of the client that started it; only they can follow or stop it
+  prompt: string;
+  createdAt: number;
+  updatedAt: number;
+  events: JobEvent[];
+  lastEventId: number; // Id of the latest event appended, discarded or not
+  signal: AbortSignal; // Aborted when the job is cancelled or abandoned
+}
+
+export interface JobSubscriber {
+  onEvent(event: JobEvent): void;
+  onFinish(status: JobStatus): void;
+}
+
+interface StoredJob extends SynthesisJob {
+  abortController: AbortController;
+  subscribers: Set<JobSubscriber>;
+  abandonTimer?: NodeJS.Timeout;
+}
+
+export class JobStore {
+  private jobs = new Map<string, StoredJob>();
+  private cleanupInterval: NodeJS.Timeout;
+
+  constructor(
+    private readonly ttlMs: number = 30 * 60 * 1000,
+    // How long a running job waits for a client to reattach before it stops spending
+    private readonly abandonAfterMs: number = 30 * 1000,
+    // Far past any query's model and synthesis deadlines; a job still running then is stuck
+    private readonly maxRunningMs: number = 10 * 60 * 1000
+  ) {
+    // Clean up expired and stuck jobs every 5 minutes
+    this.cleanupInterval = setInterval(() => {
+      this.cleanup();
+    }, 5 * 60 * 1000);
+    this.cleanupInterval.unref?.();
+  }
+
+  create(prompt: string, userId: string): SynthesisJob {
+    const now = Date.now();
+    const abortController = new AbortController();
+    const job: StoredJob = {
+      id: this.generateId(),
+      status: 'running',
+      userId,
+      prompt,
+      createdAt: now,
+      updatedAt: now,
+      events: [],
+      lastEventId: 0,
+      signal: abortController.signal,
+      abortController,
+      subscribers: new Set()
+    };
+
+    this.jobs.set(job.id, job);
+    console.log(`🧵 Created job ${job.id}`);
+    return job;
+  }
+
+  // With a userId, only that user's job is returned
+  get(id: string, userId?: string): SynthesisJob | null {
+    const job = this.jobs.get(id);
+    if (!job || (userId !== undefined && job.userId !== userId)) return null;
+
+    if (job.status !== 'running' && Date.now() - job.updatedAt > this.ttlMs) {
+      this.jobs.delete(id);
+      return null;
+    }
+    return job;
+  }
+
+  // Appends to a running job's log and forwards the event to everyone following it
+  append(id: string, data: Record<string, unknown>): JobEvent | null {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'running') return null;
+
+    const event: JobEvent = { id: ++job.lastEventId, data };
+    job.events.push(event);
+    job.updatedAt = Date.now();
+    job.subscribers.forEach(subscriber => subscriber.onEvent(event));
+    return event;
+  }
+
+  // Drops logged events that a later one made redundant; clients already following have seen them,
+  // and a replay starts from what superseded them
+  discard(id: string, superseded: (event: JobEvent) => boolean): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+
+    job.events = job.events.filter(event => !superseded(event));
+  }
+
+  finish(id: string, status: Exclude<JobStatus, 'running'>): void {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'running') return;
+
+    job.status = status;
+    job.updatedAt = Date.now();
+    clearTimeout(job.abandonTimer);
+    job.subscribers.forEach(subscriber => subscriber.onFinish(status));
+    job.subscribers.clear();
+    console.log(`🏁 Job ${id} ${status}`);
+  }
+
+  // Aborts the job's in-flight work; the job runner records the cancellation and finishes it
+  cancel(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'running') return false;
+
+    job.abortController.abort();
+    return true;
+  }
+
+  // Replays events after `after`, then follows the job live. Returns null for unknown jobs.
+  subscribe(id: string, after: number, subscriber: JobSubscriber): (() => void) | null {
+    const job = this.get(id) as StoredJob | null;
+    if (!job) return null;
+
+    job.events.filter(event => event.id > after).forEach(event => subscriber.onEvent(event));
+    if (job.status !== 'running') {
+      subscriber.onFinish(job.status);
+      return () => {};
+    }
+
+    clearTimeout(job.abandonTimer);
+    job.abandonTimer = undefined;
+    job.subscribers.add(subscriber);
+
+    return () => {
+      job.subscribers.delete(subscriber);
+      if (job.subscribers.size === 0 && job.status === 'running') {
+        job.abandonTimer = setTimeout(() => {
+          console.log(`👋 Job ${id} abandoned, cancelling`);
+          this.cancel(id);
+        }, this.abandonAfterMs);
+      }
+    };
+  }
+
+  private generateId(): string {
+    return `job_${randomUUID()}`;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    let cleaned = 0;
+
+    for (const [id, job] of this.jobs.entries()) {
+      if (job.status === 'running' && now - job.createdAt > this.maxRunningMs) {
+        // Stop its work and close its streams now, rather than waiting on a runner that may never finish it
+        console.log(`⌛ Job ${id} ran past ${this.maxRunningMs / 60000}m, cancelling`);
+        this.cancel(id);
+        this.finish(id, 'cancelled');
+      } else if (job.status !== 'running' && now - job.updatedAt > this.ttlMs) {
+        this.jobs.delete(id);
+        cleaned++;
+      }
+    }
+
+    if (cleaned > 0) {
+      console.log(`🧹 Cleaned up ${cleaned} expired jobs`);
+    }
+  }
+
+  // Cleanup method for graceful shutdown
+  destroy(): void {
+    clearInterval(this.cleanupInterval);
+    this.jobs.forEach(job => clearTimeout(job.abandonTimer));
+    this.jobs.clear();
+  }
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST',
+  'Access-Control-Allow-Headers': 'Content-Type, Last-Event-ID',
+};
+
+// SSE stream of a job's events after `after`, closing when the job finishes. Null for unknown jobs.
+export function createJobEventStream(id: string, after: number = 0): ReadableStream<Uint8Array> | null {
+  if (!jobStore.get(id)) return null;
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      unsubscribe = jobStore.subscribe(id, after, {
+        // JSON.stringify escapes newlines, so every event fits on a single data line
+        onEvent: event => controller.enqueue(encoder.encode(`id: ${event.id}\ndata: ${JSON.stringify(event.data)}\n\n`)),
+        onFinish: () => controller.close()
+      });
+    },
+    cancel() {
+      unsubscribe?.();
+    }
+  });
+}
+
+export const jobStore = new JobStore();
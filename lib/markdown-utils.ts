@@ -37,3 +37,20 @@ export function cleanModelResponse(content: string): string {
   
   return cleaned.trim();
 }
+
+// Wrap character ranges of raw markdown in links to `href` so a custom link renderer can highlight them
+export function markSpans(content: string, spans: { start: number; end: number }[], href: string): string {
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  let result = '';
+  let cursor = 0;
+
+  for (const span of sorted) {
+    if (span.start < cursor || span.end > content.length) continue; // Overlapping or stale span
+    const text = content.slice(span.start, span.end);
+    if (/[[\]\n]/.test(text)) continue; // Would break link syntax
+    result += content.slice(cursor, span.start) + `[${text}](${href})`;
+    cursor = span.end;
+  }
+
+  return result + content.slice(cursor);
+}
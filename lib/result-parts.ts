@@ -0,0 +1,32 @@
+// Splits a ConsensusAnalysis into ordered SSE-sized parts and reassembles them on the client
+
+import type { ConsensusAnalysis } from '@/types/ai';
+
+// Keeps each `result_part` event well under typical proxy buffer limits
+export const RESULT_PART_SIZE = 16 * 1024;
+
+export interface ResultPart {
+  index: number;
+  total: number;
+  data: string; // A slice of the JSON-encoded analysis
+}
+
+export function splitResultParts(analysis: ConsensusAnalysis, size: number = RESULT_PART_SIZE): ResultPart[] {
+  const json = JSON.stringify(analysis);
+  const total = Math.max(1, Math.ceil(json.length / size));
+  return Array.from({ length: total }, (_, index) => ({
+    index,
+    total,
+    data: json.slice(index * size, (index + 1) * size)
+  }));
+}
+
+// Throws when parts are missing, so a truncated stream is never mistaken for a result
+export function joinResultParts(parts: ResultPart[]): ConsensusAnalysis {
+  const total = parts[0]?.total ?? 0;
+  const ordered = [...parts].sort((a, b) => a.index - b.index);
+  if (total === 0 || ordered.length !== total || ordered.some((part, i) => part.index !== i)) {
+    throw new Error(`Incomplete synthesis result: received ${parts.length} of ${total || '?'} parts`);
+  }
+  return JSON.parse(ordered.map(part => part.data).join(''));
+}
@@ -1,61 +1,148 @@
-// Simple in-memory storage for synthesis results
-// In production, this would use Redis or a database
+// Storage for synthesis results behind the ResultStore interface: an in-process Map by default,
+// or a SQL database (SQLite locally, Supabase Postgres in production) that survives restarts
+// and is shared between instances. RESULT_STORE picks the backend.
+
+import type { ConsensusAnalysis, HistoryEntry, HistoryQuery } from '@/types/ai';
+import { SqlResultStore } from './sql-result-store';
+import { resolveSqlDatabase } from './sql-database';
+import { buildSearchText, historyLimit, searchTerms } from './history-search';
+
+// Optional context saved alongside the analysis (the `queries` table columns)
+export interface StoreResultOptions {
+  userId?: string; // voiltail-user id; results without one never appear in a history
+  mode?: 'basic' | 'pro';
+  prompt?: string;
+  processingTime?: number; // Milliseconds
+  estimatedCost?: number; // USD
+}
+
+// A stored analysis with the prompt that produced it
+export interface RetrievedResult {
+  prompt: string;
+  analysis: ConsensusAnalysis;
+}
+
+export interface ResultStoreStats {
+  count: number;
+  oldestAge: number; // Milliseconds since the oldest stored result
+  newestAge: number;
+}
 
-import type { ConsensusAnalysis } from '@/types/ai';
+export interface ResultStore {
+  store(result: ConsensusAnalysis, options?: StoreResultOptions): Promise<string>;
+  // Null when unknown or past retention, or, given a userId, stored for someone else
+  retrieve(id: string, userId?: string): Promise<ConsensusAnalysis | null>;
+  retrieveWithPrompt(id: string, userId?: string): Promise<RetrievedResult | null>;
+  listHistory(userId: string, query?: HistoryQuery): Promise<HistoryEntry[]>; // Newest first
+  delete(id: string): Promise<boolean>;
+  getStats(): Promise<ResultStoreStats>;
+  destroy(): Promise<void>;
+}
+
+export type ResultStoreBackend = 'memory' | 'sqlite' | 'postgres';
+
+// Memory only has to outlive a page's follow-up requests; database rows are kept much longer
+export const DEFAULT_RETENTION_MINUTES: Record<ResultStoreBackend, number> = {
+  memory: 30,
+  sqlite: 30 * 24 * 60,
+  postgres: 30 * 24 * 60
+};
+
+export function resolveRetentionMs(backend: ResultStoreBackend): number {
+  const minutes = Number(process.env.RESULT_RETENTION_MINUTES);
+  const retentionMinutes = process.env.RESULT_RETENTION_MINUTES && Number.isFinite(minutes) && minutes > 0
+    ? minutes
+    : DEFAULT_RETENTION_MINUTES[backend];
+  return retentionMinutes * 60 * 1000;
+}
 
 interface StoredResult {
   id: string;
   result: ConsensusAnalysis;
   timestamp: number;
-  ttl: number; // Time to live in milliseconds
+  userId?: string;
+  prompt: string;
+  searchText: string;
 }
 
-class ResultStorage {
+export class MemoryResultStore implements ResultStore {
   private storage = new Map<string, StoredResult>();
   private cleanupInterval: NodeJS.Timeout;
 
-  constructor() {
+  constructor(private readonly retentionMs: number = resolveRetentionMs('memory')) {
     // Clean up expired results every 5 minutes
     this.cleanupInterval = setInterval(() => {
       this.cleanup();
     }, 5 * 60 * 1000);
+    this.cleanupInterval.unref?.();
   }
 
-  store(result: ConsensusAnalysis, ttlMinutes: number = 30): string {
+  async store(result: ConsensusAnalysis, options: StoreResultOptions = {}): Promise<string> {
     const id = this.generateId();
-    const ttl = ttlMinutes * 60 * 1000; // Convert to milliseconds
-    
+    const prompt = options.prompt ?? '';
+
     this.storage.set(id, {
       id,
       result,
       timestamp: Date.now(),
-      ttl
+      userId: options.userId,
+      prompt,
+      searchText: buildSearchText(prompt, result)
     });
 
-    console.log(`📦 Stored result ${id} (TTL: ${ttlMinutes}m)`);
+    console.log(`📦 Stored result ${id} (retention: ${this.retentionMs / 60000}m)`);
     return id;
   }
 
-  retrieve(id: string): ConsensusAnalysis | null {
+  async retrieve(id: string, userId?: string): Promise<ConsensusAnalysis | null> {
+    return (await this.retrieveWithPrompt(id, userId))?.analysis ?? null;
+  }
+
+  async retrieveWithPrompt(id: string, userId?: string): Promise<RetrievedResult | null> {
     const stored = this.storage.get(id);
-    
-    if (!stored) {
+
+    if (!stored || (userId !== undefined && stored.userId !== userId)) {
       console.log(`❌ Result ${id} not found`);
       return null;
     }
 
     // Check if expired
-    if (Date.now() - stored.timestamp > stored.ttl) {
+    if (Date.now() - stored.timestamp > this.retentionMs) {
       console.log(`⏰ Result ${id} expired`);
       this.storage.delete(id);
       return null;
     }
 
     console.log(`✅ Retrieved result ${id}`);
-    return stored.result;
+    return { prompt: stored.prompt, analysis: stored.result };
+  }
+
+  async listHistory(userId: string, query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+    const now = Date.now();
+    const terms = searchTerms(query.search);
+    const from = query.from ? Date.parse(query.from) : -Infinity;
+    const to = query.to ? Date.parse(query.to) : Infinity;
+
+    return Array.from(this.storage.values())
+      .filter(stored =>
+        stored.userId === userId &&
+        now - stored.timestamp <= this.retentionMs &&
+        stored.timestamp >= from &&
+        stored.timestamp <= to &&
+        (!query.alignment || stored.result.alignment.overallAlignment === query.alignment) &&
+        terms.every(term => stored.searchText.includes(term))
+      )
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, historyLimit(query))
+      .map(stored => ({
+        id: stored.id,
+        prompt: stored.prompt,
+        alignment: stored.result.alignment.overallAlignment,
+        createdAt: new Date(stored.timestamp).toISOString()
+      }));
   }
 
-  delete(id: string): boolean {
+  async delete(id: string): Promise<boolean> {
     const deleted = this.storage.delete(id);
     if (deleted) {
       console.log(`🗑️ Deleted result ${id}`);
@@ -72,7 +159,7 @@ class ResultStorage {
     let cleaned = 0;
 
     for (const [id, stored] of this.storage.entries()) {
-      if (now - stored.timestamp > stored.ttl) {
+      if (now - stored.timestamp > this.retentionMs) {
         this.storage.delete(id);
         cleaned++;
       }
@@ -84,10 +171,10 @@ class ResultStorage {
   }
 
   // Get storage stats for monitoring
-  getStats(): { count: number; oldestAge: number; newestAge: number } {
+  async getStats(): Promise<ResultStoreStats> {
     const now = Date.now();
     const timestamps = Array.from(this.storage.values()).map(s => s.timestamp);
-    
+
     return {
       count: this.storage.size,
       oldestAge: timestamps.length > 0 ? now - Math.min(...timestamps) : 0,
@@ -96,7 +183,7 @@ class ResultStorage {
   }
 
   // Cleanup method for graceful shutdown
-  destroy(): void {
+  async destroy(): Promise<void> {
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
     }
@@ -104,4 +191,14 @@ class ResultStorage {
   }
 }
 
-export const resultStorage = new ResultStorage();
+// RESULT_STORE=memory (default) | sqlite | postgres; see resolveSqlDatabase
+export function createResultStore(setting?: string): ResultStore {
+  const sql = resolveSqlDatabase(setting);
+  if (!sql) {
+    return new MemoryResultStore();
+  }
+  console.log(`🗄️ Storing results in ${sql.backend}`);
+  return new SqlResultStore(sql.open, resolveRetentionMs(sql.backend));
+}
+
+export const resultStorage = createResultStore();
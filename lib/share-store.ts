@@ -0,0 +1,147 @@
+// Shared synthesis results: a copy of the analysis under an unguessable slug, readable by anyone
+// with the link until its owner revokes it or it expires. Kept in the same place as results
+// (RESULT_STORE): the `shared_results` table when a database is configured, memory otherwise.
+
+import { randomBytes } from 'crypto';
+import type { ConsensusAnalysis, SharedResult } from '@/types/ai';
+import { openOnFirstUse, resolveSqlDatabase, type SqlDatabase } from './sql-database';
+
+export interface NewShare {
+  ownerId: string; // The creator's voiltail-user id; only they can revoke the link
+  prompt: string;
+  analysis: ConsensusAnalysis;
+  expiresAt?: Date;
+}
+
+export type RevokeOutcome = 'revoked' | 'not_found' | 'forbidden';
+
+export interface ShareStore {
+  create(share: NewShare): Promise<SharedResult>;
+  get(slug: string): Promise<SharedResult | null>; // Null when unknown, revoked or expired
+  revoke(slug: string, ownerId: string): Promise<RevokeOutcome>;
+  destroy(): Promise<void>;
+}
+
+// 128 random bits, URL-safe
+export function generateShareSlug(): string {
+  return randomBytes(16).toString('base64url');
+}
+
+const isExpired = (share: SharedResult) => share.expiresAt !== undefined && Date.parse(share.expiresAt) <= Date.now();
+
+export class MemoryShareStore implements ShareStore {
+  private shares = new Map<string, { share: SharedResult; ownerId: string }>();
+
+  async create({ ownerId, prompt, analysis, expiresAt }: NewShare): Promise<SharedResult> {
+    const share: SharedResult = {
+      slug: generateShareSlug(),
+      prompt,
+      analysis,
+      createdAt: new Date().toISOString(),
+      expiresAt: expiresAt?.toISOString()
+    };
+
+    this.shares.set(share.slug, { share, ownerId });
+    console.log(`🔗 Shared result as ${share.slug}`);
+    return share;
+  }
+
+  async get(slug: string): Promise<SharedResult | null> {
+    const stored = this.shares.get(slug);
+    if (!stored) return null;
+
+    if (isExpired(stored.share)) {
+      this.shares.delete(slug);
+      return null;
+    }
+    return stored.share;
+  }
+
+  async revoke(slug: string, ownerId: string): Promise<RevokeOutcome> {
+    const stored = this.shares.get(slug);
+    if (!stored) return 'not_found';
+    if (stored.ownerId !== ownerId) return 'forbidden';
+
+    this.shares.delete(slug);
+    console.log(`🔒 Revoked share ${slug}`);
+    return 'revoked';
+  }
+
+  async destroy(): Promise<void> {
+    this.shares.clear();
+  }
+}
+
+interface SharedResultRow {
+  slug: string;
+  owner_id: string;
+  prompt: string;
+  analysis: ConsensusAnalysis | string; // JSONB comes back parsed from Postgres, as text from SQLite
+  created_at: Date | string;
+  expires_at: Date | string | null;
+  revoked_at: Date | string | null;
+}
+
+// Revoked rows are kept (revoked_at set) so a revoked slug can never resolve again
+export class SqlShareStore implements ShareStore {
+  private db: ReturnType<typeof openOnFirstUse>;
+
+  constructor(open: () => Promise<SqlDatabase>) {
+    this.db = openOnFirstUse(open);
+  }
+
+  async create({ ownerId, prompt, analysis, expiresAt }: NewShare): Promise<SharedResult> {
+    const share: SharedResult = {
+      slug: generateShareSlug(),
+      prompt,
+      analysis,
+      createdAt: new Date().toISOString(),
+      expiresAt: expiresAt?.toISOString()
+    };
+
+    await this.db.execute(
+      'INSERT INTO shared_results (slug, owner_id, prompt, analysis, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [share.slug, ownerId, prompt, JSON.stringify(analysis), share.createdAt, share.expiresAt ?? null]
+    );
+    console.log(`🔗 Shared result as ${share.slug}`);
+    return share;
+  }
+
+  async get(slug: string): Promise<SharedResult | null> {
+    const [row] = await this.db.query<SharedResultRow>('SELECT * FROM shared_results WHERE slug = ?', [slug]);
+    if (!row || row.revoked_at) return null;
+
+    const share: SharedResult = {
+      slug: row.slug,
+      prompt: row.prompt,
+      analysis: typeof row.analysis === 'string' ? JSON.parse(row.analysis) : row.analysis,
+      createdAt: new Date(row.created_at).toISOString(),
+      expiresAt: row.expires_at ? new Date(row.expires_at).toISOString() : undefined
+    };
+    return isExpired(share) ? null : share;
+  }
+
+  async revoke(slug: string, ownerId: string): Promise<RevokeOutcome> {
+    const [row] = await this.db.query<Pick<SharedResultRow, 'owner_id' | 'revoked_at'>>(
+      'SELECT owner_id, revoked_at FROM shared_results WHERE slug = ?',
+      [slug]
+    );
+    if (!row || row.revoked_at) return 'not_found';
+    if (row.owner_id !== ownerId) return 'forbidden';
+
+    await this.db.execute('UPDATE shared_results SET revoked_at = ? WHERE slug = ?', [new Date().toISOString(), slug]);
+    console.log(`🔒 Revoked share ${slug}`);
+    return 'revoked';
+  }
+
+  async destroy(): Promise<void> {
+    await this.db.close();
+  }
+}
+
+export function createShareStore(setting?: string): ShareStore {
+  const sql = resolveSqlDatabase(setting);
+  return sql ? new SqlShareStore(sql.open) : new MemoryShareStore();
+}
+
+export const shareStore = createShareStore();
@@ -0,0 +1,172 @@
+// Daily and monthly spending caps, per user (voiltail-user id) and across everyone, checked before a
+// query calls any provider. Spend is read back from the cost tracker's ledger; queries still running
+// hold their estimated cost so a burst of parallel requests can't all slip under a cap.
+
+import { costTracker, type CostTracker } from '@/lib/cost-tracking';
+import type { BudgetLimit, BudgetPeriod, BudgetScope, BudgetStatus } from '@/types/ai';
+
+export interface BudgetConfig {
+  limits: { scope: BudgetScope; period: BudgetPeriod; limit: number }[]; // USD
+  warningThresholds: number[]; // Fractions of a limit that trigger a warning, e.g. 0.8
+}
+
+// Every cap applies unless set to 0. A client can drop its voiltail-user cookie to get fresh
+// per-user caps, so the service-wide caps are what bound a runaway script.
+const LIMIT_SETTINGS: { scope: BudgetScope; period: BudgetPeriod; variable: string; fallback: number }[] = [
+  { scope: 'user', period: 'daily', variable: 'BUDGET_USER_DAILY_USD', fallback: 5 },
+  { scope: 'user', period: 'monthly', variable: 'BUDGET_USER_MONTHLY_USD', fallback: 50 },
+  { scope: 'global', period: 'daily', variable: 'BUDGET_GLOBAL_DAILY_USD', fallback: 100 },
+  { scope: 'global', period: 'monthly', variable: 'BUDGET_GLOBAL_MONTHLY_USD', fallback: 1000 }
+];
+
+const DEFAULT_WARNING_THRESHOLDS = [0.8];
+
+export function readBudgetConfig(env: Record<string, string | undefined> = process.env): BudgetConfig {
+  const limits = LIMIT_SETTINGS.flatMap(({ scope, period, variable, fallback }) => {
+    const value = env[variable];
+    let limit = fallback;
+    if (value) {
+      const parsed = Number(value);
+      if (Number.isFinite(parsed) && parsed >= 0) {
+        limit = parsed;
+      } else {
+        console.warn(`⚠️ Ignoring ${variable}="${value}"; expected a dollar amount`);
+      }
+    }
+    return limit ? [{ scope, period, limit }] : [];
+  });
+
+  const thresholds = (env.BUDGET_WARNING_THRESHOLDS ?? '')
+    .split(',')
+    .map(Number)
+    .filter(threshold => threshold > 0 && threshold <= 1);
+
+  return {
+    limits,
+    warningThresholds: thresholds.length > 0 ? thresholds : DEFAULT_WARNING_THRESHOLDS
+  };
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string, readonly status: BudgetStatus) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Spend couldn't be read, so no query is let through until it can
+export class BudgetUnavailableError extends Error {
+  constructor(message: string = 'Spending limits cannot be checked right now; try again shortly') {
+    super(message);
+    this.name = 'BudgetUnavailableError';
+  }
+}
+
+export interface BudgetReservation {
+  status: BudgetStatus; // Warnings account for this query's estimate
+  release(): void; // Once the query's cost is in the ledger, or it ended without one
+}
+
+interface PendingQuery {
+  userId: string;
+  amount: number;
+}
+
+// Periods follow the UTC calendar
+function periodBounds(period: BudgetPeriod, now: number): { start: number; end: number } {
+  const date = new Date(now);
+  const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()];
+  return period === 'daily'
+    ? { start: Date.UTC(year, month, day), end: Date.UTC(year, month, day + 1) }
+    : { start: Date.UTC(year, month, 1), end: Date.UTC(year, month + 1, 1) };
+}
+
+const formatUsd = (amount: number) => `$${amount.toFixed(2)}`;
+
+function exceededMessage(limit: BudgetLimit): string {
+  return limit.scope === 'user'
+    ? `Your ${limit.period} spending limit of ${formatUsd(limit.limit)} has been reached; it resets at ${limit.resetsAt}`
+    : `The service's ${limit.period} spending limit has been reached; try again after ${limit.resetsAt}`;
+}
+
+function warningMessage(limit: BudgetLimit, amount: number): string {
+  const percent = Math.min(100, Math.round((amount / limit.limit) * 100));
+  return limit.scope === 'user'
+    ? `You've used ${percent}% of your ${limit.period} budget (${formatUsd(amount)} of ${formatUsd(limit.limit)})`
+    : `The service has used ${percent}% of its ${limit.period} budget`;
+}
+
+export class SpendBudget {
+  private pending = new Set<PendingQuery>();
+
+  constructor(
+    private readonly tracker: Pick<CostTracker, 'getSpend'> = costTracker,
+    private readonly config: BudgetConfig = readBudgetConfig()
+  ) {}
+
+  // Where a user (null for a visitor without an id yet) stands against every configured limit
+  async getStatus(userId: string | null): Promise<BudgetStatus> {
+    return this.evaluate(await this.readSpend(userId), userId, 0).status;
+  }
+
+  // Holds the query's estimated cost against every limit until released. Throws BudgetExceededError
+  // when the query would take spend past a limit, and BudgetUnavailableError when the ledger can't be read.
+  async reserve(userId: string, estimate: number): Promise<BudgetReservation> {
+    let spend: number[];
+    try {
+      spend = await this.readSpend(userId);
+    } catch (error) {
+      console.error('Error reading spend for budget:', error);
+      throw new BudgetUnavailableError();
+    }
+
+    // No await from here on, so concurrent reservations always see each other
+    const { status, exceeded } = this.evaluate(spend, userId, estimate);
+    if (exceeded) {
+      console.log(`🚫 Query refused: ${exceeded.scope} ${exceeded.period} budget of ${formatUsd(exceeded.limit)} reached`);
+      throw new BudgetExceededError(exceededMessage(exceeded), status);
+    }
+
+    const query: PendingQuery = { userId, amount: estimate };
+    this.pending.add(query);
+    return { status, release: () => this.pending.delete(query) };
+  }
+
+  // Ledger spend per limit this period
+  private async readSpend(userId: string | null): Promise<number[]> {
+    const now = Date.now();
+    return Promise.all(this.config.limits.map(async ({ scope, period }) => {
+      if (scope === 'user' && userId === null) return 0;
+      // The ledger counts records after `since`, so start one millisecond early
+      return this.tracker.getSpend(periodBounds(period, now).start - 1, scope === 'user' ? userId! : undefined);
+    }));
+  }
+
+  private evaluate(spend: number[], userId: string | null, estimate: number): { status: BudgetStatus; exceeded?: BudgetLimit } {
+    const now = Date.now();
+    const limits: BudgetLimit[] = this.config.limits.map(({ scope, period, limit }, index) => {
+      const running = Array.from(this.pending)
+        .filter(query => scope === 'global' || query.userId === userId)
+        .reduce((total, query) => total + query.amount, 0);
+      const spent = spend[index] + running;
+      return {
+        scope,
+        period,
+        limit,
+        spent,
+        remaining: Math.max(0, limit - spent),
+        resetsAt: new Date(periodBounds(period, now).end).toISOString()
+      };
+    });
+
+    const exceeded = estimate > 0 ? limits.find(limit => limit.spent + estimate > limit.limit) : undefined;
+    const warnings = limits.flatMap(limit => {
+      const amount = limit.spent + estimate;
+      return this.config.warningThresholds.some(threshold => amount >= limit.limit * threshold) ? [warningMessage(limit, amount)] : [];
+    });
+
+    return { status: { limits, warnings }, exceeded };
+  }
+}
+
+export const spendBudget = new SpendBudget();
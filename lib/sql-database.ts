@@ -0,0 +1,167 @@
+// SQL access shared by the persistent stores: one small driver surface over SQLite (local
+// development) and Supabase Postgres (production). Drivers load lazily so in-memory setups
+// never need them. RESULT_STORE (and COST_LEDGER) pick the database.
+
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+// Minimal driver surface; statements use `?` placeholders
+export interface SqlDatabase {
+  query<T>(sql: string, params?: unknown[]): Promise<T[]>;
+  execute(sql: string, params?: unknown[]): Promise<number>; // Affected rows
+  close(): Promise<void>;
+}
+
+export type SqlBackend = 'sqlite' | 'postgres';
+
+// SQLite mirror of the Postgres tables in docs/technical/DATABASE-SCHEMA.md: UUIDs and
+// timestamps as ISO text, JSONB as text
+const SQLITE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS queries (
+    id TEXT PRIMARY KEY,
+    user_id TEXT,
+    owner_id TEXT,
+    prompt TEXT NOT NULL,
+    analysis TEXT,
+    synthesis_type TEXT DEFAULT 'sophisticated' CHECK (synthesis_type IN ('basic', 'sophisticated')),
+    processing_time INTEGER,
+    estimated_cost REAL,
+    alignment_level TEXT,
+    search_text TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_queries_created_at ON queries(created_at);
+  CREATE INDEX IF NOT EXISTS idx_queries_owner_id ON queries(owner_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS shared_results (
+    slug TEXT PRIMARY KEY,
+    owner_id TEXT NOT NULL,
+    prompt TEXT NOT NULL,
+    analysis TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    expires_at TEXT,
+    revoked_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_shared_results_owner_id ON shared_results(owner_id);
+
+  CREATE TABLE IF NOT EXISTS query_costs (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT,
+    tier TEXT NOT NULL CHECK (tier IN ('basic', 'pro')),
+    total REAL NOT NULL,
+    estimated_total REAL NOT NULL,
+    processing_time INTEGER NOT NULL,
+    measured INTEGER NOT NULL DEFAULT 0,
+    cancelled INTEGER NOT NULL DEFAULT 0,
+    detail TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_query_costs_created_at ON query_costs(created_at);
+  CREATE INDEX IF NOT EXISTS idx_query_costs_owner_id ON query_costs(owner_id, created_at);
+`;
+
+// Columns added to tables after their first release; older database files get them on open
+const ADDED_COLUMNS: Record<string, string[]> = {
+  queries: ['owner_id TEXT', 'alignment_level TEXT', 'search_text TEXT'],
+  query_costs: ['owner_id TEXT']
+};
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Postgres rejects non-UUID values for UUID columns outright, so check before querying
+export function isUuid(value: string): boolean {
+  return UUID.test(value);
+}
+
+export async function openSqliteDatabase(path: string): Promise<SqlDatabase> {
+  const { default: Database } = await import('better-sqlite3');
+  if (path !== ':memory:') {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  Object.entries(ADDED_COLUMNS).forEach(([table, columns]) => {
+    const existing = new Set((db.pragma(`table_info(${table})`) as { name: string }[]).map(column => column.name));
+    columns
+      .filter(column => existing.size > 0 && !existing.has(column.split(' ')[0]))
+      .forEach(column => db.exec(`ALTER TABLE ${table} ADD COLUMN ${column}`));
+  });
+  db.exec(SQLITE_SCHEMA);
+
+  return {
+    query: async <T>(sql: string, params: unknown[] = []) => db.prepare(sql).all(...params) as T[],
+    execute: async (sql, params = []) => db.prepare(sql).run(...params).changes,
+    close: async () => {
+      db.close();
+    }
+  };
+}
+
+// Expects the schema from DATABASE-SCHEMA.md to be migrated already
+export async function openPostgresDatabase(connectionString: string): Promise<SqlDatabase> {
+  const { default: pg } = await import('pg');
+  const pool = new pg.Pool({ connectionString });
+  const numbered = (sql: string) => {
+    let index = 0;
+    return sql.replace(/\?/g, () => `$${++index}`);
+  };
+
+  return {
+    query: async <T>(sql: string, params: unknown[] = []) => (await pool.query(numbered(sql), params)).rows as T[],
+    execute: async (sql, params = []) => (await pool.query(numbered(sql), params)).rowCount ?? 0,
+    close: () => pool.end()
+  };
+}
+
+// Connects on the first statement rather than at startup; a failed connection is retried next time
+export function openOnFirstUse(open: () => Promise<SqlDatabase>): SqlDatabase & { isOpen(): boolean } {
+  let database: Promise<SqlDatabase> | null = null;
+  const connect = () => {
+    if (!database) {
+      database = open().catch(error => {
+        database = null;
+        throw error;
+      });
+    }
+    return database;
+  };
+
+  return {
+    query: async (sql, params) => (await connect()).query(sql, params),
+    execute: async (sql, params) => (await connect()).execute(sql, params),
+    close: async () => {
+      const opened = database;
+      database = null;
+      if (opened) {
+        await (await opened).close();
+      }
+    },
+    isOpen: () => database !== null
+  };
+}
+
+// RESULT_STORE=sqlite (RESULT_STORE_PATH) | postgres (DATABASE_URL); null means keep data in memory
+export function resolveSqlDatabase(
+  setting: string = process.env.RESULT_STORE ?? 'memory'
+): { backend: SqlBackend; open: () => Promise<SqlDatabase> } | null {
+  switch (setting) {
+    case 'memory':
+      return null;
+    case 'sqlite': {
+      const path = process.env.RESULT_STORE_PATH || '.data/results.db';
+      return { backend: 'sqlite', open: () => openSqliteDatabase(path) };
+    }
+    case 'postgres': {
+      const url = process.env.DATABASE_URL;
+      if (!url) {
+        console.warn('⚠️ RESULT_STORE=postgres needs DATABASE_URL; keeping data in memory');
+        return null;
+      }
+      return { backend: 'postgres', open: () => openPostgresDatabase(url) };
+    }
+    default:
+      console.warn(`⚠️ Unknown RESULT_STORE "${setting}"; keeping data in memory`);
+      return null;
+  }
+}
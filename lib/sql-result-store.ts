@@ -0,0 +1,166 @@
+// SQL-backed ResultStore over the `queries` table (docs/technical/DATABASE-SCHEMA.md). The same
+// statements run on SQLite locally and on Supabase Postgres in production.
+
+import { randomUUID } from 'crypto';
+import type { AlignmentLevel, ConsensusAnalysis, HistoryEntry, HistoryQuery } from '@/types/ai';
+import type { ResultStore, ResultStoreStats, RetrievedResult, StoreResultOptions } from './result-storage';
+import { buildSearchText, historyLimit, searchTerms } from './history-search';
+import { isUuid, openOnFirstUse, type SqlDatabase } from './sql-database';
+
+interface QueryRow {
+  prompt: string;
+  analysis: ConsensusAnalysis | string; // JSONB comes back parsed from Postgres, as text from SQLite
+  created_at: Date | string;
+}
+
+interface HistoryRow {
+  id: string;
+  prompt: string;
+  alignment_level: AlignmentLevel;
+  created_at: Date | string;
+}
+
+// Search terms are matched literally, so LIKE wildcards in them are escaped
+const escapeLike = (term: string) => term.replace(/[\\%_]/g, character => `\\${character}`);
+
+export class SqlResultStore implements ResultStore {
+  private db: ReturnType<typeof openOnFirstUse>;
+  private cleanupInterval: NodeJS.Timeout;
+
+  constructor(open: () => Promise<SqlDatabase>, private readonly retentionMs: number) {
+    this.db = openOnFirstUse(open);
+
+    // Clean up expired results every 5 minutes
+    this.cleanupInterval = setInterval(() => {
+      this.cleanup().catch(error => console.error('Result cleanup failed:', error));
+    }, 5 * 60 * 1000);
+    this.cleanupInterval.unref?.();
+  }
+
+  async store(result: ConsensusAnalysis, options: StoreResultOptions = {}): Promise<string> {
+    const id = randomUUID();
+    const prompt = options.prompt ?? '';
+
+    await this.db.execute(
+      `INSERT INTO queries (id, owner_id, prompt, analysis, synthesis_type, processing_time, estimated_cost, alignment_level, search_text, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        options.userId ?? null,
+        prompt,
+        JSON.stringify(result),
+        options.mode === 'basic' ? 'basic' : 'sophisticated',
+        options.processingTime ?? null,
+        options.estimatedCost ?? null,
+        result.alignment.overallAlignment,
+        buildSearchText(prompt, result),
+        new Date().toISOString()
+      ]
+    );
+
+    console.log(`📦 Stored result ${id} (retention: ${this.retentionMs / 60000}m)`);
+    return id;
+  }
+
+  async retrieve(id: string, userId?: string): Promise<ConsensusAnalysis | null> {
+    return (await this.retrieveWithPrompt(id, userId))?.analysis ?? null;
+  }
+
+  async retrieveWithPrompt(id: string, userId?: string): Promise<RetrievedResult | null> {
+    // Every id this store hands out is a UUID
+    const [row] = !isUuid(id)
+      ? []
+      : userId === undefined
+        ? await this.db.query<QueryRow>('SELECT prompt, analysis, created_at FROM queries WHERE id = ?', [id])
+        : await this.db.query<QueryRow>('SELECT prompt, analysis, created_at FROM queries WHERE id = ? AND owner_id = ?', [id, userId]);
+
+    if (!row || !row.analysis) {
+      console.log(`❌ Result ${id} not found`);
+      return null;
+    }
+
+    if (Date.now() - new Date(row.created_at).getTime() > this.retentionMs) {
+      console.log(`⏰ Result ${id} expired`);
+      await this.delete(id);
+      return null;
+    }
+
+    console.log(`✅ Retrieved result ${id}`);
+    return {
+      prompt: row.prompt,
+      analysis: typeof row.analysis === 'string' ? JSON.parse(row.analysis) : row.analysis
+    };
+  }
+
+  async listHistory(userId: string, query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+    const conditions = ['owner_id = ?', 'created_at >= ?', 'analysis IS NOT NULL'];
+    const params: unknown[] = [userId, new Date(Date.now() - this.retentionMs).toISOString()];
+
+    // search_text is stored lowercased, so LIKE behaves the same on SQLite and Postgres
+    for (const term of searchTerms(query.search)) {
+      conditions.push("search_text LIKE ? ESCAPE '\\'");
+      params.push(`%${escapeLike(term)}%`);
+    }
+    if (query.alignment) {
+      conditions.push('alignment_level = ?');
+      params.push(query.alignment);
+    }
+    if (query.from) {
+      conditions.push('created_at >= ?');
+      params.push(new Date(query.from).toISOString());
+    }
+    if (query.to) {
+      conditions.push('created_at <= ?');
+      params.push(new Date(query.to).toISOString());
+    }
+
+    const rows = await this.db.query<HistoryRow>(
+      `SELECT id, prompt, alignment_level, created_at FROM queries WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC LIMIT ?`,
+      [...params, historyLimit(query)]
+    );
+    return rows.map(row => ({
+      id: row.id,
+      prompt: row.prompt,
+      alignment: row.alignment_level,
+      createdAt: new Date(row.created_at).toISOString()
+    }));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+
+    const deleted = (await this.db.execute('DELETE FROM queries WHERE id = ?', [id])) > 0;
+    if (deleted) {
+      console.log(`🗑️ Deleted result ${id}`);
+    }
+    return deleted;
+  }
+
+  async getStats(): Promise<ResultStoreStats> {
+    const now = Date.now();
+    const [row] = await this.db.query<{ count: number | string; oldest: Date | string | null; newest: Date | string | null }>(
+      'SELECT COUNT(*) AS count, MIN(created_at) AS oldest, MAX(created_at) AS newest FROM queries'
+    );
+
+    return {
+      count: Number(row?.count ?? 0), // Postgres returns COUNT(*) as a string
+      oldestAge: row?.oldest ? now - new Date(row.oldest).getTime() : 0,
+      newestAge: row?.newest ? now - new Date(row.newest).getTime() : 0
+    };
+  }
+
+  async destroy(): Promise<void> {
+    clearInterval(this.cleanupInterval);
+    await this.db.close();
+  }
+
+  private async cleanup(): Promise<void> {
+    if (!this.db.isOpen()) return;
+
+    const cutoff = new Date(Date.now() - this.retentionMs).toISOString();
+    const cleaned = await this.db.execute('DELETE FROM queries WHERE created_at < ?', [cutoff]);
+    if (cleaned > 0) {
+      console.log(`🧹 Cleaned up ${cleaned} expired results`);
+    }
+  }
+}
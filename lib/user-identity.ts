@@ -0,0 +1,27 @@
+// Anonymous per-browser identity: a random id in the voiltail-user cookie, so the app can tell
+// who owns what (shared links, history) before real accounts exist
+
+import { randomUUID } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+
+export const USER_COOKIE = 'voiltail-user';
+
+export function getUserId(request: NextRequest): string | null {
+  return request.cookies.get(USER_COOKIE)?.value || null;
+}
+
+// The request's user id, or a fresh one; `isNew` means the caller should set the cookie
+export function resolveUserId(request: NextRequest): { userId: string; isNew: boolean } {
+  const userId = getUserId(request);
+  return userId ? { userId, isNew: false } : { userId: randomUUID(), isNew: true };
+}
+
+export function setUserCookie(response: NextResponse, userId: string): void {
+  response.cookies.set(USER_COOKIE, userId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 60 * 60 * 24 * 365, // 1 year
+    path: '/'
+  });
+}
@@ -7,12 +7,122 @@ export interface FileAttachment {
   filename: string;
 }
 
+export interface ImageSize {
+  width: number; // Pixels
+  height: number;
+}
+
+// What the cost estimate reads from an attachment, so the page can re-estimate without resending the file
+export interface AttachmentSummary {
+  type: 'image' | 'document';
+  bytes: number;
+  size?: ImageSize; // Images whose header could be read
+  tokens?: number; // Documents
+}
+
+// Participant key: the provider id (e.g. 'claude'), or 'provider:model' when a
+// provider appears more than once in a panel (e.g. 'claude:claude-3-5-haiku-20241022')
+export type ModelId = string;
+
 export interface ModelResponse {
-  model: 'gemini' | 'openai' | 'claude';
+  model: ModelId;
+  label?: string; // Model label, e.g. 'Claude Sonnet 4'
   content: string;
   responseTime: number;
 }
 
+// Tokens billed for one API call, as reported in the provider's usage metadata
+export interface TokenUsage {
+  model: string; // Vendor model id the tokens were billed against, e.g. 'gpt-4o'
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Why a model produced no answer
+export type ModelErrorCode =
+  | 'rate_limited'
+  | 'auth'
+  | 'bad_request'
+  | 'server_error'
+  | 'network'
+  | 'timeout'
+  | 'circuit_open' // Skipped: the provider failed repeatedly and its circuit breaker is open
+  | 'unknown';
+
+export interface ModelFailure {
+  model: ModelId;
+  label?: string;
+  provider: string; // Provider id, e.g. 'claude'
+  code: ModelErrorCode;
+  message: string;
+  retryable: boolean; // Whether the same query could succeed if tried again later
+  httpStatus?: number;
+  responseTime: number;
+}
+
+// Outcome of one model call: an answer, or a structured failure
+export type ModelResult =
+  | ({ ok: true; usage?: TokenUsage } & ModelResponse)
+  | ({ ok: false } & ModelFailure);
+
+export interface ProviderCapabilities {
+  images: boolean;
+  documents: boolean;
+}
+
+export interface ProviderModelOption {
+  id: string; // Vendor model id, e.g. 'gpt-4o'
+  label: string; // Human readable name, e.g. 'ChatGPT 4o'
+  estimatedCost?: number; // Overrides the provider estimate for this model
+}
+
+// One entry of the user-selected model panel sent to the synthesis routes
+export interface ModelSelection {
+  provider: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ModelRequest {
+  prompt: string;
+  model: string; // Vendor model id to call
+  attachments?: FileAttachment[];
+  temperature?: number;
+  maxTokens?: number;
+  onToken?: (delta: string) => void; // When set, the provider streams and reports text as it arrives
+  signal?: AbortSignal; // Aborts the in-flight SDK call when the query is cancelled
+}
+
+export interface ModelOutput {
+  content: string;
+  usage?: TokenUsage; // Unset when the provider reported no usage
+}
+
+export interface ModelProvider {
+  id: ModelId;
+  displayName: string;
+  color: string; // Accent colour used by the consensus page
+  apiKeyEnv?: string; // Environment variable the provider needs, if any
+  estimatedCost: number; // Estimated cost per query in USD
+  timeoutMs?: number; // Per-call deadline, retries included (per gap between chunks once streaming, up to MODEL_TOTAL_TIMEOUT_MS); overridden by <PROVIDER>_TIMEOUT_MS
+  capabilities: ProviderCapabilities;
+  models: ProviderModelOption[];
+  defaultModel: string;
+  imageTokens?(size: ImageSize): number; // Input tokens an image attachment costs, for pre-flight estimates
+  generate(request: ModelRequest): Promise<ModelOutput>;
+}
+
+// Where semantic similarity scores come from: the OpenAI API, or a network-free local model
+export type EmbeddingBackendId = 'openai' | 'local';
+
+export interface EmbeddingBackend {
+  id: EmbeddingBackendId;
+  model: string; // Embedding model name; part of the embedding cache key
+  isAvailable(): boolean; // e.g. whether the required API key is configured
+  embed(texts: string[], signal?: AbortSignal, onUsage?: (usage: TokenUsage) => void): Promise<number[][]>;
+}
+
 export interface AIResponse {
   id: string;
   timestamp: string;
@@ -30,34 +140,179 @@ export interface AIResponse {
   };
 }
 
+export interface ClaimSource {
+  model: ModelId;
+  text: string; // The claim as phrased by this model
+}
+
 export interface AlignedPoint {
   content: string;
   models: string[];
   strength: number;
+  sources?: ClaimSource[]; // Each supporting model's own wording of the claim
 }
 
-export interface DivergentSection {
+interface DivergentSectionBase {
   topic: string;
   content: string;
   models: string[];
   description: string;
 }
 
+// Models assert incompatible things (different figures, dates, answers or recommendations)
+export interface SubstantiveDivergence extends DivergentSectionBase {
+  kind: 'substantive';
+  conflict: 'numeric' | 'date' | 'polarity' | 'recommendation';
+  positions: ClaimSource[]; // Each model's conflicting claim, verbatim
+}
+
+// Models differ in presentation (detail level, tone, emphasis) rather than in substance
+export interface StyleDivergence extends DivergentSectionBase {
+  kind: 'style';
+}
+
+export type DivergentSection = SubstantiveDivergence | StyleDivergence;
+
+// A specific fact (figure, date or name) that only one model asserted
+export interface UnverifiedClaim {
+  model: ModelId;
+  kind: 'number' | 'date' | 'name';
+  text: string; // The span exactly as it appears in the response
+  start: number; // Offsets into the response content
+  end: number;
+}
+
+// Stage boundaries synthesizeResponses reports while it runs, in order
+export type SynthesisProgressStage =
+  | 'embeddings_requested'
+  | 'embeddings_done'
+  | 'alignment_computed'
+  | 'divergences_computed'
+  | 'synthesis_started' // First synthesis token arrived; only reported when streaming
+  | 'synthesis_done';
+
+export interface SynthesisProgress {
+  stage: SynthesisProgressStage;
+  durationMs: number; // Time since the previous boundary
+  elapsedMs: number; // Time since the pipeline started
+}
+
+// Pipeline stages run by synthesizeResponses, in order
+export type SynthesisStage = 'claims' | 'similarity' | 'divergences' | 'fact_check' | 'synthesis';
+
+// 'fallback' ran with a degraded substitute; 'failed' produced nothing usable
+export type StageStatus = 'ok' | 'fallback' | 'skipped' | 'failed';
+
+export type ScoreConfidence = 'high' | 'medium' | 'low' | 'none';
+
+export interface StageDiagnostic {
+  stage: SynthesisStage;
+  status: StageStatus;
+  detail?: string; // e.g. 'openai embeddings', 'Used local embeddings'
+  error?: string; // Underlying error when the stage fell back or failed
+}
+
+export interface AnalysisDiagnostics {
+  degraded: boolean; // True when any stage fell back or failed
+  stages: StageDiagnostic[];
+  errors: string[];
+  confidence: {
+    semantic: ScoreConfidence;
+    surface: ScoreConfidence;
+    alignment: ScoreConfidence;
+    alignedPoints: ScoreConfidence;
+    divergences: ScoreConfidence;
+  };
+}
+
 export interface ConsensusAnalysis {
   unifiedResponse: string;
   alignment: AlignmentData;
   alignedPoints: AlignedPoint[];
   divergentSections: DivergentSection[];
+  unverifiedClaims?: UnverifiedClaim[];
+  diagnostics?: AnalysisDiagnostics;
   originalResponses: ModelResponse[];
+  failedModels?: ModelFailure[]; // Panel models that produced no answer, so were left out of the analysis
+}
+
+// A synthesis saved under an unguessable slug and viewable read-only at /r/[slug]
+export interface SharedResult {
+  slug: string;
+  prompt: string;
+  analysis: ConsensusAnalysis;
+  createdAt: string; // ISO timestamp
+  expiresAt?: string; // ISO timestamp; absent when the link never expires
+}
+
+export type AlignmentLevel = 'high' | 'moderate' | 'low';
+
+// One past synthesis in a user's history; the full analysis is fetched when it is reopened
+export interface HistoryEntry {
+  id: string; // Result id
+  prompt: string;
+  alignment: AlignmentLevel;
+  createdAt: string; // ISO timestamp
+}
+
+export interface HistoryQuery {
+  search?: string; // Every word must appear in the prompt, unified response or a model answer
+  alignment?: AlignmentLevel;
+  from?: string; // ISO timestamps, inclusive
+  to?: string;
+  limit?: number;
+}
+
+// Projected spend for one part of a query, worked out before it runs
+export interface CostEstimateLine {
+  key: string; // Panel model key, or 'embeddings' / 'synthesis'
+  label: string;
+  model: string; // Vendor model id the tokens would be billed against
+  inputTokens: number;
+  outputTokens: number; // Expected answer length
+  cost: number; // USD
+  priced: boolean; // False when the model has no price in the table and its fixed estimate stands in
+}
+
+export interface CostEstimate {
+  mode: 'basic' | 'pro';
+  promptTokens: number;
+  attachmentTokens: number; // The most any one model pays for the attachments
+  lines: CostEstimateLine[]; // Panel models in order, then the synthesis stages
+  total: number;
+  priceTableVersion: string;
+}
+
+export type BudgetScope = 'user' | 'global'; // One voiltail-user id, or everyone together
+export type BudgetPeriod = 'daily' | 'monthly'; // UTC calendar day or month
+
+// A configured spending cap and where spend stands against it
+export interface BudgetLimit {
+  scope: BudgetScope;
+  period: BudgetPeriod;
+  limit: number; // USD
+  spent: number; // USD charged this period, plus queries still running
+  remaining: number;
+  resetsAt: string; // ISO timestamp
+}
+
+export interface BudgetStatus {
+  limits: BudgetLimit[];
+  warnings: string[]; // Limits past a warning threshold, worded for the user
+}
+
+export interface SimilarityMatrix {
+  models: ModelId[]; // Row and column order
+  scores: number[][]; // 0-1 combined similarity (70% semantic, 30% surface), 1 on the diagonal
 }
 
 export interface AlignmentData {
   semantic: number; // 0-1 (cosine similarity of embeddings)
   surface: number; // 0-1 (Jaccard similarity)
-  gemini: 'high' | 'moderate' | 'low';
-  chatgpt: 'high' | 'moderate' | 'low';
-  claude: 'high' | 'moderate' | 'low';
-  overallAlignment: 'high' | 'moderate' | 'low';
+  embeddingBackend?: EmbeddingBackendId; // Backend that produced `semantic`; absent when no embeddings were needed
+  models: Record<ModelId, AlignmentLevel>; // Each model's alignment with the rest of the panel
+  similarityMatrix: SimilarityMatrix;
+  overallAlignment: AlignmentLevel;
   description: string; // e.g., "Strong semantic alignment with diverse expression"
   methodology: 'semantic-similarity-v2' | 'word-overlap-v1' | 'markdown-ready-v1.0';
   alignedPoints: AlignedPoint[]; // Move aligned points here